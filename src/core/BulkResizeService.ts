@@ -0,0 +1,138 @@
+import { TFile, getAllTags } from 'obsidian';
+import type PixelPerfectImage from '../main';
+import type { BulkResizeScope, NoteResizeRule } from '../utils/types';
+import { applyNoteResizeRule, errorLog, findLastObsidianImageSizeParam, readNoteText } from '../utils/utils';
+
+/** One link a bulk resize changes, with its size parameter before and after (null when it has none) */
+export interface BulkResizeChange {
+    imageFile: TFile;
+    before: string | null;
+    after: string | null;
+}
+
+export interface BulkResizeNotePlan {
+    file: TFile;
+    changes: BulkResizeChange[];
+}
+
+export interface BulkResizeReport {
+    notesChanged: number;
+    linksChanged: number;
+    failedNotes: TFile[];
+    cancelled: boolean;
+}
+
+export interface BulkResizeProgress {
+    onProgress(done: number, total: number): void;
+    isCancelled(): boolean;
+}
+
+/**
+ * Applies a note resize rule to the image links of many notes: first as a dry run that lists every
+ * change, then by rewriting the notes one at a time.
+ */
+export class BulkResizeService {
+    private plugin: PixelPerfectImage;
+
+    constructor(plugin: PixelPerfectImage) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Returns the markdown notes in a scope. Tags match nested tags too, so `#project` includes `#project/a`.
+     */
+    getNotesInScope(scope: BulkResizeScope): TFile[] {
+        const notes = this.plugin.app.vault.getMarkdownFiles();
+        switch (scope.kind) {
+            case 'vault':
+                return notes;
+            case 'folder': {
+                const prefix = scope.path.replace(/^\/+|\/+$/g, '');
+                if (!prefix) return notes;
+                return notes.filter(file => file.path.startsWith(`${prefix}/`));
+            }
+            case 'tag': {
+                const tag = `#${scope.tag.trim().replace(/^#/, '')}`.toLowerCase();
+                return notes.filter(file => {
+                    const cache = this.plugin.app.metadataCache.getFileCache(file);
+                    const tags = cache ? (getAllTags(cache) ?? []) : [];
+                    return tags.some(candidate => {
+                        const normalized = candidate.toLowerCase();
+                        return normalized === tag || normalized.startsWith(`${tag}/`);
+                    });
+                });
+            }
+        }
+    }
+
+    /**
+     * Lists the link changes a rule would make in each note, without writing anything.
+     * Notes the rule doesn't change are left out.
+     */
+    async planBulkResize(notes: TFile[], rule: NoteResizeRule, progress: BulkResizeProgress): Promise<BulkResizeNotePlan[]> {
+        const plan: BulkResizeNotePlan[] = [];
+        const dimensionsByPath = new Map<string, { width: number; height: number } | null>();
+
+        for (const [index, file] of notes.entries()) {
+            if (progress.isCancelled()) break;
+            progress.onProgress(index, notes.length);
+
+            const text = await readNoteText(this.plugin.app, file);
+            if (rule.kind !== 'clear') {
+                for (const imageFile of this.plugin.linkService.findLinkedImageFiles(text, file)) {
+                    if (dimensionsByPath.has(imageFile.path)) continue;
+                    dimensionsByPath.set(imageFile.path, await this.plugin.imageService.readImageDimensions(imageFile).catch(() => null));
+                }
+            }
+
+            const changes = this.plugin.linkService
+                .previewAllImageLinks(text, file, (imageFile, params) =>
+                    applyNoteResizeRule(params, rule, dimensionsByPath.get(imageFile.path) ?? null, this.plugin.settings.keepWidthAndHeight)
+                )
+                .map(({ imageFile, before, after }) => ({
+                    imageFile,
+                    before: this.getSizeParam(before),
+                    after: this.getSizeParam(after)
+                }));
+            if (changes.length > 0) plan.push({ file, changes });
+        }
+
+        progress.onProgress(notes.length, notes.length);
+        return plan;
+    }
+
+    /**
+     * Rewrites the notes of a plan one at a time, stopping between notes when cancelled. Each note is
+     * recomputed from its current contents, so edits made since the dry run are kept.
+     */
+    async applyBulkResize(plan: BulkResizeNotePlan[], rule: NoteResizeRule, progress: BulkResizeProgress): Promise<BulkResizeReport> {
+        const report: BulkResizeReport = { notesChanged: 0, linksChanged: 0, failedNotes: [], cancelled: false };
+
+        for (const [index, { file }] of plan.entries()) {
+            if (progress.isCancelled()) {
+                report.cancelled = true;
+                break;
+            }
+            progress.onProgress(index, plan.length);
+
+            try {
+                const { changed } = await this.plugin.imageService.resizeAllImagesInNote(file, rule);
+                if (changed > 0) {
+                    report.notesChanged++;
+                    report.linksChanged += changed;
+                }
+            } catch (error) {
+                errorLog(`Failed to resize images in ${file.path}:`, error);
+                report.failedNotes.push(file);
+            }
+        }
+
+        if (!report.cancelled) progress.onProgress(plan.length, plan.length);
+        return report;
+    }
+
+    private getSizeParam(params: string[]): string | null {
+        const sizeParam = findLastObsidianImageSizeParam(params);
+        return sizeParam ? params[sizeParam.index] : null;
+    }
+}
@@ -0,0 +1,183 @@
+import { FileView, TFile } from 'obsidian';
+import type { AllCanvasNodeData } from 'obsidian/canvas';
+import type PixelPerfectImage from '../main';
+import type { CanvasImage } from '../utils/types';
+import { IMAGE_EXTENSIONS } from '../utils/constants';
+import { findCanvasNode, resizeCanvasNode, updateCanvasNode, updateCanvasNodes } from '../utils/canvas';
+import { findLastObsidianImageSizeParam, setImageWidthParam } from '../utils/utils';
+
+/** The node of an open canvas, from Obsidian's internal canvas API */
+interface CanvasNodeInternals {
+    nodeEl: HTMLElement;
+    getData(): AllCanvasNodeData;
+    setData(data: AllCanvasNodeData): void;
+}
+
+/** The canvas of an open canvas view, from Obsidian's internal canvas API */
+interface CanvasInternals {
+    nodes: Map<string, CanvasNodeInternals>;
+    requestSave(): void;
+}
+
+/**
+ * Resizes images in canvases. A file node is resized by changing its width and height in the canvas,
+ * and an image in a text node by changing the size parameter of its link in the node's markdown.
+ */
+export class CanvasService {
+    private plugin: PixelPerfectImage;
+
+    constructor(plugin: PixelPerfectImage) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Finds the open canvas view showing a canvas file, or the one containing an element.
+     */
+    private findCanvasView(match: (view: FileView) => boolean): { view: FileView; canvas: CanvasInternals | null } | null {
+        for (const leaf of this.plugin.app.workspace.getLeavesOfType('canvas')) {
+            const view = leaf.view;
+            if (!(view instanceof FileView) || !view.file || !match(view)) continue;
+
+            // The canvas isn't part of the public API; fall back to editing the file when it's missing
+            const canvas = (view as FileView & { canvas?: Partial<CanvasInternals> }).canvas;
+            const isUsable = canvas?.nodes instanceof Map && typeof canvas.requestSave === 'function';
+            return { view, canvas: isUsable ? (canvas as CanvasInternals) : null };
+        }
+        return null;
+    }
+
+    private getLiveNode(image: CanvasImage): { canvas: CanvasInternals; node: CanvasNodeInternals } | null {
+        const canvas = this.findCanvasView(view => view.file?.path === image.canvasFile.path)?.canvas;
+        const node = canvas?.nodes.get(image.nodeId);
+        if (!canvas || !node || typeof node.getData !== 'function' || typeof node.setData !== 'function') return null;
+        return { canvas, node };
+    }
+
+    /**
+     * Resolves an image element rendered in a canvas to its node, or null when the element isn't
+     * in a canvas or doesn't show a vault image.
+     */
+    findCanvasImage(img: HTMLImageElement): CanvasImage | null {
+        const found = this.findCanvasView(view => view.contentEl.contains(img));
+        const canvasFile = found?.view.file;
+        if (!found?.canvas || !canvasFile) return null;
+
+        for (const [nodeId, node] of found.canvas.nodes) {
+            if (!node.nodeEl?.contains(img)) continue;
+
+            const data = node.getData();
+            if (data.type === 'file') {
+                const imageFile = this.plugin.app.vault.getFileByPath(data.file);
+                if (!imageFile || !IMAGE_EXTENSIONS.has(imageFile.extension.toLowerCase())) return null;
+                return { canvasFile, nodeId, nodeType: 'file', imageFile };
+            }
+            if (data.type === 'text') {
+                const imageFile = this.plugin.fileService.getFileForImage(img, canvasFile);
+                return imageFile ? { canvasFile, nodeId, nodeType: 'text', imageFile } : null;
+            }
+            return null;
+        }
+        return null;
+    }
+
+    /**
+     * Reads a canvas node, from the open canvas when there is one and otherwise from the canvas file.
+     */
+    private async readNode(image: CanvasImage): Promise<AllCanvasNodeData | null> {
+        const live = this.getLiveNode(image);
+        if (live) return live.node.getData();
+
+        return findCanvasNode(await this.plugin.app.vault.cachedRead(image.canvasFile), image.nodeId);
+    }
+
+    /**
+     * Changes a canvas node, through the open canvas so the change shows at once and is saved by
+     * the canvas, or in the canvas file when it isn't open.
+     */
+    private async updateNode(image: CanvasImage, update: (node: AllCanvasNodeData) => AllCanvasNodeData): Promise<void> {
+        const live = this.getLiveNode(image);
+        if (live) {
+            live.node.setData(update(live.node.getData()));
+            live.canvas.requestSave();
+            return;
+        }
+
+        await this.plugin.app.vault.process(image.canvasFile, json => updateCanvasNode(json, image.nodeId, update));
+    }
+
+    /**
+     * Returns the displayed width of a canvas image: the node width for a file node, or the width
+     * parameter of the image's link in a text node. Null when it has no width.
+     */
+    async getImageWidth(image: CanvasImage): Promise<number | null> {
+        const node = await this.readNode(image);
+        if (!node) return null;
+        if (image.nodeType === 'file') return node.width;
+        if (node.type !== 'text') return null;
+        return this.plugin.linkService.findCurrentImageWidthInText(image.canvasFile, image.imageFile, node.text);
+    }
+
+    /**
+     * Sets the width of a canvas image. A file node keeps its top-left corner and gets the height
+     * that matches the image's aspect ratio; a null width sizes it to the image's original size.
+     * In a text node, the image's links get the width, or lose their size parameter for null.
+     */
+    async setImageWidth(image: CanvasImage, width: number | null): Promise<void> {
+        const dimensions = await this.plugin.imageService.readImageDimensions(image.imageFile).catch(() => null);
+
+        if (image.nodeType === 'file') {
+            const node = await this.readNode(image);
+            if (!node) return;
+
+            const newWidth = width ?? dimensions?.width ?? node.width;
+            // Without readable dimensions the node's own proportions are kept
+            const aspectRatio = dimensions ? dimensions.height / dimensions.width : node.height / node.width;
+            await this.updateNode(image, current => resizeCanvasNode(current, newWidth, aspectRatio));
+            return;
+        }
+
+        const aspectRatio = this.plugin.settings.keepWidthAndHeight && dimensions ? dimensions.height / dimensions.width : null;
+        const transform = (params: string[]) => {
+            if (width !== null) return setImageWidthParam(params, width, aspectRatio);
+            const sizeParam = findLastObsidianImageSizeParam(params);
+            return sizeParam ? [...params.slice(0, sizeParam.index), ...params.slice(sizeParam.index + 1)] : params;
+        };
+        await this.updateNode(image, current =>
+            current.type === 'text'
+                ? { ...current, text: this.plugin.linkService.updateLinks(current.text, image.canvasFile, image.imageFile, transform) }
+                : current
+        );
+    }
+
+    /**
+     * Points the nodes of a canvas that show one image file at another: file nodes showing it, and
+     * its links in text nodes.
+     */
+    async relinkImage(canvasFile: TFile, oldFile: TFile, newFile: TFile): Promise<void> {
+        const update = (node: AllCanvasNodeData): AllCanvasNodeData => {
+            if (node.type === 'file' && node.file === oldFile.path) return { ...node, file: newFile.path };
+            if (node.type !== 'text') return node;
+
+            const text = this.plugin.linkService.relinkImageInText(node.text, canvasFile, oldFile, newFile);
+            return text === node.text ? node : { ...node, text };
+        };
+
+        const canvas = this.findCanvasView(view => view.file?.path === canvasFile.path)?.canvas;
+        if (canvas) {
+            let didChange = false;
+            for (const node of canvas.nodes.values()) {
+                if (typeof node.getData !== 'function' || typeof node.setData !== 'function') continue;
+                const data = node.getData();
+                const updated = update(data);
+                if (updated === data) continue;
+
+                node.setData(updated);
+                didChange = true;
+            }
+            if (didChange) canvas.requestSave();
+            return;
+        }
+
+        await this.plugin.app.vault.process(canvasFile, json => updateCanvasNodes(json, update));
+    }
+}
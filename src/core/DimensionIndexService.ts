@@ -0,0 +1,240 @@
+import { TFile, normalizePath } from 'obsidian';
+import type PixelPerfectImage from '../main';
+import { errorLog } from '../utils/utils';
+import { IMAGE_EXTENSIONS } from '../utils/constants';
+
+/**
+ * Dimensions of one image, stored with the modification time and byte size they were read at.
+ */
+export interface IndexedImageDimensions {
+    mtime: number;
+    size: number;
+    width: number;
+    height: number;
+    /** Header format, `svg`, or the file extension for images whose size was read by decoding */
+    format: string;
+    rotated: boolean;
+}
+
+interface DimensionIndexData {
+    version: number;
+    entries: Record<string, IndexedImageDimensions>;
+}
+
+// Version 1 marked images that metadata only mirrors as rotated
+const INDEX_VERSION = 2;
+const INDEX_FILE_NAME = 'dimension-index.json';
+const INDEX_SAVE_DELAY_MS = 2000;
+/** Delay between crawl steps where idle callbacks aren't supported */
+const CRAWL_FALLBACK_DELAY_MS = 200;
+
+function isIndexedImageDimensions(value: unknown): value is IndexedImageDimensions {
+    if (!value || typeof value !== 'object') return false;
+
+    const entry = value as Record<string, unknown>;
+    return (
+        typeof entry.mtime === 'number' &&
+        typeof entry.size === 'number' &&
+        typeof entry.width === 'number' &&
+        typeof entry.height === 'number' &&
+        entry.width > 0 &&
+        entry.height > 0 &&
+        typeof entry.format === 'string' &&
+        typeof entry.rotated === 'boolean'
+    );
+}
+
+/**
+ * Persistent index of image dimensions for the whole vault, kept in the plugin folder so
+ * dimensions survive reloads. Entries are added as images are read, optionally by a crawl
+ * while Obsidian is idle, and follow vault changes.
+ */
+export class DimensionIndexService {
+    private plugin: PixelPerfectImage;
+    private entries = new Map<string, IndexedImageDimensions>();
+    private loadPromise: Promise<void> | null = null;
+    private saveTimer: number | null = null;
+    private isDirty = false;
+    private crawlQueue: TFile[] = [];
+    private cancelCrawlStep: (() => void) | null = null;
+    private isCrawling = false;
+    private isCrawlStepRunning = false;
+
+    constructor(plugin: PixelPerfectImage) {
+        this.plugin = plugin;
+    }
+
+    private get indexPath(): string {
+        return normalizePath(`${this.plugin.manifest.dir ?? ''}/${INDEX_FILE_NAME}`);
+    }
+
+    /**
+     * Loads the index from disk once. An unreadable index is logged and replaced by an empty one.
+     */
+    load(): Promise<void> {
+        if (!this.loadPromise) {
+            this.loadPromise = this.readIndexFile();
+        }
+        return this.loadPromise;
+    }
+
+    private async readIndexFile(): Promise<void> {
+        const adapter = this.plugin.app.vault.adapter;
+        try {
+            if (!(await adapter.exists(this.indexPath))) return;
+
+            const data = JSON.parse(await adapter.read(this.indexPath)) as Partial<DimensionIndexData>;
+            if (data.version !== INDEX_VERSION || !data.entries || typeof data.entries !== 'object') return;
+
+            for (const [path, entry] of Object.entries(data.entries)) {
+                // Entries recorded while the index was loading are newer than the stored ones
+                if (isIndexedImageDimensions(entry) && !this.entries.has(path)) this.entries.set(path, entry);
+            }
+        } catch (error) {
+            errorLog('Could not load the image dimension index:', error);
+        }
+    }
+
+    /**
+     * Gets the indexed dimensions of an image, if they were read from its current version.
+     */
+    async get(file: TFile): Promise<IndexedImageDimensions | null> {
+        await this.load();
+
+        const entry = this.entries.get(file.path);
+        if (!entry) return null;
+        if (entry.mtime !== file.stat.mtime || entry.size !== file.stat.size) return null;
+        return entry;
+    }
+
+    /**
+     * Records the dimensions read from an image.
+     */
+    set(file: TFile, dimensions: { width: number; height: number; rotated: boolean }, format: string) {
+        this.entries.set(file.path, { mtime: file.stat.mtime, size: file.stat.size, format, ...dimensions });
+        this.scheduleSave();
+    }
+
+    delete(path: string) {
+        if (this.entries.delete(path)) this.scheduleSave();
+    }
+
+    rename(oldPath: string, newPath: string) {
+        const entry = this.entries.get(oldPath);
+        if (!entry) return;
+
+        this.entries.delete(oldPath);
+        this.entries.set(newPath, entry);
+        this.scheduleSave();
+    }
+
+    /**
+     * Drops the entry of a created or modified file and, while crawling, queues the file again.
+     */
+    handleFileChange(file: TFile) {
+        this.delete(file.path);
+        if (this.isCrawling && IMAGE_EXTENSIONS.has(file.extension.toLowerCase())) {
+            this.crawlQueue.push(file);
+            this.scheduleCrawlStep();
+        }
+    }
+
+    private scheduleSave() {
+        this.isDirty = true;
+        if (this.saveTimer !== null) return;
+
+        this.saveTimer = window.setTimeout(() => {
+            this.saveTimer = null;
+            void this.save();
+        }, INDEX_SAVE_DELAY_MS);
+    }
+
+    private async save(): Promise<void> {
+        if (!this.isDirty) return;
+        this.isDirty = false;
+
+        // Never overwrite the stored index with a partial one
+        await this.load();
+
+        const data: DimensionIndexData = { version: INDEX_VERSION, entries: Object.fromEntries(this.entries) };
+        try {
+            await this.plugin.app.vault.adapter.write(this.indexPath, JSON.stringify(data));
+        } catch (error) {
+            errorLog('Could not save the image dimension index:', error);
+        }
+    }
+
+    /**
+     * Starts reading the dimensions of every image that isn't indexed yet, one image per idle period.
+     */
+    async startBackgroundIndexing(): Promise<void> {
+        if (this.isCrawling) return;
+        this.isCrawling = true;
+
+        await this.load();
+        if (!this.isCrawling) return;
+
+        this.crawlQueue = this.plugin.app.vault
+            .getFiles()
+            .filter(file => IMAGE_EXTENSIONS.has(file.extension.toLowerCase()))
+            .filter(file => {
+                const entry = this.entries.get(file.path);
+                return !entry || entry.mtime !== file.stat.mtime || entry.size !== file.stat.size;
+            });
+        this.scheduleCrawlStep();
+    }
+
+    stopBackgroundIndexing() {
+        this.isCrawling = false;
+        this.crawlQueue = [];
+        this.cancelCrawlStep?.();
+        this.cancelCrawlStep = null;
+    }
+
+    private scheduleCrawlStep() {
+        if (this.cancelCrawlStep || this.isCrawlStepRunning || this.crawlQueue.length === 0) return;
+
+        const step = () => {
+            this.cancelCrawlStep = null;
+            void this.crawlStep();
+        };
+        if (typeof window.requestIdleCallback === 'function') {
+            const handle = window.requestIdleCallback(step);
+            this.cancelCrawlStep = () => window.cancelIdleCallback(handle);
+        } else {
+            const timer = window.setTimeout(step, CRAWL_FALLBACK_DELAY_MS);
+            this.cancelCrawlStep = () => window.clearTimeout(timer);
+        }
+    }
+
+    private async crawlStep(): Promise<void> {
+        const file = this.crawlQueue.shift();
+        if (!file || !this.isCrawling) return;
+
+        this.isCrawlStepRunning = true;
+        try {
+            // Files can be deleted or indexed by a read while they wait in the queue
+            if (this.plugin.app.vault.getFileByPath(file.path) === file && !(await this.get(file))) {
+                await this.plugin.imageService.readImageDimensions(file);
+            }
+        } catch {
+            // Unreadable images stay unindexed; they are tried again on the next crawl
+        } finally {
+            this.isCrawlStepRunning = false;
+        }
+
+        if (this.isCrawling) this.scheduleCrawlStep();
+    }
+
+    /**
+     * Stops the crawl and writes pending changes.
+     */
+    cleanup() {
+        this.stopBackgroundIndexing();
+        if (this.saveTimer !== null) {
+            window.clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        void this.save();
+    }
+}
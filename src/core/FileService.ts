@@ -1,14 +1,44 @@
-import { TFile, Notice } from 'obsidian';
+import { TFile, Notice, normalizePath } from 'obsidian';
 import type PixelPerfectImage from '../main';
 import { FileNameInputModal, DeleteConfirmationModal } from '../ui/modals';
 import { errorLog, safeDecodeURIComponent } from '../utils/utils';
 import { strings } from '../i18n';
+import { VIDEO_EXTENSIONS } from '../utils/constants';
+import type { ConvertFormat, DeleteLinkScope, RemovedImageLinks } from '../utils/types';
+
+/** How long the Undo button of a delete stays available; the image goes to the trash after it */
+const UNDO_DELETE_TIMEOUT_MS = 10000;
+
+/** A delete that can still be undone: the image waiting to be trashed and the links removed with it */
+interface PendingDelete {
+    file: TFile;
+    removedLinks: RemovedImageLinks[];
+    timer: number;
+}
+
+/** A delete recorded in the plugin folder until its image is trashed, with the image's version at the delete */
+interface StoredPendingDelete {
+    path: string;
+    mtime: number;
+    size: number;
+}
+
+const PENDING_DELETES_FILE_NAME = 'pending-deletes.json';
+
+function isStoredPendingDelete(value: unknown): value is StoredPendingDelete {
+    if (!value || typeof value !== 'object') return false;
+
+    const entry = value as Record<string, unknown>;
+    return typeof entry.path === 'string' && typeof entry.mtime === 'number' && typeof entry.size === 'number';
+}
 
 /**
  * Service for handling file operations like resolving image files, file system operations, and file manipulation
  */
 export class FileService {
     private plugin: PixelPerfectImage;
+    private pendingDeletes = new Set<PendingDelete>();
+    private pendingDeletesSaveQueue: Promise<void> = Promise.resolve();
 
     constructor(plugin: PixelPerfectImage) {
         this.plugin = plugin;
@@ -86,6 +116,98 @@ export class FileService {
         return null;
     }
 
+    /**
+     * Returns a free path next to a file for a derived copy, such as `photo-cropped.png`, numbering
+     * the name when it's taken.
+     * @param suffix - Appended to the file's base name; an empty suffix keeps the base name, as for
+     *   a copy in another format
+     * @param extension - Extension of the copy; the file's own when omitted
+     */
+    getAvailableSiblingPath(file: TFile, suffix: string, extension = file.extension): string {
+        const folder = file.parent && !file.parent.isRoot() ? `${file.parent.path}/` : '';
+        const vault = this.plugin.app.vault;
+        const name = suffix ? `${file.basename}-${suffix}` : file.basename;
+        let path = `${folder}${name}.${extension}`;
+        for (let n = 2; vault.getAbstractFileByPath(path); n++) {
+            path = `${folder}${name}-${n}.${extension}`;
+        }
+        return path;
+    }
+
+    /**
+     * Writes a converted image next to the original, with the original's name and the new format's
+     * extension, and points every link to the original at it: embeds, plain links and frontmatter links
+     * in notes, and canvas file nodes and text nodes. The original is moved to the trash only when asked
+     * and every link was updated.
+     * @param data - The image encoded in the new format
+     * @param activeFile - A note to update even when the metadata cache doesn't know its links yet
+     * @returns The new file
+     */
+    async convertImage(
+        file: TFile,
+        format: ConvertFormat,
+        data: ArrayBuffer,
+        trashOriginal: boolean,
+        activeFile?: TFile | null
+    ): Promise<TFile> {
+        const { app, canvasService, linkService } = this.plugin;
+        const newFile = await app.vault.createBinary(this.getAvailableSiblingPath(file, '', format.extension), data);
+
+        const notes = linkService.findNotesReferencingFile(file, activeFile);
+        const canvases = linkService.findCanvasesReferencingFile(file);
+
+        let allLinksUpdated = true;
+        for (const note of notes) {
+            try {
+                await linkService.relinkImage(note, file, newFile);
+            } catch (error) {
+                errorLog(`Failed to update image links in ${note.path}:`, error);
+                allLinksUpdated = false;
+            }
+        }
+        for (const canvas of canvases) {
+            try {
+                await canvasService.relinkImage(canvas, file, newFile);
+            } catch (error) {
+                errorLog(`Failed to update image links in ${canvas.path}:`, error);
+                allLinksUpdated = false;
+            }
+        }
+
+        // A link left pointing at the original still shows it, so it is only trashed when none is left
+        if (trashOriginal && allLinksUpdated) {
+            await app.fileManager.trashFile(file);
+        }
+        return newFile;
+    }
+
+    /**
+     * Resolves an embed container to the video, PDF or drawing it shows. Embeds of notes, audio and
+     * other files resolve to null, as their size can't be set with a width.
+     * @param embed - The embed container, see `findMediaEmbedElement`
+     * @param activeFile - The currently active file for path resolution
+     */
+    getFileForMediaEmbed(embed: HTMLElement, activeFile: TFile): TFile | null {
+        const linkPath = this.normalizeLinkCandidate(embed.getAttribute('src'), false);
+        if (!linkPath) return null;
+
+        const file = this.plugin.linkService.resolveLink(linkPath, activeFile);
+        return file && this.isResizableMedia(file) ? file : null;
+    }
+
+    /**
+     * True for the non-image files whose embeds take a width: videos, PDFs and Excalidraw drawings.
+     */
+    private isResizableMedia(file: TFile): boolean {
+        const extension = file.extension.toLowerCase();
+        if (VIDEO_EXTENSIONS.has(extension) || extension === 'pdf' || extension === 'excalidraw') return true;
+        if (extension !== 'md') return false;
+
+        // Excalidraw stores drawings as notes, marked in their frontmatter
+        const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+        return file.basename.endsWith('.excalidraw') || (frontmatter !== undefined && 'excalidraw-plugin' in frontmatter);
+    }
+
     private getEmbedLinkPath(img: HTMLImageElement): string | null {
         const container = img.closest('.internal-embed, .image-embed, .image-container');
         const candidates = [
@@ -335,41 +457,196 @@ export class FileService {
     }
 
     /**
-     * Deletes both the image file and all links to it in the current document.
-     * Shows a confirmation dialog if enabled in settings.
+     * Deletes the image file and removes its links from the notes that use it.
+     * Shows a confirmation dialog if enabled in settings, and always when notes other than the
+     * active one still use the image or anything links to it, so deleting never silently leaves
+     * broken links behind.
      * @param file - The image file to delete
      */
     async deleteImageAndLink(file: TFile): Promise<void> {
+        const { linkService } = this.plugin;
+        const activeFile = this.plugin.app.workspace.getActiveFile();
+        // Only the image links of notes are removed; plain links and canvases keep pointing at the image
+        const referencingNotes = await linkService.findNotesWithImageLinks(file, activeFile);
+        const currentNote = referencingNotes.find(note => note.path === activeFile?.path) ?? null;
+        const linkingFiles = [
+            ...linkService.findNotesReferencingFile(file).filter(note => !referencingNotes.some(shown => shown.path === note.path)),
+            ...linkService.findCanvasesReferencingFile(file)
+        ];
+
         // Helper function to perform the actual deletion
-        const performDeletion = async () => {
+        const performDeletion = async (scope: DeleteLinkScope) => {
             try {
-                // First, remove all links to the image from the active document
-                const linksRemoved = await this.plugin.linkService.removeImageLinks(file);
+                // Remove the links to the image from the chosen notes
+                const notes = scope === 'thisNote' && currentNote ? [currentNote] : referencingNotes;
+                const removedLinks: RemovedImageLinks[] = [];
+                for (const note of notes) {
+                    const removed = await linkService.removeImageLinks(note, file);
+                    if (removed) removedLinks.push(removed);
+                }
 
-                // Then delete the image file itself
-                await this.plugin.app.fileManager.trashFile(file);
+                // The image itself goes to the trash once the delete can no longer be undone, so undoing
+                // never has to bring it back from a trash that may be the system's. Until then the delete
+                // is recorded, so an image left behind by quitting Obsidian is trashed on the next load.
+                const pending: PendingDelete = {
+                    file,
+                    removedLinks,
+                    timer: window.setTimeout(() => void this.trashPendingDelete(pending), UNDO_DELETE_TIMEOUT_MS)
+                };
+                this.pendingDeletes.add(pending);
+                await this.savePendingDeletes();
 
                 // Show success message
-                if (linksRemoved) {
-                    new Notice(strings.notices.imageAndLinksDeleted);
-                } else {
-                    new Notice(strings.notices.imageDeleted);
-                }
+                const message =
+                    removedLinks.length > 0
+                        ? strings.notices.imageAndLinksDeleted.replace('{count}', String(removedLinks.length))
+                        : strings.notices.imageDeleted;
+                this.showUndoDeleteNotice(message, pending);
             } catch (error) {
                 errorLog('Failed to delete image:', error);
                 new Notice(strings.notices.failedToDelete);
             }
         };
 
-        // Show confirmation dialog if enabled
-        if (this.plugin.settings.confirmBeforeDelete) {
-            const modal = new DeleteConfirmationModal(this.plugin.app, file, () => {
-                void performDeletion();
+        const hasOtherNotes = referencingNotes.some(note => note.path !== currentNote?.path);
+        if (this.plugin.settings.confirmBeforeDelete || hasOtherNotes || linkingFiles.length > 0) {
+            const modal = new DeleteConfirmationModal(this.plugin.app, file, currentNote, referencingNotes, linkingFiles, scope => {
+                if (scope) void performDeletion(scope);
             });
             modal.open();
         } else {
             // Delete immediately without confirmation
-            await performDeletion();
+            await performDeletion('everywhere');
+        }
+    }
+
+    /**
+     * Shows the result of a delete with an Undo button, available for a few seconds.
+     */
+    private showUndoDeleteNotice(message: string, deleted: PendingDelete): void {
+        const notice = new Notice(
+            createFragment(fragment => {
+                fragment.createSpan({ text: message });
+                const undoButton = fragment.createEl('button', {
+                    text: strings.notices.undo,
+                    cls: 'pixel-perfect-undo-button'
+                });
+                undoButton.addEventListener('click', evt => {
+                    evt.stopPropagation();
+                    notice.hide();
+                    void this.undoDelete(deleted);
+                });
+            }),
+            UNDO_DELETE_TIMEOUT_MS
+        );
+    }
+
+    /**
+     * Moves the image of a delete to the trash once it can no longer be undone.
+     */
+    private async trashPendingDelete(pending: PendingDelete): Promise<void> {
+        if (!this.pendingDeletes.delete(pending)) return;
+        window.clearTimeout(pending.timer);
+
+        try {
+            await this.plugin.app.fileManager.trashFile(pending.file);
+        } catch (error) {
+            errorLog(`Failed to delete ${pending.file.path}:`, error);
+            new Notice(strings.notices.failedToDelete);
+        }
+        await this.savePendingDeletes();
+    }
+
+    /**
+     * Cancels a delete that hasn't trashed its image yet and puts the image's links back in the
+     * notes that haven't been edited since.
+     */
+    private async undoDelete(deleted: PendingDelete): Promise<void> {
+        if (!this.pendingDeletes.delete(deleted)) {
+            new Notice(strings.notices.failedToUndoDelete);
+            return;
+        }
+        window.clearTimeout(deleted.timer);
+        await this.savePendingDeletes();
+
+        let notesSkipped = 0;
+        for (const removed of deleted.removedLinks) {
+            const restored = await this.plugin.linkService.restoreImageLinks(removed).catch((error: unknown) => {
+                errorLog(`Failed to restore image links in ${removed.note.path}:`, error);
+                return false;
+            });
+            if (!restored) notesSkipped++;
+        }
+
+        new Notice(
+            notesSkipped > 0
+                ? strings.notices.imageRestoredPartially.replace('{count}', String(notesSkipped))
+                : strings.notices.imageRestored
+        );
+    }
+
+    private get pendingDeletesPath(): string {
+        return normalizePath(`${this.plugin.manifest.dir ?? ''}/${PENDING_DELETES_FILE_NAME}`);
+    }
+
+    /**
+     * Records the deletes whose images aren't trashed yet in the plugin folder. Saves run one at a time,
+     * each writing the deletes pending when it runs.
+     */
+    private savePendingDeletes(): Promise<void> {
+        this.pendingDeletesSaveQueue = this.pendingDeletesSaveQueue.then(async () => {
+            const stored: StoredPendingDelete[] = Array.from(this.pendingDeletes, ({ file }) => ({
+                path: file.path,
+                mtime: file.stat.mtime,
+                size: file.stat.size
+            }));
+            try {
+                await this.plugin.app.vault.adapter.write(this.pendingDeletesPath, JSON.stringify(stored));
+            } catch (error) {
+                errorLog('Could not save the pending image deletes:', error);
+            }
+        });
+        return this.pendingDeletesSaveQueue;
+    }
+
+    /**
+     * Trashes the images of deletes that were still waiting for their undo to expire when Obsidian
+     * last quit. An image changed since its delete is kept.
+     */
+    async trashInterruptedDeletes(): Promise<void> {
+        const { adapter } = this.plugin.app.vault;
+        let stored: unknown;
+        try {
+            if (!(await adapter.exists(this.pendingDeletesPath))) return;
+            stored = JSON.parse(await adapter.read(this.pendingDeletesPath));
+        } catch (error) {
+            errorLog('Could not load the pending image deletes:', error);
+            return;
+        }
+
+        for (const entry of Array.isArray(stored) ? stored.filter(isStoredPendingDelete) : []) {
+            const file = this.plugin.app.vault.getFileByPath(entry.path);
+            if (!file || file.stat.mtime !== entry.mtime || file.stat.size !== entry.size) continue;
+            // A delete made since loading is still undoable
+            if (Array.from(this.pendingDeletes).some(pending => pending.file.path === file.path)) continue;
+
+            try {
+                await this.plugin.app.fileManager.trashFile(file);
+            } catch (error) {
+                errorLog(`Failed to delete ${file.path}:`, error);
+            }
+        }
+        await this.savePendingDeletes();
+    }
+
+    /**
+     * Trashes the images of deletes still waiting for their undo to expire, so unloading the plugin
+     * doesn't leave them in the vault. Deletes this can't finish, as when Obsidian quits, are finished
+     * on the next load.
+     */
+    cleanup(): void {
+        for (const pending of [...this.pendingDeletes]) {
+            void this.trashPendingDelete(pending);
         }
     }
 }
@@ -1,6 +1,7 @@
-import { Notice, TFile, requestUrl } from 'obsidian';
+import { FileSystemAdapter, Notice, Platform, TFile, requestUrl } from 'obsidian';
 import type PixelPerfectImage from '../main';
 import {
+    applyNoteResizeRule,
     createUserVisibleError,
     errorLog,
     findLastObsidianImageSizeParam,
@@ -8,24 +9,60 @@ import {
     getBestHttpImageSource,
     isHttpUrlString,
     isLocalNetworkUrl,
-    isUserVisibleError
+    isUserVisibleError,
+    readNoteText,
+    setImageWidthParam
 } from '../utils/utils';
 import { strings } from '../i18n';
 import { DEFAULT_EXTERNAL_IMAGE_FALLBACK_WIDTH_PX } from '../utils/constants';
+import type { TextRange } from '../utils/markdownRanges';
+import type { ConvertFormat, CropRegion, ImageTransform, NoteResizeRule } from '../utils/types';
+import { IMAGE_FORMAT_MIME_TYPES, detectImageFormat, readImageHeader } from '../utils/imageHeaders';
+import { readPdfPageSize } from '../utils/pdf';
+import { composeOrientation, isQuarterTurn, isTurningOrientation, setJpegOrientation } from '../utils/orientation';
+import { copyJpegMetadata } from '../utils/jpegMetadata';
+
+interface ImageDimensions {
+    /** Width in pixels as displayed, after any metadata orientation */
+    width: number;
+    /** Height in pixels as displayed, after any metadata orientation */
+    height: number;
+    /** Whether metadata such as EXIF orientation turns the stored image for display; a mirror alone doesn't count */
+    rotated: boolean;
+}
 
 /**
  * Service for handling image operations like resizing, reading dimensions, and copying
  */
 export class ImageService {
     private plugin: PixelPerfectImage;
-    /** Cache to store image dimensions to avoid repeated file reads */
-    private dimensionCache = new Map<string, { width: number; height: number }>();
+    /**
+     * Cache to store image dimensions to avoid repeated file reads. Entries remember the file's
+     * modification time and size, so a file changed without a vault event is still read again.
+     */
+    private dimensionCache = new Map<string, ImageDimensions & { mtime: number; size: number }>();
+    /** PDFs whose page size couldn't be read, with the modification time and size they were read at */
+    private unreadablePdfs = new Map<string, { mtime: number; size: number }>();
     private externalImageFetchInFlight = new Map<string, Promise<Blob>>();
     private static readonly DIMENSION_CACHE_MAX_ENTRIES = 300;
+    private static readonly HEADER_READ_BYTES = 64 * 1024;
+    /** How much of a PDF is searched for its first page's size */
+    private static readonly PDF_READ_BYTES = 1024 * 1024;
     private static readonly CLIPBOARD_COPY_MAX_BYTES = 25 * 1024 * 1024; // 25 MB
     private static readonly CLIPBOARD_COPY_MAX_PIXELS = 40_000_000; // ~160MB RGBA
     private static readonly CLIPBOARD_COPY_MAX_DIMENSION = 12_000;
     private static readonly CLIPBOARD_COPY_REQUEST_TIMEOUT_MS = 15_000;
+    private static readonly EDITABLE_EXTENSIONS: ReadonlySet<string> = new Set(['png', 'jpg', 'jpeg', 'webp']);
+    /** Formats a browser can decode and that images can be converted from */
+    private static readonly CONVERTIBLE_EXTENSIONS: ReadonlySet<string> = new Set(['png', 'jpg', 'jpeg', 'webp', 'avif', 'bmp']);
+    private static readonly CONVERT_FORMATS: readonly ConvertFormat[] = [
+        { extension: 'png', mimeType: 'image/png', label: 'PNG', lossy: false },
+        { extension: 'jpg', mimeType: 'image/jpeg', label: 'JPEG', lossy: true },
+        { extension: 'webp', mimeType: 'image/webp', label: 'WebP', lossy: true },
+        { extension: 'avif', mimeType: 'image/avif', label: 'AVIF', lossy: true }
+    ];
+    /** Whether the canvas can encode each MIME type, probed once per session */
+    private encodableMimeTypes = new Map<string, boolean>();
 
     constructor(plugin: PixelPerfectImage) {
         this.plugin = plugin;
@@ -64,9 +101,20 @@ export class ImageService {
         }
     }
 
-    private async canvasToClipboard(source: CanvasImageSource, width: number, height: number): Promise<void> {
-        this.assertCopySizeOk(width, height);
-
+    /**
+     * Draws an image onto a canvas of the given size and encodes the canvas. Copying to the
+     * clipboard and every edit written back to the vault go through here.
+     * @param options.region - The part of the source to draw, in source pixels; the whole source when omitted
+     * @param options.transform - A rotation or mirror applied while drawing; the size is that of the result
+     * @param options.quality - Encoder quality from 0 to 1 for lossy formats; the browser's default when omitted
+     */
+    private async encodeImage(
+        source: CanvasImageSource,
+        width: number,
+        height: number,
+        mimeType: string,
+        options: { region?: CropRegion; transform?: ImageTransform; quality?: number } = {}
+    ): Promise<Blob> {
         const canvas = createEl('canvas');
         canvas.width = width;
         canvas.height = height;
@@ -75,13 +123,61 @@ export class ImageService {
             throw new Error('Failed to get canvas context');
         }
 
-        ctx.drawImage(source, 0, 0, width, height);
+        ctx.imageSmoothingQuality = 'high';
+        // JPEG has no transparency, and the canvas would otherwise turn transparent pixels black
+        if (mimeType === 'image/jpeg') {
+            ctx.fillStyle = '#ffffff';
+            ctx.fillRect(0, 0, width, height);
+        }
+
+        const { region, transform, quality } = options;
+        // A quarter turn draws the source with the result's width and height swapped
+        const [drawWidth, drawHeight] = transform && isQuarterTurn(transform) ? [height, width] : [width, height];
+        switch (transform) {
+            case 'rotateRight':
+                ctx.translate(width, 0);
+                ctx.rotate(Math.PI / 2);
+                break;
+            case 'rotateLeft':
+                ctx.translate(0, height);
+                ctx.rotate(-Math.PI / 2);
+                break;
+            case 'rotate180':
+                ctx.translate(width, height);
+                ctx.rotate(Math.PI);
+                break;
+            case 'flipHorizontal':
+                ctx.translate(width, 0);
+                ctx.scale(-1, 1);
+                break;
+            case 'flipVertical':
+                ctx.translate(0, height);
+                ctx.scale(1, -1);
+                break;
+        }
+
+        if (region) {
+            ctx.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, drawWidth, drawHeight);
+        } else {
+            ctx.drawImage(source, 0, 0, drawWidth, drawHeight);
+        }
         const blob = await new Promise<Blob | null>(resolveBlob => {
-            canvas.toBlob(resolveBlob, 'image/png');
+            canvas.toBlob(resolveBlob, mimeType, quality);
         });
         if (!blob) {
             throw new Error('Failed to create blob');
         }
+        // Canvases fall back to PNG for types they can't encode
+        if (blob.type !== mimeType) {
+            throw new Error(`Failed to encode image as ${mimeType}`);
+        }
+        return blob;
+    }
+
+    private async canvasToClipboard(source: CanvasImageSource, width: number, height: number): Promise<void> {
+        this.assertCopySizeOk(width, height);
+
+        const blob = await this.encodeImage(source, width, height, 'image/png');
         if (blob.size > ImageService.CLIPBOARD_COPY_MAX_BYTES) {
             throw createUserVisibleError(strings.notices.imageTooLargeToCopy);
         }
@@ -121,71 +217,8 @@ export class ImageService {
     private sniffImageMimeType(data: ArrayBuffer): string | null {
         const bytes = new Uint8Array(data.slice(0, 256));
 
-        // PNG
-        if (
-            bytes.length >= 8 &&
-            bytes[0] === 0x89 &&
-            bytes[1] === 0x50 &&
-            bytes[2] === 0x4e &&
-            bytes[3] === 0x47 &&
-            bytes[4] === 0x0d &&
-            bytes[5] === 0x0a &&
-            bytes[6] === 0x1a &&
-            bytes[7] === 0x0a
-        ) {
-            return 'image/png';
-        }
-
-        // JPEG
-        if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
-            return 'image/jpeg';
-        }
-
-        // GIF
-        if (
-            bytes.length >= 6 &&
-            bytes[0] === 0x47 &&
-            bytes[1] === 0x49 &&
-            bytes[2] === 0x46 &&
-            bytes[3] === 0x38 &&
-            (bytes[4] === 0x37 || bytes[4] === 0x39) &&
-            bytes[5] === 0x61
-        ) {
-            return 'image/gif';
-        }
-
-        // WebP: RIFF....WEBP
-        if (
-            bytes.length >= 12 &&
-            bytes[0] === 0x52 &&
-            bytes[1] === 0x49 &&
-            bytes[2] === 0x46 &&
-            bytes[3] === 0x46 &&
-            bytes[8] === 0x57 &&
-            bytes[9] === 0x45 &&
-            bytes[10] === 0x42 &&
-            bytes[11] === 0x50
-        ) {
-            return 'image/webp';
-        }
-
-        // BMP
-        if (bytes.length >= 2 && bytes[0] === 0x42 && bytes[1] === 0x4d) {
-            return 'image/bmp';
-        }
-
-        // ICO
-        if (bytes.length >= 4 && bytes[0] === 0x00 && bytes[1] === 0x00 && bytes[2] === 0x01 && bytes[3] === 0x00) {
-            return 'image/x-icon';
-        }
-
-        // AVIF (ISO BMFF): ....ftypavif / ....ftypavis
-        if (bytes.length >= 12 && bytes[4] === 0x66 && bytes[5] === 0x74 && bytes[6] === 0x79 && bytes[7] === 0x70) {
-            const brand = String.fromCharCode(bytes[8], bytes[9], bytes[10], bytes[11]);
-            if (brand === 'avif' || brand === 'avis') {
-                return 'image/avif';
-            }
-        }
+        const format = detectImageFormat(bytes);
+        if (format) return IMAGE_FORMAT_MIME_TYPES[format];
 
         // SVG (best-effort)
         try {
@@ -298,13 +331,20 @@ export class ImageService {
         return { objectUrl, revoke: () => URL.revokeObjectURL(objectUrl) };
     }
 
-    private setDimensionCache(path: string, dimensions: { width: number; height: number }) {
-        this.dimensionCache.set(path, dimensions);
+    private setDimensionCache(file: TFile, dimensions: ImageDimensions) {
+        this.dimensionCache.delete(file.path);
+        this.dimensionCache.set(file.path, { ...dimensions, mtime: file.stat.mtime, size: file.stat.size });
         if (this.dimensionCache.size <= ImageService.DIMENSION_CACHE_MAX_ENTRIES) return;
         const oldestKey = this.dimensionCache.keys().next().value;
         if (oldestKey) this.dimensionCache.delete(oldestKey);
     }
 
+    /** Caches dimensions read from the file in memory and in the persistent index. */
+    private storeDimensions(file: TFile, dimensions: ImageDimensions, format: string) {
+        this.setDimensionCache(file, dimensions);
+        this.plugin.dimensionIndexService.set(file, dimensions, format);
+    }
+
     private decodeText(data: ArrayBuffer): string {
         const bytes = new Uint8Array(data);
 
@@ -489,10 +529,35 @@ export class ImageService {
      */
     clearDimensionCache(): void {
         this.dimensionCache.clear();
+        this.unreadablePdfs.clear();
+    }
+
+    /**
+     * Drops the cached dimensions of a file that was modified or deleted
+     */
+    evictDimensionCache(path: string): void {
+        this.dimensionCache.delete(path);
+        this.unreadablePdfs.delete(path);
+    }
+
+    /**
+     * Moves cached dimensions to a renamed file's new path, replacing any entry already stored there
+     */
+    renameDimensionCache(oldPath: string, newPath: string): void {
+        const cached = this.dimensionCache.get(oldPath);
+        this.dimensionCache.delete(oldPath);
+        this.dimensionCache.delete(newPath);
+        if (cached) this.dimensionCache.set(newPath, cached);
+
+        const unreadable = this.unreadablePdfs.get(oldPath);
+        this.unreadablePdfs.delete(oldPath);
+        this.unreadablePdfs.delete(newPath);
+        if (unreadable) this.unreadablePdfs.set(newPath, unreadable);
     }
 
     /**
      * Resizes an image in the editor by updating its wikilink width parameter.
+     * Only the link that rendered `img` is changed when it can be located in the note.
      * @param img - The HTML image element
      * @param size - Either a percentage (e.g. 50) or absolute width in pixels (e.g. 600)
      * @param isAbsolute - If true, size is treated as pixels, otherwise as percentage
@@ -503,39 +568,123 @@ export class ImageService {
             throw createUserVisibleError(strings.notices.couldNotLocateImage);
         }
 
+        const occurrence = this.plugin.linkService.locateImageLink(img, result.activeFile, result.imgFile);
+
         if (isAbsolute) {
-            await this.updateImageLinkWidth(result.imgFile, size, result.activeFile);
+            await this.updateImageLinkWidth(result.imgFile, size, result.activeFile, occurrence);
             return;
         }
 
         const { width } = await this.readImageDimensions(result.imgFile);
         const newWidth = Math.round((width * size) / 100);
-        await this.updateImageLinkWidth(result.imgFile, newWidth, result.activeFile);
+        await this.updateImageLinkWidth(result.imgFile, newWidth, result.activeFile, occurrence);
     }
 
     /**
      * Updates the width parameter in wikilinks that reference a specific image.
+     * In keep width × height mode, a WxH size keeps its form with the height recomputed from the
+     * image's aspect ratio.
      * @param imageFile - The image file being referenced
      * @param newWidth - The new width to set in pixels
+     * @param occurrence - Range of the single link to update; every link to the image is updated when omitted
      */
-    async updateImageLinkWidth(imageFile: TFile, newWidth: number, activeFileOverride?: TFile) {
+    async updateImageLinkWidth(imageFile: TFile, newWidth: number, activeFileOverride?: TFile, occurrence?: TextRange | null) {
         const activeFile = activeFileOverride ?? this.plugin.app.workspace.getActiveFile();
         if (!activeFile) {
             throw new Error('No active file, cannot update link.');
         }
-        await this.plugin.linkService.updateImageLinks(activeFile, imageFile, (params: string[]) => {
-            const sizeParam = findLastObsidianImageSizeParam(params);
-            if (sizeParam) {
-                // Replace just the size parameter and keep all other attributes
-                // If the existing size is in WxH form, drop the height to avoid distortion
-                // since this plugin operates on width-only resizing.
-                const replacement = String(newWidth);
-                return [...params.slice(0, sizeParam.index), replacement, ...params.slice(sizeParam.index + 1)];
+
+        // In keep width × height mode, a WxH parameter gets the height that matches the new width
+        let aspectRatio: number | null = null;
+        if (this.plugin.settings.keepWidthAndHeight) {
+            try {
+                const { width, height } = await this.readImageDimensions(imageFile);
+                aspectRatio = height / width;
+            } catch {
+                aspectRatio = null;
             }
+        }
 
-            // No existing width, so append the new width while preserving all attributes
-            return [...params, String(newWidth)];
-        });
+        await this.plugin.linkService.updateImageLinks(
+            activeFile,
+            imageFile,
+            (params: string[]) => setImageWidthParam(params, newWidth, aspectRatio),
+            occurrence
+        );
+    }
+
+    /**
+     * Sets an explicit width × height size on image links, which Obsidian renders as a fixed box.
+     * @param occurrence - Range of the link to update; all links to the image are updated when omitted
+     */
+    async setImageLinkSize(imageFile: TFile, width: number, height: number, activeFileOverride?: TFile, occurrence?: TextRange | null) {
+        const activeFile = activeFileOverride ?? this.plugin.app.workspace.getActiveFile();
+        if (!activeFile) {
+            throw new Error('No active file, cannot update link.');
+        }
+        await this.plugin.linkService.updateImageLinks(
+            activeFile,
+            imageFile,
+            (params: string[]) => {
+                const replacement = `${width}x${height}`;
+                const sizeParam = findLastObsidianImageSizeParam(params);
+                if (sizeParam) {
+                    return [...params.slice(0, sizeParam.index), replacement, ...params.slice(sizeParam.index + 1)];
+                }
+                return [...params, replacement];
+            },
+            occurrence
+        );
+    }
+
+    /**
+     * Applies a resize rule to every link to a vault image in a note, in a single edit of the note.
+     * Images whose dimensions can't be read are only changed by rules that don't need them.
+     * @returns How many image links the note has and how many of them changed
+     */
+    async resizeAllImagesInNote(activeFile: TFile, rule: NoteResizeRule): Promise<{ total: number; changed: number }> {
+        const text = await readNoteText(this.plugin.app, activeFile);
+
+        const dimensionsByPath = new Map<string, ImageDimensions | null>();
+        if (rule.kind !== 'clear') {
+            for (const imageFile of this.plugin.linkService.findLinkedImageFiles(text, activeFile)) {
+                dimensionsByPath.set(imageFile.path, await this.readImageDimensions(imageFile).catch(() => null));
+            }
+        }
+
+        return this.plugin.linkService.updateAllImageLinks(activeFile, (imageFile, params) =>
+            applyNoteResizeRule(params, rule, dimensionsByPath.get(imageFile.path) ?? null, this.plugin.settings.keepWidthAndHeight)
+        );
+    }
+
+    /**
+     * Gives every link to an image in the given notes the same size, one note at a time.
+     * Notes that can't be updated are logged and counted, and the remaining notes are still updated.
+     * @returns How many notes changed and how many couldn't be updated
+     */
+    async applyImageSizeInNotes(
+        imageFile: TFile,
+        size: { width: number; height?: number },
+        notes: TFile[]
+    ): Promise<{ changed: number; failed: number }> {
+        const sizeParam = size.height !== undefined ? `${size.width}x${size.height}` : String(size.width);
+        const result = { changed: 0, failed: 0 };
+
+        for (const note of notes) {
+            try {
+                const didChange = await this.plugin.linkService.updateImageLinks(note, imageFile, params => {
+                    const current = findLastObsidianImageSizeParam(params);
+                    if (!current) return [...params, sizeParam];
+                    return [...params.slice(0, current.index), sizeParam, ...params.slice(current.index + 1)];
+                });
+                if (didChange) result.changed++;
+            } catch (error) {
+                errorLog(`Failed to apply image size in ${note.path}:`, error);
+                result.failed++;
+            }
+        }
+
+        return result;
     }
 
     /**
@@ -556,22 +705,28 @@ export class ImageService {
     /**
      * Removes the width parameter from image links.
      * @param imageFile - The image file being referenced
+     * @param occurrence - Range of the single link to update; every link to the image is updated when omitted
      */
-    async removeImageWidth(imageFile: TFile, activeFileOverride?: TFile) {
+    async removeImageWidth(imageFile: TFile, activeFileOverride?: TFile, occurrence?: TextRange | null) {
         const activeFile = activeFileOverride ?? this.plugin.app.workspace.getActiveFile();
         if (!activeFile) {
             throw new Error('No active file, cannot update link.');
         }
-        await this.plugin.linkService.updateImageLinks(activeFile, imageFile, (params: string[]) => {
-            const sizeParam = findLastObsidianImageSizeParam(params);
-            if (sizeParam) {
-                // Remove just the size parameter and keep all other attributes
-                return [...params.slice(0, sizeParam.index), ...params.slice(sizeParam.index + 1)];
-            }
+        await this.plugin.linkService.updateImageLinks(
+            activeFile,
+            imageFile,
+            (params: string[]) => {
+                const sizeParam = findLastObsidianImageSizeParam(params);
+                if (sizeParam) {
+                    // Remove just the size parameter and keep all other attributes
+                    return [...params.slice(0, sizeParam.index), ...params.slice(sizeParam.index + 1)];
+                }
 
-            // No width parameter found, return unchanged
-            return params;
-        });
+                // No width parameter found, return unchanged
+                return params;
+            },
+            occurrence
+        );
     }
 
     /**
@@ -588,24 +743,92 @@ export class ImageService {
         });
     }
 
+    /**
+     * Reads up to `maxBytes` from the start of a file. Only the desktop file system supports
+     * partial reads.
+     * @returns The bytes read, or null when a partial read isn't available
+     */
+    private async readFilePrefix(file: TFile, maxBytes: number): Promise<ArrayBuffer | null> {
+        if (!Platform.isDesktop) return null;
+        const adapter = this.plugin.app.vault.adapter;
+        if (!(adapter instanceof FileSystemAdapter)) return null;
+
+        try {
+            const { open } = await import('fs/promises');
+            const handle = await open(adapter.getFullPath(file.path), 'r');
+            try {
+                const buffer = new Uint8Array(maxBytes);
+                const { bytesRead } = await handle.read(buffer, 0, maxBytes, 0);
+                return buffer.buffer.slice(0, bytesRead);
+            } finally {
+                await handle.close();
+            }
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Gets an image's dimensions without reading the whole file: from the in-memory cache, the
+     * persistent dimension index, or the file header where partial reads are available.
+     * @returns The dimensions, or null when only reading the whole file could tell them
+     */
+    async peekImageDimensions(file: TFile): Promise<ImageDimensions | null> {
+        const cached = this.dimensionCache.get(file.path);
+        if (cached && cached.mtime === file.stat.mtime && cached.size === file.stat.size) {
+            return { width: cached.width, height: cached.height, rotated: cached.rotated };
+        }
+
+        const indexed = await this.plugin.dimensionIndexService.get(file);
+        if (indexed) {
+            const dimensions = { width: indexed.width, height: indexed.height, rotated: indexed.rotated };
+            this.setDimensionCache(file, dimensions);
+            return dimensions;
+        }
+
+        if (file.extension.toLowerCase() === 'svg') return null;
+
+        // Raster formats store their size in the first bytes of the file
+        const prefix = await this.readFilePrefix(file, ImageService.HEADER_READ_BYTES);
+        const header = prefix ? readImageHeader(prefix) : null;
+        if (!header) return null;
+
+        const dimensions = { width: header.width, height: header.height, rotated: isTurningOrientation(header.orientation) };
+        this.storeDimensions(file, dimensions, header.format);
+        return dimensions;
+    }
+
     /**
      * Reads an image file from the vault and determines its dimensions.
-     * Uses a cache to avoid repeated file reads.
+     * Raster formats are read from the file header; the whole image is decoded only for formats
+     * the header parser doesn't support. Uses an in-memory cache and the persistent dimension index
+     * to avoid repeated file reads.
      * @param file - The image file to read
-     * @returns Object containing width and height in pixels
+     * @returns Width and height in pixels as displayed, and whether metadata rotates the image
      */
-    async readImageDimensions(file: TFile): Promise<{ width: number; height: number }> {
-        const cached = this.dimensionCache.get(file.path);
-        if (cached) return cached;
+    async readImageDimensions(file: TFile): Promise<ImageDimensions> {
+        const peeked = await this.peekImageDimensions(file);
+        if (peeked) return peeked;
 
-        const data = await this.plugin.app.vault.readBinary(file);
         const isSvg = file.extension.toLowerCase() === 'svg';
+
+        const data = await this.plugin.app.vault.readBinary(file);
         const parsedSvgDimensions = isSvg ? this.readSvgDimensionsFromBinary(data) : null;
 
         // Fast-path: SVGs can fail to decode via Image(); parse width/height/viewBox first.
         if (isSvg && parsedSvgDimensions) {
-            this.setDimensionCache(file.path, parsedSvgDimensions);
-            return parsedSvgDimensions;
+            const dimensions = { ...parsedSvgDimensions, rotated: false };
+            this.storeDimensions(file, dimensions, 'svg');
+            return dimensions;
+        }
+
+        // JPEG metadata can push the frame header past the prefix, and mobile reads no prefix at all.
+        // Only formats the header parser doesn't know are decoded.
+        const header = isSvg ? null : readImageHeader(data);
+        if (header) {
+            const dimensions = { width: header.width, height: header.height, rotated: isTurningOrientation(header.orientation) };
+            this.storeDimensions(file, dimensions, header.format);
+            return dimensions;
         }
 
         const blob = this.createBlob(data, this.getMimeTypeForExtension(file.extension));
@@ -615,7 +838,7 @@ export class ImageService {
             const img = await this.loadImage(url);
             const width = img.naturalWidth || img.width;
             const height = img.naturalHeight || img.height;
-            const dimensions = { width, height };
+            const dimensions = { width, height, rotated: false };
 
             const hasValidDimensions =
                 Number.isFinite(dimensions.width) && Number.isFinite(dimensions.height) && dimensions.width > 0 && dimensions.height > 0;
@@ -627,7 +850,7 @@ export class ImageService {
                 throw createUserVisibleError(strings.notices.couldNotDetermineImageDimensions);
             }
 
-            this.setDimensionCache(file.path, dimensions);
+            this.storeDimensions(file, dimensions, file.extension.toLowerCase());
             return dimensions;
         } catch (error) {
             if (isSvg && !isUserVisibleError(error)) {
@@ -639,18 +862,75 @@ export class ImageService {
         }
     }
 
+    /**
+     * Reads the size a video, PDF or drawing embed has at 100%: from the rendered element when it
+     * knows its intrinsic size (a loaded video, a drawing rendered as an image or SVG), otherwise
+     * from the first page of a PDF. Only the start of a PDF is read, and one whose page size can't be
+     * found there isn't read again until it changes.
+     * @param file - The embedded file
+     * @param embed - The embed container
+     * @returns The size in pixels, or null when it can't be determined
+     */
+    async readMediaDimensions(file: TFile, embed: HTMLElement): Promise<{ width: number; height: number } | null> {
+        const video = embed.querySelector('video');
+        if (video && video.videoWidth > 0) return { width: video.videoWidth, height: video.videoHeight };
+
+        const img = embed.querySelector('img');
+        if (img && img.naturalWidth > 0) return { width: img.naturalWidth, height: img.naturalHeight };
+
+        const viewBox = embed.querySelector('svg')?.viewBox.baseVal;
+        if (viewBox && viewBox.width > 0 && viewBox.height > 0) {
+            return { width: Math.round(viewBox.width), height: Math.round(viewBox.height) };
+        }
+
+        if (file.extension.toLowerCase() !== 'pdf') return null;
+
+        const cached = this.dimensionCache.get(file.path);
+        if (cached && cached.mtime === file.stat.mtime && cached.size === file.stat.size) {
+            return { width: cached.width, height: cached.height };
+        }
+
+        const unreadable = this.unreadablePdfs.get(file.path);
+        if (unreadable && unreadable.mtime === file.stat.mtime && unreadable.size === file.stat.size) return null;
+
+        // Without partial reads, only a PDF small enough to read whole is searched
+        const limit = ImageService.PDF_READ_BYTES;
+        const data =
+            (await this.readFilePrefix(file, limit)) ?? (file.stat.size <= limit ? await this.plugin.app.vault.readBinary(file) : null);
+        const pageSize = data ? readPdfPageSize(data) : null;
+        // Only cached in memory: the persistent index holds images
+        if (pageSize) {
+            this.setDimensionCache(file, { ...pageSize, rotated: false });
+        } else {
+            this.unreadablePdfs.set(file.path, { mtime: file.stat.mtime, size: file.stat.size });
+        }
+        return pageSize;
+    }
+
     /**
      * Gets the current custom width of an image if set in the link
      * @param activeFile - The currently active file
      * @param imageFile - The image file
+     * @param occurrence - Range of the link to read; the first link with a width is used when omitted
      * @returns The custom width if set, otherwise null
      */
-    getCurrentImageWidth(activeFile: TFile, imageFile: TFile): number | null {
+    getCurrentImageWidth(activeFile: TFile, imageFile: TFile, occurrence?: TextRange | null): number | null {
         const editor = findMarkdownEditorForFile(this.plugin.app, activeFile);
         if (!editor) return null;
 
         const docText = editor.getValue();
-        return this.plugin.linkService.findCurrentImageWidthInText(activeFile, imageFile, docText);
+        return this.plugin.linkService.findCurrentImageWidthInText(activeFile, imageFile, docText, occurrence);
+    }
+
+    /**
+     * Gets the current custom size of an image if set in the link, including the height of a WxH size.
+     * @param occurrence - Range of the link to read; the first link with a size is used when omitted
+     */
+    getCurrentImageSize(activeFile: TFile, imageFile: TFile, occurrence?: TextRange | null): { width: number; height?: number } | null {
+        const editor = findMarkdownEditorForFile(this.plugin.app, activeFile);
+        if (!editor) return null;
+
+        return this.plugin.linkService.findCurrentImageSizeInText(activeFile, imageFile, editor.getValue(), occurrence);
     }
 
     /**
@@ -754,4 +1034,208 @@ export class ImageService {
             throw error;
         }
     }
+
+    /**
+     * Copies an image file from the vault to the system clipboard, for when no rendered image is at hand.
+     * @param file - The image file to copy
+     */
+    async copyImageFileToClipboard(file: TFile): Promise<void> {
+        const data = await this.plugin.app.vault.readBinary(file);
+        const url = URL.createObjectURL(this.createBlob(data, this.getMimeTypeForExtension(file.extension)));
+        try {
+            const img = await this.loadImage(url);
+            await this.canvasToClipboard(img, img.naturalWidth || img.width, img.naturalHeight || img.height);
+        } catch (error) {
+            errorLog('Copy to clipboard failed:', error);
+            if (error instanceof Error && error.message.includes('Document is not focused')) {
+                throw createUserVisibleError(strings.notices.clickInEditorFirst);
+            }
+            throw error;
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+    }
+
+    /**
+     * True for images that can be edited and written back in their own format: the formats a
+     * canvas can encode.
+     */
+    canEditImage(file: TFile): boolean {
+        return ImageService.EDITABLE_EXTENSIONS.has(file.extension.toLowerCase());
+    }
+
+    /**
+     * Returns the formats an image can be converted to: those the canvas can encode, other than
+     * the image's own. Empty for images that can't be decoded for conversion.
+     */
+    getConvertFormats(file: TFile): ConvertFormat[] {
+        const extension = file.extension.toLowerCase();
+        if (!ImageService.CONVERTIBLE_EXTENSIONS.has(extension)) return [];
+
+        const mimeType = this.getMimeTypeForExtension(extension);
+        return ImageService.CONVERT_FORMATS.filter(format => format.mimeType !== mimeType && this.canEncode(format.mimeType));
+    }
+
+    /**
+     * Whether the canvas can encode a MIME type. Browsers encode PNG everywhere, but JPEG, WebP and
+     * especially AVIF vary, and an unsupported type silently falls back to PNG.
+     */
+    private canEncode(mimeType: string): boolean {
+        let supported = this.encodableMimeTypes.get(mimeType);
+        if (supported === undefined) {
+            const canvas = createEl('canvas');
+            canvas.width = 1;
+            canvas.height = 1;
+            supported = canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`);
+            this.encodableMimeTypes.set(mimeType, supported);
+        }
+        return supported;
+    }
+
+    /**
+     * Encodes an image in another format, without writing it. The result has no metadata, and any
+     * EXIF orientation is applied to its pixels.
+     * @param quality - Encoder quality from 0 to 1, used by lossy formats
+     * @returns The contents of the converted file
+     */
+    async convertImage(file: TFile, mimeType: string, quality: number): Promise<ArrayBuffer> {
+        const url = URL.createObjectURL(
+            this.createBlob(await this.plugin.app.vault.readBinary(file), this.getMimeTypeForExtension(file.extension))
+        );
+
+        try {
+            const img = await this.loadImage(url);
+            const width = img.naturalWidth || img.width;
+            const height = img.naturalHeight || img.height;
+            return await (await this.encodeImage(img, width, height, mimeType, { quality })).arrayBuffer();
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+    }
+
+    /**
+     * Writes new contents to an image file and forgets the dimensions known for it.
+     */
+    async replaceImageData(file: TFile, data: ArrayBuffer): Promise<void> {
+        await this.plugin.app.vault.modifyBinary(file, data);
+        this.evictDimensionCache(file.path);
+        this.plugin.dimensionIndexService.delete(file.path);
+    }
+
+    /**
+     * Crops an image to a region, in the image's own format.
+     * @param region - The part to keep, in pixels of the image as displayed
+     * @param saveAsCopy - Whether to write the result to a new file next to the image instead of replacing it
+     * @returns The file holding the cropped image
+     */
+    async cropImage(file: TFile, region: CropRegion, saveAsCopy: boolean): Promise<TFile> {
+        const mimeType = this.getMimeTypeForExtension(file.extension);
+        const url = URL.createObjectURL(this.createBlob(await this.plugin.app.vault.readBinary(file), mimeType));
+
+        let data: ArrayBuffer;
+        try {
+            // Decoding applies the EXIF orientation, so the region and the result are as displayed
+            const img = await this.loadImage(url);
+            data = await (await this.encodeImage(img, region.width, region.height, mimeType, { region })).arrayBuffer();
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+
+        if (saveAsCopy) {
+            return this.plugin.app.vault.createBinary(this.plugin.fileService.getAvailableSiblingPath(file, 'cropped'), data);
+        }
+
+        await this.replaceImageData(file, data);
+        return file;
+    }
+
+    /**
+     * Rotates or mirrors an image file. A JPEG only gets a new EXIF orientation, so its pixels are
+     * kept as they are; other formats, and JPEGs whose EXIF can't be updated, are drawn again.
+     */
+    async transformImage(file: TFile, transform: ImageTransform): Promise<void> {
+        const original = await this.plugin.app.vault.readBinary(file);
+        const header = readImageHeader(original);
+
+        let data: ArrayBuffer | null = null;
+        if (header?.format === 'jpeg') {
+            data = setJpegOrientation(original, composeOrientation(header.orientation, transform));
+        }
+
+        if (!data) {
+            const mimeType = this.getMimeTypeForExtension(file.extension);
+            const url = URL.createObjectURL(this.createBlob(original, mimeType));
+            try {
+                // Decoding applies any EXIF orientation, and the encoded result has none
+                const img = await this.loadImage(url);
+                const width = img.naturalWidth || img.width;
+                const height = img.naturalHeight || img.height;
+                const [newWidth, newHeight] = isQuarterTurn(transform) ? [height, width] : [width, height];
+                data = await (await this.encodeImage(img, newWidth, newHeight, mimeType, { transform })).arrayBuffer();
+            } finally {
+                URL.revokeObjectURL(url);
+            }
+        }
+
+        await this.replaceImageData(file, data);
+    }
+
+    /**
+     * Halves an image on canvases until it is less than twice the target size. A single draw from
+     * a much larger image samples only some of its pixels and looks jagged.
+     */
+    private halveTowards(
+        source: CanvasImageSource,
+        width: number,
+        height: number,
+        targetWidth: number,
+        targetHeight: number
+    ): { source: CanvasImageSource; width: number; height: number } {
+        let current = { source, width, height };
+        while (current.width >= targetWidth * 2 && current.height >= targetHeight * 2) {
+            const canvas = createEl('canvas');
+            canvas.width = Math.ceil(current.width / 2);
+            canvas.height = Math.ceil(current.height / 2);
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                throw new Error('Failed to get canvas context');
+            }
+
+            ctx.imageSmoothingQuality = 'high';
+            ctx.drawImage(current.source, 0, 0, canvas.width, canvas.height);
+            current = { source: canvas, width: canvas.width, height: canvas.height };
+        }
+        return current;
+    }
+
+    /**
+     * Resamples an image to a smaller width, in its own format, without writing it. A JPEG keeps
+     * its metadata when the setting asks for it; other formats are written without.
+     * @returns The new file contents with their size, and the size of the image before
+     */
+    async shrinkImage(
+        file: TFile,
+        width: number
+    ): Promise<{ data: ArrayBuffer; width: number; height: number; originalWidth: number; originalHeight: number }> {
+        const original = await this.plugin.app.vault.readBinary(file);
+        const mimeType = this.getMimeTypeForExtension(file.extension);
+        const url = URL.createObjectURL(this.createBlob(original, mimeType));
+
+        try {
+            // Decoding applies any EXIF orientation, so the sizes are as displayed
+            const img = await this.loadImage(url);
+            const originalWidth = img.naturalWidth || img.width;
+            const originalHeight = img.naturalHeight || img.height;
+            const height = Math.max(1, Math.round((width * originalHeight) / originalWidth));
+
+            const halved = this.halveTowards(img, originalWidth, originalHeight, width, height);
+            let data = await (await this.encodeImage(halved.source, width, height, mimeType)).arrayBuffer();
+            if (mimeType === 'image/jpeg' && this.plugin.settings.keepImageMetadata) {
+                data = copyJpegMetadata(original, data);
+            }
+            return { data, width, height, originalWidth, originalHeight };
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+    }
 }
@@ -1,20 +1,66 @@
-import { TFile } from 'obsidian';
+import { MarkdownPostProcessorContext, MarkdownView, TFile } from 'obsidian';
 import type PixelPerfectImage from '../main';
-import { WIKILINK_IMAGE_REGEX } from '../utils/constants';
-import { ImageLink } from '../utils/types';
-import { errorLog, findLastObsidianImageSizeParam, safeDecodeURIComponent } from '../utils/utils';
-import { markdownCodeRanges, overlapsRange } from '../utils/markdownRanges';
+import { IMAGE_EXTENSIONS, WIKILINK_IMAGE_REGEX, WIKILINK_REGEX } from '../utils/constants';
+import { ImageLink, RemovedImageLinks, TextEdit } from '../utils/types';
+import {
+    applyTextEdits,
+    createUserVisibleError,
+    errorLog,
+    findLastObsidianImageSizeParam,
+    findMarkdownEditorForFile,
+    findMarkdownViewForElement,
+    invertTextEdits,
+    readNoteText,
+    renameLinkTarget,
+    safeDecodeURIComponent
+} from '../utils/utils';
+import { TextRange, markdownCodeRanges, markdownTableRanges, overlapsRange } from '../utils/markdownRanges';
+import { HtmlImageTag, getHtmlImageSizeParams, scanHtmlImageTags, setHtmlImageSize, setHtmlImageSrc } from '../utils/htmlImages';
+import { strings } from '../i18n';
+
+/** Separates link parameters. Inside tables the pipe is escaped as `\|`, which Obsidian reads the same way. */
+const LINK_PARAM_SEPARATOR = /\\?\|/;
+
+/** What a line can keep without having content: indentation, blockquote markers, and a list marker with its task checkbox. */
+const STRUCTURE_ONLY_LINE = /^[ \t]*(?:>[ \t]*)*(?:(?:[-*+]|\d{1,9}[.)])(?:[ \t]+\[.\])?)?[ \t]*$/;
+
+/** A link reference definition line: `[label]: destination "optional title"`. */
+const REFERENCE_DEFINITION =
+    /^ {0,3}\[((?:\\.|[^\\[\]])+)\]:[ \t]*(?:<([^>\n]*)>|(\S+))(?:[ \t]+(?:"[^"\n]*"|'[^'\n]*'|\([^)\n]*\)))?[ \t]*$/gm;
+
+/** A reference-style image: full `![alt][label]`, collapsed `![alt][]` or shortcut `![alt]`. */
+const REFERENCE_IMAGE = /!\[((?:\\.|[^\\[\]])*)\](?:\[((?:\\.|[^\\[\]])*)\])?/g;
+
+/** A reference-style image matched to its definition. */
+interface ReferenceImageLink extends TextRange {
+    description: string;
+    /** The label as written in the second brackets, '' for the collapsed form and null for the shortcut form */
+    label: string | null;
+    /** The destination of the definition */
+    linkPath: string;
+    /** The definition line */
+    definition: TextRange;
+    /** The normalized label the definition is found by */
+    key: string;
+}
 
 /**
  * Service for handling image link parsing and manipulation
  */
 export class LinkService {
     private plugin: PixelPerfectImage;
+    // Post processor contexts of rendered reading view sections, used to map an image back to its source lines.
+    private sectionContexts = new WeakMap<HTMLElement, MarkdownPostProcessorContext>();
 
     constructor(plugin: PixelPerfectImage) {
         this.plugin = plugin;
     }
 
+    /**
+     * Scans markdown-style image links (![alt](image.png)) outside Markdown code ranges.
+     * @param includeLinks - Also report links that aren't images ([text](file.pdf)). A link wrapping an
+     *   image is reported along with the image inside it.
+     */
     private scanMarkdownImageLinks(
         text: string,
         onMatch: (match: {
@@ -25,7 +71,8 @@ export class LinkService {
             linkPath: string;
             titleSuffix: string;
             rawDestination: string;
-        }) => void
+        }) => void,
+        includeLinks = false
     ) {
         // Links rendered as code (fenced blocks, inline backtick spans) are syntax
         // examples, not embeds, and must never be rewritten or matched.
@@ -34,32 +81,39 @@ export class LinkService {
         const length = text.length;
 
         while (index < length) {
-            const start = text.indexOf('![', index);
-            if (start === -1) break;
+            const found = text.indexOf(includeLinks ? '[' : '![', index);
+            if (found === -1) break;
+            const open = includeLinks ? found : found + 1;
+            const start = text[open - 1] === '!' ? open - 1 : open;
 
-            // Parse alt text: ![ ... ](...)
-            let cursor = start + 2;
+            // Parse alt text: ![ ... ](...). Link text may hold bracketed text, such as an image.
+            let cursor = open + 1;
             let altEnd = -1;
+            let bracketDepth = 0;
             while (cursor < length) {
                 const char = text[cursor];
                 if (char === '\\') {
                     cursor += 2;
                     continue;
                 }
+                if (includeLinks && char === '[') bracketDepth += 1;
                 if (char === ']') {
-                    altEnd = cursor;
-                    break;
+                    if (bracketDepth === 0) {
+                        altEnd = cursor;
+                        break;
+                    }
+                    bracketDepth -= 1;
                 }
                 cursor += 1;
             }
 
             if (altEnd === -1 || text[altEnd + 1] !== '(') {
                 // Not a well-formed image link; continue scanning.
-                index = start + 1;
+                index = open + 1;
                 continue;
             }
 
-            const description = text.substring(start + 2, altEnd);
+            const description = text.substring(open + 1, altEnd);
 
             // Parse link destination with balanced parentheses.
             const destStartParen = altEnd + 1;
@@ -102,7 +156,8 @@ export class LinkService {
                 });
             }
 
-            index = destEndParen + 1;
+            // An image inside the link text is found by scanning on from the link's opening bracket
+            index = includeLinks ? open + 1 : destEndParen + 1;
         }
     }
 
@@ -155,33 +210,280 @@ export class LinkService {
         return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
     }
 
-    private replaceMarkdownImageLinks(
+    /**
+     * Collects replacements for markdown-style image links (![alt|100](image.png)) outside Markdown code ranges.
+     * Links the replacer returns unchanged produce no edit.
+     */
+    private markdownImageLinkEdits(
         text: string,
-        replacer: (fullMatch: string, description: string, linkPath: string, titleSuffix: string, rawDestination: string) => string
-    ): string {
-        let result = '';
-        let lastIndex = 0;
+        replacer: (
+            fullMatch: string,
+            description: string,
+            linkPath: string,
+            titleSuffix: string,
+            rawDestination: string,
+            start: number
+        ) => string
+    ): TextEdit[] {
+        const edits: TextEdit[] = [];
+        const tableRanges = markdownTableRanges(text);
 
         this.scanMarkdownImageLinks(text, ({ start, end, fullMatch, description, linkPath, titleSuffix, rawDestination }) => {
-            result += text.substring(lastIndex, start);
-            result += replacer(fullMatch, description, linkPath, titleSuffix, rawDestination);
-            lastIndex = end;
+            const replacement = replacer(fullMatch, description, linkPath, titleSuffix, rawDestination, start);
+            if (replacement === fullMatch) return;
+            edits.push({ start, end, text: overlapsRange(tableRanges, start, end) ? this.escapeTablePipes(replacement) : replacement });
         });
 
-        result += text.substring(lastIndex);
-        return result;
+        return edits;
     }
 
     /**
-     * Replaces wiki-style image links (![[image.png|100]]) outside Markdown code ranges.
+     * Collects replacements for wiki-style image links (![[image.png|100]]) outside Markdown code ranges.
      * Links inside code fences or inline code spans are left untouched.
+     * @param pattern - What to match, with the link's inner text as its first group
      */
-    private replaceWikiImageLinks(text: string, replacer: (match: string, linkInner: string) => string): string {
+    private wikiImageLinkEdits(
+        text: string,
+        replacer: (match: string, linkInner: string, offset: number) => string,
+        pattern = WIKILINK_IMAGE_REGEX
+    ): TextEdit[] {
+        const edits: TextEdit[] = [];
         const codeRanges = markdownCodeRanges(text);
-        return text.replace(WIKILINK_IMAGE_REGEX, (match: string, linkInner: string, offset: number) => {
-            if (overlapsRange(codeRanges, offset, offset + match.length)) return match;
-            return replacer(match, linkInner);
-        });
+        const tableRanges = markdownTableRanges(text);
+
+        for (const match of text.matchAll(pattern)) {
+            const start = match.index ?? 0;
+            const end = start + match[0].length;
+            if (overlapsRange(codeRanges, start, end)) continue;
+
+            const replacement = replacer(match[0], match[1], start);
+            if (replacement === match[0]) continue;
+            edits.push({ start, end, text: overlapsRange(tableRanges, start, end) ? this.escapeTablePipes(replacement) : replacement });
+        }
+
+        return edits;
+    }
+
+    /** Escapes the pipes of a rewritten link so it stays inside its table cell. */
+    private escapeTablePipes(link: string): string {
+        return link.replace(/(?<!\\)\|/g, '\\|');
+    }
+
+    /**
+     * Collects edits for HTML image tags (<img src="image.png" width="100">) outside Markdown code ranges.
+     * The replacer receives the tag's size as link parameters and returns new parameters, which are
+     * written back as its width and height, or null to remove the image along with its wrapper.
+     * Parameters the replacer returns unchanged produce no edit.
+     */
+    private htmlImageLinkEdits(text: string, replacer: (tag: HtmlImageTag, params: string[]) => string[] | null): TextEdit[] {
+        const edits: TextEdit[] = [];
+
+        for (const tag of scanHtmlImageTags(text)) {
+            const params = getHtmlImageSizeParams(tag.tag);
+            const newParams = replacer(tag, params);
+            if (newParams === null) {
+                const range = tag.wrapper ?? tag;
+                edits.push({ start: range.start, end: range.end, text: '' });
+                continue;
+            }
+            if (newParams === params) continue;
+
+            const sizeParam = findLastObsidianImageSizeParam(newParams);
+            const replacement = setHtmlImageSize(tag.tag, sizeParam && { width: sizeParam.width, height: sizeParam.height });
+            if (replacement !== tag.tag) edits.push({ start: tag.start, end: tag.end, text: replacement });
+        }
+
+        return edits;
+    }
+
+    /** Normalizes a reference label the way CommonMark matches them: case-insensitive, with whitespace collapsed. */
+    private normalizeReferenceLabel(label: string): string {
+        return label.trim().replace(/\s+/g, ' ').toLowerCase();
+    }
+
+    /**
+     * Finds reference-style image links (![alt][label]) whose label has a definition in the text, outside
+     * Markdown code ranges. When a label is defined twice, the first definition wins, as in CommonMark.
+     */
+    private scanReferenceImageLinks(text: string): ReferenceImageLink[] {
+        const codeRanges = markdownCodeRanges(text);
+        const definitions = new Map<string, { linkPath: string; range: TextRange }>();
+        for (const match of text.matchAll(REFERENCE_DEFINITION)) {
+            const start = match.index ?? 0;
+            const end = start + match[0].length;
+            const key = this.normalizeReferenceLabel(match[1]);
+            if (overlapsRange(codeRanges, start, end) || definitions.has(key)) continue;
+            definitions.set(key, { linkPath: match[2] ?? match[3], range: { start, end } });
+        }
+        if (definitions.size === 0) return [];
+
+        const links: ReferenceImageLink[] = [];
+        for (const match of text.matchAll(REFERENCE_IMAGE)) {
+            const start = match.index ?? 0;
+            const end = start + match[0].length;
+            const [, description, label] = match;
+            // A shortcut followed by a destination is an inline link
+            if (label === undefined && text[end] === '(') continue;
+            if (overlapsRange(codeRanges, start, end)) continue;
+
+            const key = this.normalizeReferenceLabel(label || description);
+            const definition = definitions.get(key);
+            if (!definition) continue;
+            links.push({ start, end, description, label: label ?? null, linkPath: definition.linkPath, definition: definition.range, key });
+        }
+        return links;
+    }
+
+    /**
+     * Collects edits for reference-style image links (![alt|100][label]), whose size parameters live in
+     * the alt text like those of inline markdown links. The replacer returns new parameters, or null to
+     * remove the link; a definition left without users is removed with it. Parameters the replacer
+     * returns unchanged produce no edit.
+     */
+    private referenceImageLinkEdits(text: string, replacer: (link: ReferenceImageLink, params: string[]) => string[] | null): TextEdit[] {
+        const edits: TextEdit[] = [];
+        const tableRanges = markdownTableRanges(text);
+        const removedLinks: ReferenceImageLink[] = [];
+
+        for (const link of this.scanReferenceImageLinks(text)) {
+            const [baseDescription, ...params] = link.description.split(LINK_PARAM_SEPARATOR);
+            const newParams = replacer(link, params);
+            if (newParams === null) {
+                edits.push({ start: link.start, end: link.end, text: '' });
+                removedLinks.push(link);
+                continue;
+            }
+            if (newParams === params) continue;
+
+            const newDescription = newParams.length > 0 ? [baseDescription.trim(), ...newParams].join('|') : baseDescription.trim();
+            // Collapsed and shortcut forms take their label from the alt text, so changing it needs the full form
+            const label = link.label || link.description;
+            const replacement = `![${newDescription}][${label}]`;
+            const escaped = overlapsRange(tableRanges, link.start, link.end) ? this.escapeTablePipes(replacement) : replacement;
+            if (text.substring(link.start, link.end) !== escaped) edits.push({ start: link.start, end: link.end, text: escaped });
+        }
+
+        // Any other bracketed text with the label may still use the definition, so only remove it when there is none
+        const handledDefinitions = new Set<number>();
+        for (const link of removedLinks) {
+            if (handledDefinitions.has(link.definition.start)) continue;
+            handledDefinitions.add(link.definition.start);
+
+            const hasOtherUsers = Array.from(text.matchAll(/\[((?:\\.|[^\\[\]])*)\]/g)).some(match => {
+                const start = match.index ?? 0;
+                const end = start + match[0].length;
+                if (overlapsRange([link.definition], start, end) || overlapsRange(removedLinks, start, end)) return false;
+                return this.normalizeReferenceLabel(match[1]) === link.key;
+            });
+            if (!hasOtherUsers) edits.push({ start: link.definition.start, end: link.definition.end, text: '' });
+        }
+
+        return edits;
+    }
+
+    /** The link path of a reference-style image, from its definition. */
+    private referenceImageLinkPath(link: ReferenceImageLink): string {
+        return this.parseLinkComponents(link.description, link.linkPath).path;
+    }
+
+    /** The link path of an HTML image `src`, without its query or hash and URL-decoded. */
+    private htmlImageLinkPath(src: string): string {
+        return safeDecodeURIComponent(src.split(/[?#]/, 1)[0]);
+    }
+
+    /**
+     * Merges link edits of each link style found in the same text into one ordered, non-overlapping list.
+     * Where edits overlap, the one from the earlier list wins.
+     */
+    private mergeLinkEdits(...editLists: TextEdit[][]): TextEdit[] {
+        const merged: TextEdit[] = [];
+        for (const edits of editLists) {
+            merged.push(...edits.filter(edit => !overlapsRange(merged, edit.start, edit.end)));
+        }
+        return merged.sort((a, b) => a.start - b.start);
+    }
+
+    /**
+     * Turns link removals into edits that also tidy the lines they leave behind. A line or list item left
+     * without content is removed along with its line break, and with a neighboring blank line when it sat
+     * between two. Table rows keep their cells, emptied. Elsewhere one space next to a link goes with it.
+     */
+    private linkRemovalEdits(text: string, removals: readonly TextRange[]): TextEdit[] {
+        const sorted = [...removals].sort((a, b) => a.start - b.start);
+        const tableRanges = markdownTableRanges(text);
+        const edits: TextEdit[] = [];
+        let index = 0;
+
+        while (index < sorted.length) {
+            const lineStart = text.lastIndexOf('\n', sorted[index].start - 1) + 1;
+            let lineEnd = this.lineEndAt(text, sorted[index].end);
+            const pieces: string[] = [];
+            let cursor = lineStart;
+            for (; index < sorted.length && sorted[index].start < lineEnd; index++) {
+                pieces.push(text.substring(cursor, sorted[index].start));
+                cursor = sorted[index].end;
+                lineEnd = Math.max(lineEnd, this.lineEndAt(text, cursor));
+            }
+            pieces.push(text.substring(cursor, lineEnd));
+
+            const remaining = pieces.join('');
+            let edit: TextEdit;
+            if (STRUCTURE_ONLY_LINE.test(remaining)) {
+                edit = this.lineDeletionEdit(text, lineStart, lineEnd);
+            } else if (overlapsRange(tableRanges, lineStart, lineEnd)) {
+                // Dropping only the links keeps every cell of a table row in place
+                edit = { start: lineStart, end: lineEnd, text: remaining };
+            } else {
+                edit = { start: lineStart, end: lineEnd, text: this.joinAroundRemovedLinks(pieces) };
+            }
+
+            // A deleted line can take a line break or blank line that an earlier edit already covers
+            const previous = edits[edits.length - 1];
+            if (previous && edit.start < previous.end) edit.start = previous.end;
+            edits.push(edit);
+        }
+
+        return edits;
+    }
+
+    /** End of the line containing `offset`, before its line break. */
+    private lineEndAt(text: string, offset: number): number {
+        const newline = text.indexOf('\n', offset);
+        if (newline < 0) return text.length;
+        return text[newline - 1] === '\r' ? newline - 1 : newline;
+    }
+
+    private lineDeletionEdit(text: string, lineStart: number, lineEnd: number): TextEdit {
+        const newline = text.indexOf('\n', lineEnd);
+        if (newline < 0) {
+            // The last line goes with the line break before it
+            const start = lineStart === 0 ? 0 : text[lineStart - 2] === '\r' ? lineStart - 2 : lineStart - 1;
+            return { start, end: text.length, text: '' };
+        }
+
+        let end = newline + 1;
+        const previousLine = lineStart === 0 ? '' : text.substring(text.lastIndexOf('\n', lineStart - 2) + 1, lineStart - 1);
+        if (previousLine.trim() === '') {
+            // Keep a single blank line where the removed line sat between two
+            const nextLineEnd = this.lineEndAt(text, end);
+            if (end < text.length && text.substring(end, nextLineEnd).trim() === '') {
+                const nextNewline = text.indexOf('\n', nextLineEnd);
+                end = nextNewline < 0 ? text.length : nextNewline + 1;
+            }
+        }
+        return { start: lineStart, end, text: '' };
+    }
+
+    /**
+     * Joins the text between removed links, dropping one of the spaces that surrounded each link
+     * and the space before a link at the end of the line.
+     */
+    private joinAroundRemovedLinks(pieces: readonly string[]): string {
+        let result = pieces[0];
+        for (const piece of pieces.slice(1)) {
+            result += (result === '' || /[ \t]$/.test(result)) && /^[ \t]/.test(piece) ? piece.substring(1) : piece;
+        }
+        return pieces[pieces.length - 1] === '' ? result.replace(/[ \t]$/, '') : result;
     }
 
     private splitFrontmatter(data: string): { frontmatter: string; content: string } {
@@ -194,6 +496,56 @@ export class LinkService {
         return { frontmatter, content: data.substring(frontmatter.length) };
     }
 
+    /**
+     * Applies edits computed from a note's current body (the text after its frontmatter).
+     * A note open in an editor is changed through one editor transaction, so the change is a single
+     * step in that editor's undo history. Other notes are rewritten with `vault.process`, computing the
+     * edits from the latest file contents to avoid overwriting concurrent edits.
+     * @param computeEdits - Receives the note body and its offset in the note, returns edits relative to the body
+     * @param computeFrontmatterEdits - Receives the frontmatter, with its delimiters, and returns edits to it
+     * @returns True if any edits were applied
+     */
+    private async editNote(
+        file: TFile,
+        computeEdits: (content: string, contentOffset: number) => TextEdit[],
+        computeFrontmatterEdits?: (frontmatter: string) => TextEdit[]
+    ): Promise<boolean> {
+        const computeNoteEdits = (data: string): TextEdit[] => {
+            const { frontmatter, content } = this.splitFrontmatter(data);
+            const contentEdits = computeEdits(content, frontmatter.length).map(edit => ({
+                ...edit,
+                start: edit.start + frontmatter.length,
+                end: edit.end + frontmatter.length
+            }));
+            return [...(computeFrontmatterEdits?.(frontmatter) ?? []), ...contentEdits];
+        };
+
+        const editor = findMarkdownEditorForFile(this.plugin.app, file);
+        if (editor) {
+            const edits = computeNoteEdits(editor.getValue());
+            if (edits.length === 0) return false;
+
+            editor.transaction({
+                changes: edits.map(edit => ({
+                    from: editor.offsetToPos(edit.start),
+                    to: editor.offsetToPos(edit.end),
+                    text: edit.text
+                }))
+            });
+            return true;
+        }
+
+        let didChange = false;
+        await this.plugin.app.vault.process(file, data => {
+            const edits = computeNoteEdits(data);
+            if (edits.length === 0) return data;
+
+            didChange = true;
+            return applyTextEdits(data, edits);
+        });
+        return didChange;
+    }
+
     /**
      * Updates image links in the text using a common transformation logic.
      * Handles both wiki-style (![[image.png|100]]) and markdown-style (![alt|100](image.png)) links.
@@ -211,11 +563,132 @@ export class LinkService {
      * @param activeFile - The currently active file (for resolving relative paths)
      * @param imageFile - The specific image file to update links for
      * @param transform - Function that takes current parameters and returns new ones
+     * @param occurrence - Optional range of a single link to update. When no link to the image starts
+     *   there (e.g. the text changed since it was located), no link is updated.
      * @returns The text with updated image links
      */
-    updateLinks(text: string, activeFile: TFile, imageFile: TFile, transform: (params: string[]) => string[]): string {
+    updateLinks(
+        text: string,
+        activeFile: TFile,
+        imageFile: TFile,
+        transform: (params: string[]) => string[],
+        occurrence?: TextRange | null
+    ): string {
+        return applyTextEdits(text, this.imageLinkEdits(text, activeFile, imageFile, transform, occurrence));
+    }
+
+    /**
+     * Points the links to one file at another file in the same folder, such as a converted copy of it,
+     * keeping each link's style and parameters: embeds and plain links, in wiki, markdown, reference and
+     * HTML image style.
+     * @returns The text with the links pointing at `newFile`
+     */
+    relinkImageInText(text: string, activeFile: TFile, oldFile: TFile, newFile: TFile): string {
+        return applyTextEdits(text, this.relinkImageEdits(text, activeFile, oldFile, newFile));
+    }
+
+    /**
+     * Points the links to one file at another file in the same folder in a note, including the
+     * wikilinks in its frontmatter properties.
+     * @returns True if any link changed
+     */
+    async relinkImage(activeFile: TFile, oldFile: TFile, newFile: TFile): Promise<boolean> {
+        try {
+            return await this.editNote(
+                activeFile,
+                content => this.relinkImageEdits(content, activeFile, oldFile, newFile),
+                frontmatter => this.relinkWikiEdits(frontmatter, activeFile, oldFile, newFile)
+            );
+        } catch (error) {
+            errorLog('Failed to update image links:', error);
+            throw new Error('Failed to update image links');
+        }
+    }
+
+    /**
+     * Computes the edits `relinkImageInText` applies, as ranges of the given text.
+     */
+    private relinkImageEdits(text: string, activeFile: TFile, oldFile: TFile, newFile: TFile): TextEdit[] {
+        const rename = (destination: string) => renameLinkTarget(destination, oldFile.name, newFile.name);
+
+        const wikiEdits = this.relinkWikiEdits(text, activeFile, oldFile, newFile);
+
+        // Only destinations change, so the edits for a link wrapping an image and for the image don't overlap
+        const markdownEdits: TextEdit[] = [];
+        this.scanMarkdownImageLinks(
+            text,
+            ({ end, description, linkPath, rawDestination }) => {
+                if (!linkPath || !this.resolveLink(this.parseLinkComponents(description, linkPath).path, activeFile, oldFile)) return;
+                const destination = rename(linkPath);
+                if (destination === null) return;
+
+                const pathStart = end - 1 - rawDestination.length + rawDestination.indexOf(linkPath);
+                markdownEdits.push({ start: pathStart, end: pathStart + linkPath.length, text: destination });
+            },
+            true
+        );
+
+        // A definition may serve reference-style images and links alike, so every definition to the file is updated
+        const referenceEdits: TextEdit[] = [];
+        const codeRanges = markdownCodeRanges(text);
+        for (const match of text.matchAll(REFERENCE_DEFINITION)) {
+            const start = match.index ?? 0;
+            const end = start + match[0].length;
+            const linkPath = match[2] ?? match[3];
+            if (overlapsRange(codeRanges, start, end)) continue;
+            if (!this.resolveLink(this.parseLinkComponents('', linkPath).path, activeFile, oldFile)) continue;
+
+            const destination = rename(linkPath);
+            if (destination === null) continue;
+            const destinationStart = start + match[0].indexOf(linkPath, match[0].indexOf(']:'));
+            referenceEdits.push({ start: destinationStart, end: destinationStart + linkPath.length, text: destination });
+        }
+
+        const htmlEdits: TextEdit[] = [];
+        for (const tag of scanHtmlImageTags(text)) {
+            if (!this.resolveLink(this.htmlImageLinkPath(tag.src), activeFile, oldFile)) continue;
+            const src = rename(tag.src);
+            if (src !== null) htmlEdits.push({ start: tag.start, end: tag.end, text: setHtmlImageSrc(tag.tag, src) });
+        }
+
+        return this.mergeLinkEdits(wikiEdits, markdownEdits, referenceEdits, htmlEdits);
+    }
+
+    /** Computes edits pointing the wikilinks to one file at another, embedded or not. */
+    private relinkWikiEdits(text: string, activeFile: TFile, oldFile: TFile, newFile: TFile): TextEdit[] {
+        return this.wikiImageLinkEdits(
+            text,
+            (match, linkInner) => {
+                const link = this.parseLinkComponents(linkInner);
+                const path = this.resolveLink(link.path, activeFile, oldFile)
+                    ? renameLinkTarget(link.path, oldFile.name, newFile.name)
+                    : null;
+                return path === null ? match : `[[${this.buildLinkPath({ ...link, path })}]]`;
+            },
+            WIKILINK_REGEX
+        );
+    }
+
+    /**
+     * Computes the edits `updateLinks` applies, as ranges of the given text.
+     */
+    private imageLinkEdits(
+        text: string,
+        activeFile: TFile,
+        imageFile: TFile,
+        transform: (params: string[]) => string[],
+        occurrence?: TextRange | null
+    ): TextEdit[] {
+        // A link that moved since it was located is left alone rather than updating every link to the image
+        if (occurrence && !this.isOccurrenceCurrent(this.findImageLinkRangesInContent(text, activeFile, imageFile), occurrence)) {
+            return [];
+        }
+        const targetStart = occurrence?.start ?? null;
+
         // Handle wiki-style links (![[image.png|100]])
-        text = this.replaceWikiImageLinks(text, (match: string, linkInner: string) => {
+        const wikiEdits = this.wikiImageLinkEdits(text, (match: string, linkInner: string, offset: number) => {
+            if (targetStart !== null && offset !== targetStart) return match;
+
             // Parse the link components (path, hash, params)
             const link = this.parseLinkComponents(linkInner);
 
@@ -232,7 +705,9 @@ export class LinkService {
         });
 
         // Handle markdown-style links (![alt|100](image.png))
-        return this.replaceMarkdownImageLinks(text, (match, description, linkPath, titleSuffix) => {
+        const markdownEdits = this.markdownImageLinkEdits(text, (match, description, linkPath, titleSuffix, _rawDestination, start) => {
+            if (targetStart !== null && start !== targetStart) return match;
+
             // Parse the link components from both parts
             const link = this.parseLinkComponents(description, linkPath);
 
@@ -241,18 +716,88 @@ export class LinkService {
                 return match; // Return original match unchanged
             }
 
-            // Get the base description without parameters
-            const baseDesc = description.split('|')[0].trim();
-            const desc = baseDesc || imageFile.basename;
-            // Transform the parameters
-            link.params = transform(link.params);
-            // Combine description with new parameters
-            const newDescription = link.params.length > 0 ? [desc, ...link.params].join('|') : desc;
-            // For markdown links, we put parameters in the description and keep the URL clean
-            // Pass true to encode spaces in the path
-            const newDestination = `${this.buildLinkPath({ ...link, params: [] }, true)}${titleSuffix}`;
-            return `![${newDescription}](${newDestination})`;
+            return this.buildMarkdownImageLink(description, { ...link, params: transform(link.params) }, titleSuffix, imageFile);
+        });
+
+        // Handle reference-style links (![alt|100][label])
+        const referenceEdits = this.referenceImageLinkEdits(text, (link, params) => {
+            if (targetStart !== null && link.start !== targetStart) return params;
+            if (!this.resolveLink(this.referenceImageLinkPath(link), activeFile, imageFile)) return params;
+            return transform(params);
+        });
+
+        // Handle HTML image tags (<img src="image.png" width="100">)
+        const htmlEdits = this.htmlImageLinkEdits(text, (tag, params) => {
+            if (targetStart !== null && tag.start !== targetStart) return params;
+            if (!this.resolveLink(this.htmlImageLinkPath(tag.src), activeFile, imageFile)) return params;
+            return transform(params);
+        });
+
+        return this.mergeLinkEdits(wikiEdits, markdownEdits, referenceEdits, htmlEdits);
+    }
+
+    /**
+     * Rebuilds a markdown-style image link with the parameters of `link`, keeping the alt text.
+     */
+    private buildMarkdownImageLink(description: string, link: ImageLink, titleSuffix: string, imageFile: TFile): string {
+        // Get the base description without parameters
+        const baseDesc = description.split(LINK_PARAM_SEPARATOR)[0].trim();
+        const desc = baseDesc || imageFile.basename;
+        // Combine description with new parameters
+        const newDescription = link.params.length > 0 ? [desc, ...link.params].join('|') : desc;
+        // For markdown links, we put parameters in the description and keep the URL clean
+        // Pass true to encode spaces in the path
+        const newDestination = `${this.buildLinkPath({ ...link, params: [] }, true)}${titleSuffix}`;
+        return `![${newDescription}](${newDestination})`;
+    }
+
+    /**
+     * Computes edits for every link to a vault image in the text, whichever image it links to.
+     * @param onLink - Called for each image link, whether or not the transform changes it
+     */
+    private allImageLinkEdits(
+        text: string,
+        activeFile: TFile,
+        transform: (imageFile: TFile, params: string[]) => string[],
+        onLink: () => void
+    ): TextEdit[] {
+        const wikiEdits = this.wikiImageLinkEdits(text, (match, linkInner) => {
+            const link = this.parseLinkComponents(linkInner);
+            const imageFile = this.resolveImageFile(link.path, activeFile);
+            if (!imageFile) return match;
+
+            onLink();
+            const params = transform(imageFile, link.params);
+            return params === link.params ? match : `![[${this.buildLinkPath({ ...link, params })}]]`;
         });
+
+        const markdownEdits = this.markdownImageLinkEdits(text, (match, description, linkPath, titleSuffix) => {
+            const link = this.parseLinkComponents(description, linkPath);
+            const imageFile = this.resolveImageFile(link.path, activeFile);
+            if (!imageFile) return match;
+
+            onLink();
+            const params = transform(imageFile, link.params);
+            return params === link.params ? match : this.buildMarkdownImageLink(description, { ...link, params }, titleSuffix, imageFile);
+        });
+
+        const referenceEdits = this.referenceImageLinkEdits(text, (link, params) => {
+            const imageFile = this.resolveImageFile(this.referenceImageLinkPath(link), activeFile);
+            if (!imageFile) return params;
+
+            onLink();
+            return transform(imageFile, params);
+        });
+
+        const htmlEdits = this.htmlImageLinkEdits(text, (tag, params) => {
+            const imageFile = this.resolveImageFile(this.htmlImageLinkPath(tag.src), activeFile);
+            if (!imageFile) return params;
+
+            onLink();
+            return transform(imageFile, params);
+        });
+
+        return this.mergeLinkEdits(wikiEdits, markdownEdits, referenceEdits, htmlEdits);
     }
 
     private normalizeUrlForComparison(value: string): string {
@@ -271,19 +816,29 @@ export class LinkService {
     }
 
     /**
-     * Updates markdown-style image links (i.e. `![alt|100](https://...)`) by matching their destination URL.
-     * This is used for external images that do not exist as `TFile`s in the vault.
+     * Computes edits for markdown-style image links (i.e. `![alt|100](https://...)`) and HTML image tags by
+     * matching their destination URL. This is used for external images that do not exist as `TFile`s in the vault.
      */
-    private updateExternalLinks(text: string, imageUrl: string, transform: (params: string[]) => string[]): string {
-        return this.replaceMarkdownImageLinks(text, (match, description, linkPath, _titleSuffix, rawDestination) => {
+    private externalLinkEdits(text: string, imageUrl: string, transform: (params: string[]) => string[]): TextEdit[] {
+        const markdownEdits = this.markdownImageLinkEdits(text, (match, description, linkPath, _titleSuffix, rawDestination) => {
             if (!this.isSameExternalUrl(linkPath, imageUrl)) return match;
 
-            const [baseDescRaw, ...params] = description.split('|');
+            const [baseDescRaw, ...params] = description.split(LINK_PARAM_SEPARATOR);
             const baseDesc = baseDescRaw.trim();
             const newParams = transform(params);
             const newDescription = newParams.length > 0 ? [baseDesc, ...newParams].join('|') : baseDesc;
             return `![${newDescription}](${rawDestination})`;
         });
+
+        const referenceEdits = this.referenceImageLinkEdits(text, (link, params) =>
+            this.isSameExternalUrl(link.linkPath, imageUrl) ? transform(params) : params
+        );
+
+        const htmlEdits = this.htmlImageLinkEdits(text, (tag, params) =>
+            this.isSameExternalUrl(tag.src, imageUrl) ? transform(params) : params
+        );
+
+        return this.mergeLinkEdits(markdownEdits, referenceEdits, htmlEdits);
     }
 
     /**
@@ -298,6 +853,8 @@ export class LinkService {
      * - mainPart = "alt|100" (the part between [] brackets)
      * - linkPath = "image.png#heading" (the part between () parentheses)
      *
+     * Inside tables the parameters are separated by an escaped pipe (![[image.png\|100]]), read the same way.
+     *
      * @param mainPart - For wiki links: full link content. For markdown links: the alt/description text
      * @param linkPath - Only used for markdown links: the URL/path part in parentheses
      * @returns Parsed components of the link:
@@ -313,14 +870,14 @@ export class LinkService {
             const [rawPathWithoutHash, rawHash] = linkPath.split('#', 2);
             const hash = rawHash ? `#${rawHash}` : '';
             const path = safeDecodeURIComponent(rawPathWithoutHash);
-            const [, ...params] = mainPart.split('|');
+            const [, ...params] = mainPart.split(LINK_PARAM_SEPARATOR);
 
             return { path, hash, params, isWikiStyle: false };
         }
 
         // Wiki-style: parameters come from the piped segments; hash can appear either in the first segment
         // ("file#heading|100") or (less commonly) at the end of the last parameter ("file|100#heading").
-        const [pathAndMaybeHash, ...rawParams] = mainPart.split('|');
+        const [pathAndMaybeHash, ...rawParams] = mainPart.split(LINK_PARAM_SEPARATOR);
         let path = pathAndMaybeHash;
         let hash = '';
         const hashIndex = pathAndMaybeHash.indexOf('#');
@@ -388,57 +945,78 @@ export class LinkService {
      * Updates image links in the document using a transformation function.
      * @param imageFile - The image file being referenced
      * @param transform - Function that transforms the parameters of the image link
+     * @param occurrence - Optional document range of the single link to update (see `locateImageLink`).
+     *   When the note changed and no link to the image starts there anymore, nothing is updated and a
+     *   user-visible error is thrown.
      * @returns Promise<boolean> - True if any changes were made, false otherwise
      */
-    async updateImageLinks(activeFile: TFile, imageFile: TFile, transform: (params: string[]) => string[]): Promise<boolean> {
+    async updateImageLinks(
+        activeFile: TFile,
+        imageFile: TFile,
+        transform: (params: string[]) => string[],
+        occurrence?: TextRange | null
+    ): Promise<boolean> {
         if (activeFile.path === imageFile.path) {
             return false;
         }
 
-        let didChange = false;
-
+        let isStale = false;
+        let didChange: boolean;
         try {
-            await this.plugin.app.vault.process(activeFile, data => {
-                // Extract frontmatter and content from the latest file contents to avoid overwriting concurrent edits.
-                const { frontmatter, content } = this.splitFrontmatter(data);
-
-                const replacedText = this.updateLinks(content, activeFile, imageFile, transform);
-                if (replacedText === content) return data;
-
-                didChange = true;
-                return frontmatter ? `${frontmatter}${replacedText}` : replacedText;
+            didChange = await this.editNote(activeFile, (content, contentOffset) => {
+                const contentOccurrence = occurrence
+                    ? { start: occurrence.start - contentOffset, end: occurrence.end - contentOffset }
+                    : null;
+                isStale =
+                    contentOccurrence !== null &&
+                    !this.isOccurrenceCurrent(this.findImageLinkRangesInContent(content, activeFile, imageFile), contentOccurrence);
+                return this.imageLinkEdits(content, activeFile, imageFile, transform, contentOccurrence);
             });
         } catch (error) {
             errorLog('Failed to update file content:', error);
             throw new Error('Failed to update image link');
         }
 
+        if (isStale) throw createUserVisibleError(strings.notices.imageLinkMoved);
         return didChange;
     }
 
+    /**
+     * Transforms the parameters of every link to a vault image in a note, in a single edit of the note.
+     * A transform that returns the parameters array it was given leaves the link as written.
+     * @returns How many image links the note has and how many of them changed
+     */
+    async updateAllImageLinks(
+        activeFile: TFile,
+        transform: (imageFile: TFile, params: string[]) => string[]
+    ): Promise<{ total: number; changed: number }> {
+        let total = 0;
+        let changed = 0;
+        try {
+            await this.editNote(activeFile, content => {
+                total = 0;
+                const edits = this.allImageLinkEdits(content, activeFile, transform, () => total++);
+                changed = edits.length;
+                return edits;
+            });
+        } catch (error) {
+            errorLog('Failed to update image links in note:', error);
+            throw new Error('Failed to update image links');
+        }
+        return { total, changed };
+    }
+
     /**
      * Updates external (http/https) image links in the active file by matching the URL destination.
      * Only affects markdown-style image links.
      */
     async updateExternalImageLinks(activeFile: TFile, imageUrl: string, transform: (params: string[]) => string[]): Promise<boolean> {
-        let didChange = false;
-
         try {
-            await this.plugin.app.vault.process(activeFile, data => {
-                const { frontmatter, content } = this.splitFrontmatter(data);
-
-                const replacedText = this.updateExternalLinks(content, imageUrl, transform);
-                if (replacedText === content) return data;
-
-                didChange = true;
-                return frontmatter ? `${frontmatter}${replacedText}` : replacedText;
-            });
+            return await this.editNote(activeFile, content => this.externalLinkEdits(content, imageUrl, transform));
         } catch (error) {
             errorLog('Failed to update external image link:', error);
             throw new Error('Failed to update external image link');
         }
-
-        return didChange;
     }
 
     /**
@@ -455,31 +1033,391 @@ export class LinkService {
         return resolvedFile;
     }
 
+    /**
+     * Resolves a link path to an image in the vault; links to notes and other files resolve to null.
+     */
+    private resolveImageFile(linkPath: string, activeFile: TFile): TFile | null {
+        const file = this.resolveLink(linkPath, activeFile);
+        return file && IMAGE_EXTENSIONS.has(file.extension.toLowerCase()) ? file : null;
+    }
+
     /**
      * Finds the current width override for an image file from the given markdown text.
      * Uses the same robust markdown scanning logic as link updates.
+     * When `occurrence` is given, only that link's width is reported, and null when no link to the
+     * image starts there anymore.
      */
-    findCurrentImageWidthInText(activeFile: TFile, imageFile: TFile, text: string): number | null {
+    findCurrentImageWidthInText(activeFile: TFile, imageFile: TFile, text: string, occurrence?: TextRange | null): number | null {
+        return this.findCurrentImageSizeInText(activeFile, imageFile, text, occurrence)?.width ?? null;
+    }
+
+    /**
+     * Finds the current size override for an image file from the given markdown text, including
+     * the height of a WxH parameter.
+     */
+    findCurrentImageSizeInText(
+        activeFile: TFile,
+        imageFile: TFile,
+        text: string,
+        occurrence?: TextRange | null
+    ): { width: number; height?: number } | null {
+        if (occurrence && !this.isOccurrenceCurrent(this.findImageLinkRanges(text, activeFile, imageFile), occurrence)) return null;
+        const targetStart = occurrence?.start ?? null;
+
         const codeRanges = markdownCodeRanges(text);
         for (const match of text.matchAll(WIKILINK_IMAGE_REGEX)) {
-            if (overlapsRange(codeRanges, match.index ?? 0, (match.index ?? 0) + match[0].length)) continue;
+            const offset = match.index ?? 0;
+            if (targetStart !== null && offset !== targetStart) continue;
+            if (overlapsRange(codeRanges, offset, offset + match[0].length)) continue;
             const [, linkInner] = match;
             const link = this.parseLinkComponents(linkInner);
             if (!this.resolveLink(link.path, activeFile, imageFile)) continue;
             const sizeParam = findLastObsidianImageSizeParam(link.params);
-            if (sizeParam) return sizeParam.width;
+            if (sizeParam) return { width: sizeParam.width, height: sizeParam.height };
         }
 
-        let foundWidth: number | null = null;
-        this.scanMarkdownImageLinks(text, ({ description, linkPath }) => {
-            if (foundWidth !== null) return;
+        let foundSize: { width: number; height?: number } | null = null;
+        this.scanMarkdownImageLinks(text, ({ start, description, linkPath }) => {
+            if (foundSize !== null) return;
+            if (targetStart !== null && start !== targetStart) return;
             const link = this.parseLinkComponents(description, linkPath);
             if (!this.resolveLink(link.path, activeFile, imageFile)) return;
             const sizeParam = findLastObsidianImageSizeParam(link.params);
-            if (sizeParam) foundWidth = sizeParam.width;
+            if (sizeParam) foundSize = { width: sizeParam.width, height: sizeParam.height };
+        });
+        if (foundSize !== null) return foundSize;
+
+        for (const link of this.scanReferenceImageLinks(text)) {
+            if (targetStart !== null && link.start !== targetStart) continue;
+            if (!this.resolveLink(this.referenceImageLinkPath(link), activeFile, imageFile)) continue;
+            const sizeParam = findLastObsidianImageSizeParam(link.description.split(LINK_PARAM_SEPARATOR).slice(1));
+            if (sizeParam) return { width: sizeParam.width, height: sizeParam.height };
+        }
+
+        for (const tag of scanHtmlImageTags(text)) {
+            if (targetStart !== null && tag.start !== targetStart) continue;
+            if (!this.resolveLink(this.htmlImageLinkPath(tag.src), activeFile, imageFile)) continue;
+            const sizeParam = findLastObsidianImageSizeParam(getHtmlImageSizeParams(tag.tag));
+            if (sizeParam) return { width: sizeParam.width, height: sizeParam.height };
+        }
+
+        return null;
+    }
+
+    /**
+     * Whether a located link still starts one of the image's link ranges. The note may have been
+     * edited since the link was located, moving or removing it.
+     */
+    private isOccurrenceCurrent(ranges: TextRange[], occurrence: TextRange): boolean {
+        return ranges.some(range => range.start === occurrence.start);
+    }
+
+    private findImageLinkRangesInContent(text: string, activeFile: TFile, imageFile: TFile): TextRange[] {
+        const ranges: TextRange[] = [];
+        const codeRanges = markdownCodeRanges(text);
+
+        for (const match of text.matchAll(WIKILINK_IMAGE_REGEX)) {
+            const start = match.index ?? 0;
+            const end = start + match[0].length;
+            if (overlapsRange(codeRanges, start, end)) continue;
+            const link = this.parseLinkComponents(match[1]);
+            if (this.resolveLink(link.path, activeFile, imageFile)) ranges.push({ start, end });
+        }
+
+        this.scanMarkdownImageLinks(text, ({ start, end, description, linkPath }) => {
+            const link = this.parseLinkComponents(description, linkPath);
+            if (this.resolveLink(link.path, activeFile, imageFile)) ranges.push({ start, end });
         });
 
-        return foundWidth;
+        for (const link of this.scanReferenceImageLinks(text)) {
+            if (this.resolveLink(this.referenceImageLinkPath(link), activeFile, imageFile)) {
+                ranges.push({ start: link.start, end: link.end });
+            }
+        }
+
+        for (const tag of scanHtmlImageTags(text)) {
+            if (this.resolveLink(this.htmlImageLinkPath(tag.src), activeFile, imageFile)) ranges.push({ start: tag.start, end: tag.end });
+        }
+
+        return ranges.sort((a, b) => a.start - b.start);
+    }
+
+    /**
+     * Returns the document ranges of every wiki, markdown, reference-style and HTML image link to `imageFile`, in document order.
+     * Links inside frontmatter or code are skipped, like they are when links are updated.
+     */
+    findImageLinkRanges(text: string, activeFile: TFile, imageFile: TFile): TextRange[] {
+        const { frontmatter, content } = this.splitFrontmatter(text);
+        return this.findImageLinkRangesInContent(content, activeFile, imageFile).map(range => ({
+            start: range.start + frontmatter.length,
+            end: range.end + frontmatter.length
+        }));
+    }
+
+    /**
+     * Returns the markdown notes that link to or embed a file, found through the resolved links of the
+     * metadata cache, sorted by path.
+     * @param currentNote - A note to list first even when the cache doesn't have it. The cache can lag
+     *   behind edits, such as a link just added to the note being worked in.
+     */
+    findNotesReferencingFile(file: TFile, currentNote?: TFile | null): TFile[] {
+        const { metadataCache, vault } = this.plugin.app;
+        const notes: TFile[] = [];
+
+        for (const [sourcePath, links] of Object.entries(metadataCache.resolvedLinks)) {
+            if (!links[file.path]) continue;
+
+            const note = vault.getFileByPath(sourcePath);
+            if (note && note.extension === 'md') notes.push(note);
+        }
+
+        notes.sort((a, b) => a.path.localeCompare(b.path));
+        if (currentNote && currentNote.extension === 'md' && currentNote.path !== file.path) {
+            if (!notes.some(note => note.path === currentNote.path)) notes.unshift(currentNote);
+        }
+        return notes;
+    }
+
+    /**
+     * Returns the canvases that show or link to a file, in a file node or a text node, found through the
+     * resolved links of the metadata cache.
+     */
+    findCanvasesReferencingFile(file: TFile): TFile[] {
+        const { metadataCache, vault } = this.plugin.app;
+        return Object.entries(metadataCache.resolvedLinks)
+            .filter(([sourcePath, links]) => sourcePath.endsWith('.canvas') && links[file.path])
+            .map(([sourcePath]) => vault.getFileByPath(sourcePath))
+            .filter((canvas): canvas is TFile => canvas !== null);
+    }
+
+    /**
+     * Returns the markdown notes with image links to a file in their current text: the links
+     * `removeImageLinks` removes. Notes that only link to the file without showing it are left out.
+     * @param currentNote - See `findNotesReferencingFile`
+     */
+    async findNotesWithImageLinks(file: TFile, currentNote?: TFile | null): Promise<TFile[]> {
+        const notes: TFile[] = [];
+        for (const note of this.findNotesReferencingFile(file, currentNote)) {
+            const text = await readNoteText(this.plugin.app, note);
+            if (this.findImageLinkRanges(text, note, file).length > 0) notes.push(note);
+        }
+        return notes;
+    }
+
+    /**
+     * Returns the markdown notes that embed an image. Notes that only link to the image without
+     * embedding it are left out.
+     */
+    findNotesEmbeddingImage(imageFile: TFile): TFile[] {
+        return this.findNotesReferencingFile(imageFile).filter(note => {
+            const embeds = this.plugin.app.metadataCache.getFileCache(note)?.embeds ?? [];
+            return embeds.some(embed => this.resolveLink(this.parseLinkComponents(embed.link).path, note, imageFile));
+        });
+    }
+
+    /**
+     * Returns every vault image linked from the note text, once each.
+     * Links inside frontmatter or code are skipped.
+     */
+    findLinkedImageFiles(text: string, activeFile: TFile): TFile[] {
+        const files = new Map<string, TFile>();
+        this.allImageLinkEdits(
+            this.splitFrontmatter(text).content,
+            activeFile,
+            (imageFile, params) => {
+                files.set(imageFile.path, imageFile);
+                return params;
+            },
+            () => {}
+        );
+        return [...files.values()];
+    }
+
+    /**
+     * Returns the width of every link to a vault image in the note text, null for links without a
+     * size. Links inside frontmatter or code are skipped.
+     */
+    findImageLinkWidths(text: string, activeFile: TFile): { imageFile: TFile; width: number | null }[] {
+        const links: { imageFile: TFile; width: number | null }[] = [];
+        this.allImageLinkEdits(
+            this.splitFrontmatter(text).content,
+            activeFile,
+            (imageFile, params) => {
+                links.push({ imageFile, width: findLastObsidianImageSizeParam(params)?.width ?? null });
+                return params;
+            },
+            () => {}
+        );
+        return links;
+    }
+
+    /**
+     * Reports how a transform would change the links to vault images in a note, without editing it.
+     * Links inside frontmatter or code are skipped, like they are when links are updated.
+     * @returns The image and the parameters before and after the transform, for each link it changes
+     */
+    previewAllImageLinks(
+        text: string,
+        activeFile: TFile,
+        transform: (imageFile: TFile, params: string[]) => string[]
+    ): { imageFile: TFile; before: string[]; after: string[] }[] {
+        const changes: { imageFile: TFile; before: string[]; after: string[] }[] = [];
+        this.allImageLinkEdits(
+            this.splitFrontmatter(text).content,
+            activeFile,
+            (imageFile, params) => {
+                const after = transform(imageFile, params);
+                if (after.join('|') !== params.join('|')) changes.push({ imageFile, before: params, after });
+                return params;
+            },
+            () => {}
+        );
+        return changes;
+    }
+
+    /**
+     * Finds the image link that contains `offset`, such as the link under the editor cursor.
+     * Only links to images in the vault count; links inside frontmatter or code are skipped.
+     * @returns The linked image and the link range in the document text, or null when there is none
+     */
+    findImageLinkAtOffset(text: string, activeFile: TFile, offset: number): { imageFile: TFile; range: TextRange } | null {
+        const { frontmatter, content } = this.splitFrontmatter(text);
+        const contentOffset = offset - frontmatter.length;
+        if (contentOffset < 0) return null;
+
+        const toResult = (imageFile: TFile, start: number, end: number) => ({
+            imageFile,
+            range: { start: start + frontmatter.length, end: end + frontmatter.length }
+        });
+
+        const codeRanges = markdownCodeRanges(content);
+        for (const match of content.matchAll(WIKILINK_IMAGE_REGEX)) {
+            const start = match.index ?? 0;
+            const end = start + match[0].length;
+            if (contentOffset < start || contentOffset > end) continue;
+            if (overlapsRange(codeRanges, start, end)) continue;
+            const imageFile = this.resolveImageFile(this.parseLinkComponents(match[1]).path, activeFile);
+            if (imageFile) return toResult(imageFile, start, end);
+        }
+
+        let found: { imageFile: TFile; range: TextRange } | null = null;
+        this.scanMarkdownImageLinks(content, ({ start, end, description, linkPath }) => {
+            if (found || contentOffset < start || contentOffset > end) return;
+            const imageFile = this.resolveImageFile(this.parseLinkComponents(description, linkPath).path, activeFile);
+            if (imageFile) found = toResult(imageFile, start, end);
+        });
+        if (found) return found;
+
+        for (const link of this.scanReferenceImageLinks(content)) {
+            if (contentOffset < link.start || contentOffset > link.end) continue;
+            const imageFile = this.resolveImageFile(this.referenceImageLinkPath(link), activeFile);
+            if (imageFile) return toResult(imageFile, link.start, link.end);
+        }
+
+        for (const tag of scanHtmlImageTags(content)) {
+            if (contentOffset < tag.start || contentOffset > tag.end) continue;
+            const imageFile = this.resolveImageFile(this.htmlImageLinkPath(tag.src), activeFile);
+            if (imageFile) return toResult(imageFile, tag.start, tag.end);
+        }
+        return null;
+    }
+
+    /**
+     * Records the post processor context of each rendered reading view section, so `locateImageLink`
+     * can ask which source lines a clicked image belongs to.
+     */
+    registerSectionTracking(): void {
+        this.plugin.registerMarkdownPostProcessor((el, ctx) => {
+            this.sectionContexts.set(el, ctx);
+        });
+    }
+
+    /**
+     * Maps a rendered image element to the range of the link that produced it.
+     * Live Preview and source mode ask CodeMirror for the embed's position. Reading view narrows the
+     * search to the section's source lines and matches the image by its order within the section.
+     * Video, PDF and drawing embeds are located by their embed container.
+     * @returns The link range in the document text, or null when the image cannot be mapped to exactly one link
+     */
+    locateImageLink(img: HTMLElement, activeFile: TFile, imageFile: TFile): TextRange | null {
+        const view = findMarkdownViewForElement(this.plugin.app, img);
+        if (!view || view.file?.path !== activeFile.path) return null;
+
+        const text = view.editor.getValue();
+        const ranges = this.findImageLinkRanges(text, activeFile, imageFile);
+        if (ranges.length <= 1) return ranges[0] ?? null;
+
+        if (view.previewMode.containerEl.contains(img)) {
+            return this.locateImageLinkInSection(img, activeFile, imageFile, text, ranges);
+        }
+        return this.locateImageLinkInEditor(view, img, text, ranges);
+    }
+
+    private locateImageLinkInEditor(view: MarkdownView, img: HTMLElement, text: string, ranges: TextRange[]): TextRange | null {
+        const cm = view.editor.cm;
+        if (!cm) return null;
+
+        let pos: number;
+        try {
+            pos = cm.posAtDOM(img.closest('.internal-embed, .image-embed') ?? img);
+        } catch {
+            return null;
+        }
+
+        const containing = ranges.filter(range => range.start <= pos && pos <= range.end);
+        if (containing.length === 1) return containing[0];
+        if (containing.length > 1) return null;
+
+        // The widget may report the start of its line rather than the link itself.
+        const lineStart = text.lastIndexOf('\n', pos - 1) + 1;
+        const lineEndIndex = text.indexOf('\n', pos);
+        const lineEnd = lineEndIndex < 0 ? text.length : lineEndIndex;
+        const onLine = ranges.filter(range => range.start >= lineStart && range.start < lineEnd);
+        return onLine.length === 1 ? onLine[0] : null;
+    }
+
+    private locateImageLinkInSection(
+        img: HTMLElement,
+        activeFile: TFile,
+        imageFile: TFile,
+        text: string,
+        ranges: TextRange[]
+    ): TextRange | null {
+        let sectionEl: HTMLElement | null = img;
+        let ctx: MarkdownPostProcessorContext | undefined;
+        while (sectionEl && !ctx) {
+            ctx = this.sectionContexts.get(sectionEl);
+            if (!ctx) sectionEl = sectionEl.parentElement;
+        }
+        // Images inside transcluded notes belong to another file's section.
+        if (!sectionEl || !ctx || ctx.sourcePath !== activeFile.path) return null;
+
+        const info = ctx.getSectionInfo(sectionEl);
+        if (!info) return null;
+
+        const lines = text.split('\n');
+        let sectionStart = 0;
+        for (let line = 0; line < info.lineStart && line < lines.length; line++) sectionStart += lines[line].length + 1;
+        let sectionEnd = sectionStart;
+        for (let line = info.lineStart; line <= info.lineEnd && line < lines.length; line++) sectionEnd += lines[line].length + 1;
+
+        const inSection = ranges.filter(range => range.start >= sectionStart && range.start < sectionEnd);
+        const section = sectionEl;
+        const isImage = img.instanceOf(HTMLImageElement);
+        const renderedImages = Array.from(section.querySelectorAll<HTMLElement>(isImage ? 'img' : '.internal-embed[src]')).filter(
+            candidate => {
+                const nestedEmbed = candidate.closest('.markdown-embed');
+                if (nestedEmbed && section.contains(nestedEmbed)) return false;
+                const file = candidate.instanceOf(HTMLImageElement)
+                    ? this.plugin.fileService.getFileForImage(candidate, activeFile)
+                    : this.plugin.fileService.getFileForMediaEmbed(candidate, activeFile);
+                return file?.path === imageFile.path;
+            }
+        );
+
+        const index = renderedImages.indexOf(img);
+        if (index < 0 || renderedImages.length !== inSection.length) return null;
+        return inSection[index];
     }
 
     /**
@@ -492,62 +1430,77 @@ export class LinkService {
         this.scanMarkdownImageLinks(text, ({ description, linkPath }) => {
             if (foundWidth !== null) return;
             if (!this.isSameExternalUrl(linkPath, imageUrl)) return;
-            const [, ...params] = description.split('|');
+            const [, ...params] = description.split(LINK_PARAM_SEPARATOR);
             const sizeParam = findLastObsidianImageSizeParam(params);
             if (sizeParam) foundWidth = sizeParam.width;
         });
+        if (foundWidth !== null) return foundWidth;
 
-        return foundWidth;
+        const reference = this.scanReferenceImageLinks(text).find(link => this.isSameExternalUrl(link.linkPath, imageUrl));
+        const referenceWidth = reference && findLastObsidianImageSizeParam(reference.description.split(LINK_PARAM_SEPARATOR).slice(1));
+        if (referenceWidth) return referenceWidth.width;
+
+        const tag = scanHtmlImageTags(text).find(candidate => this.isSameExternalUrl(candidate.src, imageUrl));
+        return tag ? (findLastObsidianImageSizeParam(getHtmlImageSizeParams(tag.tag))?.width ?? null) : null;
     }
 
     /**
-     * Removes all image links pointing to the specified file from the document.
-     * Handles both wiki-style (![[image.png]]) and markdown-style (![](image.png)) links.
+     * Removes all image links pointing to the specified file from a note.
+     * Handles wiki-style (![[image.png]]), markdown-style (![](image.png)) and reference-style (![][label])
+     * links and HTML image tags.
+     * @param activeFile - The note to remove the links from
      * @param imageFile - The image file whose links should be removed
-     * @returns Promise<boolean> - True if any links were removed, false otherwise
+     * @returns The removed links, for `restoreImageLinks`, or null if the note had none
      */
-    async removeImageLinks(imageFile: TFile): Promise<boolean> {
-        const activeFile = this.plugin.app.workspace.getActiveFile();
-        if (!activeFile) {
-            throw new Error('No active file, cannot remove links.');
-        }
-
+    async removeImageLinks(activeFile: TFile, imageFile: TFile): Promise<RemovedImageLinks | null> {
         if (activeFile.path === imageFile.path) {
-            return false;
+            return null;
         }
 
-        let didChange = false;
-
         try {
-            // Do all parsing and replacement inside vault.process() to avoid overwriting concurrent edits.
-            await this.plugin.app.vault.process(activeFile, data => {
-                // Extract frontmatter and content from the latest file contents.
-                const { frontmatter, content } = this.splitFrontmatter(data);
-
-                let replacedText = content;
-
+            let removed: RemovedImageLinks | null = null;
+            await this.editNote(activeFile, content => {
                 // Remove wiki-style links (![[image.png|100]])
-                replacedText = this.replaceWikiImageLinks(replacedText, (match: string, linkInner: string) => {
+                const wikiEdits = this.wikiImageLinkEdits(content, (match: string, linkInner: string) => {
                     const link = this.parseLinkComponents(linkInner);
                     return this.resolveLink(link.path, activeFile, imageFile) ? '' : match;
                 });
 
                 // Remove markdown-style links (![alt|100](image.png))
-                replacedText = this.replaceMarkdownImageLinks(replacedText, (match, description, linkPath) => {
+                const markdownEdits = this.markdownImageLinkEdits(content, (match, description, linkPath) => {
                     const link = this.parseLinkComponents(description, linkPath);
                     return this.resolveLink(link.path, activeFile, imageFile) ? '' : match;
                 });
 
-                if (replacedText === content) return data;
-
-                didChange = true;
-                return frontmatter ? `${frontmatter}${replacedText}` : replacedText;
+                // Remove reference-style links (![alt][label]), with their definition once nothing else uses it
+                const referenceEdits = this.referenceImageLinkEdits(content, (link, params) =>
+                    this.resolveLink(this.referenceImageLinkPath(link), activeFile, imageFile) ? null : params
+                );
+
+                // Remove HTML image tags (<img src="image.png">), with a <picture> or <figure> wrapped around them
+                const htmlEdits = this.htmlImageLinkEdits(content, (tag, params) =>
+                    this.resolveLink(this.htmlImageLinkPath(tag.src), activeFile, imageFile) ? null : params
+                );
+
+                const edits = this.linkRemovalEdits(content, this.mergeLinkEdits(wikiEdits, markdownEdits, referenceEdits, htmlEdits));
+                removed =
+                    edits.length > 0
+                        ? { note: activeFile, bodyAfter: applyTextEdits(content, edits), restoreEdits: invertTextEdits(content, edits) }
+                        : null;
+                return edits;
             });
+            return removed;
         } catch (error) {
             errorLog('Failed to remove image links:', error);
             throw new Error('Failed to remove image links');
         }
+    }
 
-        return didChange;
+    /**
+     * Puts back links removed by `removeImageLinks`, at their original offsets.
+     * @returns False if the note has been edited since the removal, in which case it is left alone
+     */
+    async restoreImageLinks(removed: RemovedImageLinks): Promise<boolean> {
+        return this.editNote(removed.note, content => (content === removed.bodyAfter ? removed.restoreEdits : []));
     }
 }
@@ -0,0 +1,126 @@
+import { TFile } from 'obsidian';
+import type PixelPerfectImage from '../main';
+import type { BulkResizeProgress } from './BulkResizeService';
+import { errorLog, readNoteText, removeRedundantSizeParam } from '../utils/utils';
+
+/** An image file that is wider than any note shows it, with the width it can be shrunk to */
+export interface ShrinkPlanItem {
+    file: TFile;
+    originalWidth: number;
+    width: number;
+}
+
+export interface ShrinkReport {
+    imagesShrunk: number;
+    bytesBefore: number;
+    bytesAfter: number;
+    /** Images left as they were because resampling didn't make the file smaller */
+    notSmaller: number;
+    failedImages: TFile[];
+    cancelled: boolean;
+}
+
+/**
+ * Shrinks image files to the size notes show them at: one image from its menu, or every image in
+ * the vault that is wider than its widest embed.
+ */
+export class ShrinkService {
+    private plugin: PixelPerfectImage;
+
+    constructor(plugin: PixelPerfectImage) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Replaces an image file with a resampled version of it, then drops the size parameters that
+     * now match the file's width from the notes linking to it.
+     */
+    async writeShrunkImage(file: TFile, shrunk: { data: ArrayBuffer; width: number }): Promise<void> {
+        const { imageService, linkService } = this.plugin;
+        await imageService.replaceImageData(file, shrunk.data);
+
+        for (const note of linkService.findNotesReferencingFile(file)) {
+            try {
+                await linkService.updateImageLinks(note, file, params => removeRedundantSizeParam(params, shrunk.width));
+            } catch (error) {
+                // The file is already shrunk; a parameter left behind still shows it at the same size
+                errorLog(`Failed to remove size parameters in ${note.path}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Finds the images that every note shows smaller than their own width. An image shows at its
+     * widest link; one linked without a size, or placed on a canvas, shows at its full width and is
+     * left out.
+     */
+    async planShrink(progress: BulkResizeProgress): Promise<ShrinkPlanItem[]> {
+        const { app, imageService, linkService } = this.plugin;
+        const notes = app.vault.getMarkdownFiles();
+        const widths = new Map<string, { file: TFile; width: number | null }>();
+
+        for (const [index, note] of notes.entries()) {
+            if (progress.isCancelled()) return [];
+            progress.onProgress(index, notes.length);
+
+            for (const { imageFile, width } of linkService.findImageLinkWidths(await readNoteText(this.plugin.app, note), note)) {
+                const previous = widths.get(imageFile.path)?.width;
+                // A link without a size shows the image at its full width
+                const widest = previous === null || width === null ? null : Math.max(previous ?? 0, width);
+                widths.set(imageFile.path, { file: imageFile, width: widest });
+            }
+        }
+        progress.onProgress(notes.length, notes.length);
+
+        // Canvases size images by their nodes, not by link parameters
+        for (const [sourcePath, links] of Object.entries(app.metadataCache.resolvedLinks)) {
+            if (sourcePath.endsWith('.md')) continue;
+            for (const path of Object.keys(links)) widths.delete(path);
+        }
+
+        const plan: ShrinkPlanItem[] = [];
+        for (const { file, width } of widths.values()) {
+            if (width === null || !imageService.canEditImage(file)) continue;
+
+            const dimensions = await imageService.readImageDimensions(file).catch(() => null);
+            if (dimensions && dimensions.width > width) plan.push({ file, originalWidth: dimensions.width, width });
+        }
+        return plan.sort((a, b) => a.file.path.localeCompare(b.file.path));
+    }
+
+    /**
+     * Shrinks the images of a plan one at a time, stopping between images when cancelled. An image
+     * whose resampled file wouldn't be smaller is left as it is.
+     */
+    async applyShrink(plan: ShrinkPlanItem[], progress: BulkResizeProgress): Promise<ShrinkReport> {
+        const report: ShrinkReport = { imagesShrunk: 0, bytesBefore: 0, bytesAfter: 0, notSmaller: 0, failedImages: [], cancelled: false };
+
+        for (const [index, { file, width }] of plan.entries()) {
+            if (progress.isCancelled()) {
+                report.cancelled = true;
+                break;
+            }
+            progress.onProgress(index, plan.length);
+
+            try {
+                const bytesBefore = file.stat.size;
+                const shrunk = await this.plugin.imageService.shrinkImage(file, width);
+                if (shrunk.data.byteLength >= bytesBefore) {
+                    report.notSmaller++;
+                    continue;
+                }
+
+                await this.writeShrunkImage(file, shrunk);
+                report.imagesShrunk++;
+                report.bytesBefore += bytesBefore;
+                report.bytesAfter += shrunk.data.byteLength;
+            } catch (error) {
+                errorLog(`Failed to shrink ${file.path}:`, error);
+                report.failedImages.push(file);
+            }
+        }
+
+        if (!report.cancelled) progress.onProgress(plan.length, plan.length);
+        return report;
+    }
+}
@@ -1,18 +1,28 @@
-import { Notice, TFile } from 'obsidian';
+import { Notice, TAbstractFile, TFile } from 'obsidian';
 import type PixelPerfectImage from '../main';
 import {
     errorLog,
     findImageElement,
     findLastObsidianImageSizeParam,
     findMarkdownFileForElement,
+    findMediaEmbedElement,
     findWorkspaceFileForElement,
     getWorkspaceWindows,
-    isRemoteImage
+    isRemoteImage,
+    isUserVisibleError
 } from '../utils/utils';
 import { strings } from '../i18n';
 import { DEFAULT_EXTERNAL_IMAGE_FALLBACK_WIDTH_PX } from '../utils/constants';
+import type { TextRange } from '../utils/markdownRanges';
+import type { CanvasImage } from '../utils/types';
+import { parseResizeSize } from '../ui/settings';
+import { ImageResizeHandles } from './ImageResizeHandles';
 
-type WheelImageTarget = { kind: 'local'; imgFile: TFile } | { kind: 'remote'; url: string };
+// `occurrence` is the link that rendered the scrolled image, or null when it can't be told apart from other embeds.
+type WheelImageTarget =
+    | { kind: 'local'; imgFile: TFile; occurrence: TextRange | null }
+    | { kind: 'remote'; url: string }
+    | { kind: 'canvas'; image: CanvasImage };
 
 export class EventService {
     private plugin: PixelPerfectImage;
@@ -21,18 +31,19 @@ export class EventService {
     private wheelWidthCache = new Map<string, number>();
     private wheelPendingWidth = new Map<string, number>();
     private wheelDebounceTimers = new Map<string, number>();
-    private wheelMaxWaitTimers = new Map<string, number>();
     private wheelTargets = new Map<string, { activeFile: TFile; target: WheelImageTarget }>();
+    // The target each scrolled element resolved to, so its link is located once per gesture rather than on
+    // every wheel event. Dropped when widths are flushed, as writing them can move the links.
+    private wheelGestureTargets = new WeakMap<HTMLElement, { activeFile: TFile; target: WheelImageTarget }>();
     // Tracks which DOM image element we applied a temporary inline width to (for immediate visual feedback).
     // This is keyed by active note + image file, and is cleared after the queued markdown update flushes.
-    private wheelDomTargets = new Map<string, HTMLImageElement>();
+    private wheelDomTargets = new Map<string, HTMLElement>();
     // Serializes wheel computations per image so rapid wheel events don't race width calculations.
     private wheelComputeQueue = new Map<string, Promise<void>>();
     // Serializes writes per image so we never overlap markdown link updates for the same target.
     private wheelWriteQueue = new Map<string, Promise<void>>();
     private static readonly WHEEL_WIDTH_CACHE_MAX_ENTRIES = 300;
     private static readonly WHEEL_WRITE_DEBOUNCE_MS = 250;
-    private static readonly WHEEL_WRITE_MAX_WAIT_MS = 2000;
 
     constructor(plugin: PixelPerfectImage) {
         this.plugin = plugin;
@@ -94,28 +105,14 @@ export class EventService {
                 this.setModifierKeyState(true);
             }
 
-            const img = findImageElement(ev.target);
+            // Videos, PDFs and drawings zoom through their embed container
+            const img = findImageElement(ev.target) ?? findMediaEmbedElement(ev.target);
             if (!img) return;
 
-            // Wheel events can originate from non-active markdown panes; resolve the owning markdown
-            // file by walking open markdown views and checking DOM containment.
-            const activeFile = this.getMarkdownFileForElement(img);
-            if (!activeFile) return;
-
-            let target: WheelImageTarget | null = null;
-
-            // Resolve the vault image file from the DOM element + active note context.
-            const imgFile = this.plugin.fileService.getFileForImage(img, activeFile);
-            if (imgFile) {
-                target = { kind: 'local', imgFile };
-            } else if (isRemoteImage(img)) {
-                const url = img.currentSrc || img.src;
-                if (url) {
-                    target = { kind: 'remote', url };
-                }
-            }
-
-            if (!target) return;
+            const resolved = this.wheelGestureTargets.get(img) ?? this.resolveWheelImageTarget(img);
+            if (!resolved) return;
+            this.wheelGestureTargets.set(img, resolved);
+            const { activeFile, target } = resolved;
 
             // Only prevent scrolling once we're sure we're handling an image zoom.
             ev.preventDefault();
@@ -139,7 +136,15 @@ export class EventService {
             capture: true
         });
 
+        const resizeHandles = new ImageResizeHandles(currentWindow, {
+            canResize: img => this.plugin.settings.enableDragHandles && this.canDragResize(img),
+            getNaturalWidth: img => (img.naturalWidth > 0 ? img.naturalWidth : null),
+            getSnapWidths: img => this.getDragSnapWidths(img),
+            onResizeEnd: (img, width) => this.handleDragResizeEnd(img, width)
+        });
+
         this.windowEventCleanups.set(currentWindow, () => {
+            resizeHandles.destroy();
             doc.removeEventListener('click', clickHandler);
             doc.removeEventListener('keydown', keydownHandler);
             doc.removeEventListener('keyup', keyupHandler);
@@ -192,13 +197,142 @@ export class EventService {
         return findMarkdownFileForElement(this.plugin.app, element);
     }
 
+    /**
+     * Resolves the note that renders an image and the image the note links to, or null when the
+     * image isn't part of a markdown note or can't be resolved. In a canvas, the file is the canvas
+     * and the target is the node showing the image. A video, PDF or drawing embed is resolved from
+     * its embed container like a local image.
+     * @param locateOccurrence - Whether to find the link that rendered the image, which scans the note.
+     *   Without it, the occurrence of a local image is null.
+     */
+    private resolveWheelImageTarget(img: HTMLElement, locateOccurrence = true): { activeFile: TFile; target: WheelImageTarget } | null {
+        if (!img.instanceOf(HTMLImageElement)) {
+            const activeFile = this.getMarkdownFileForElement(img);
+            const mediaFile = activeFile ? this.plugin.fileService.getFileForMediaEmbed(img, activeFile) : null;
+            if (!activeFile || !mediaFile) return null;
+            return {
+                activeFile,
+                target: {
+                    kind: 'local',
+                    imgFile: mediaFile,
+                    occurrence: locateOccurrence ? this.plugin.linkService.locateImageLink(img, activeFile, mediaFile) : null
+                }
+            };
+        }
+
+        const canvasImage = this.plugin.canvasService.findCanvasImage(img);
+        if (canvasImage) {
+            return { activeFile: canvasImage.canvasFile, target: { kind: 'canvas', image: canvasImage } };
+        }
+
+        // Events can originate from non-active markdown panes; resolve the owning markdown
+        // file by walking open markdown views and checking DOM containment.
+        const activeFile = this.getMarkdownFileForElement(img);
+        if (!activeFile) return null;
+
+        // Resolve the vault image file from the DOM element + active note context.
+        const imgFile = this.plugin.fileService.getFileForImage(img, activeFile);
+        if (imgFile) {
+            return {
+                activeFile,
+                target: {
+                    kind: 'local',
+                    imgFile,
+                    occurrence: locateOccurrence ? this.plugin.linkService.locateImageLink(img, activeFile, imgFile) : null
+                }
+            };
+        }
+
+        if (isRemoteImage(img)) {
+            const url = img.currentSrc || img.src;
+            if (url) return { activeFile, target: { kind: 'remote', url } };
+        }
+        return null;
+    }
+
+    /**
+     * True when drag handles can resize an image. Canvas file nodes are left to the canvas's own
+     * resize handles.
+     */
+    private canDragResize(img: HTMLImageElement): boolean {
+        // Only the kind of target matters here, so the link isn't located for every hovered image
+        const resolved = this.resolveWheelImageTarget(img, false);
+        if (!resolved) return false;
+        return resolved.target.kind !== 'canvas' || resolved.target.image.nodeType === 'text';
+    }
+
     private getWheelWidthCacheKey(activeFile: TFile, target: WheelImageTarget): string {
         if (target.kind === 'local') {
-            return `${activeFile.path}::local::${target.imgFile.path}`;
+            const occurrenceKey = target.occurrence ? `@${target.occurrence.start}` : '';
+            return `${activeFile.path}::local::${target.imgFile.path}${occurrenceKey}`;
+        }
+        if (target.kind === 'canvas') {
+            return `${activeFile.path}::canvas::${target.image.nodeId}::${target.image.imageFile.path}`;
         }
         return `${activeFile.path}::remote::${target.url}`;
     }
 
+    /**
+     * Finds where the image path starts in a wheel cache key: after the marker of a note image, or
+     * after the node id of a canvas image. Remote images have no image path, and give -1.
+     */
+    private wheelWidthCacheKeyImageStart(key: string): number {
+        const localMarker = '::local::';
+        const localIndex = key.indexOf(localMarker);
+        if (localIndex >= 0) return localIndex + localMarker.length;
+
+        const canvasMarker = '::canvas::';
+        const canvasIndex = key.indexOf(canvasMarker);
+        if (canvasIndex < 0) return -1;
+        const nodeIdEnd = key.indexOf('::', canvasIndex + canvasMarker.length);
+        return nodeIdEnd < 0 ? -1 : nodeIdEnd + 2;
+    }
+
+    /**
+     * Rewrites a wheel cache key after a rename, for both the note or canvas and the image part of the key.
+     */
+    private renameWheelWidthCacheKey(key: string, oldPath: string, newPath: string): string {
+        let renamed = key.startsWith(`${oldPath}::`) ? `${newPath}${key.substring(oldPath.length)}` : key;
+
+        const imageStart = this.wheelWidthCacheKeyImageStart(renamed);
+        if (imageStart >= 0) {
+            const imagePart = renamed.substring(imageStart);
+            if (imagePart === oldPath || imagePart.startsWith(`${oldPath}@`)) {
+                renamed = `${renamed.substring(0, imageStart)}${newPath}${imagePart.substring(oldPath.length)}`;
+            }
+        }
+
+        return renamed;
+    }
+
+    /** True when the key belongs to the given note, canvas or image path. */
+    private wheelWidthCacheKeyReferences(key: string, path: string): boolean {
+        return this.renameWheelWidthCacheKey(key, path, '') !== key;
+    }
+
+    private handleFileRename(file: TAbstractFile, oldPath: string) {
+        if (!(file instanceof TFile)) return;
+
+        this.plugin.imageService.renameDimensionCache(oldPath, file.path);
+        this.plugin.dimensionIndexService.rename(oldPath, file.path);
+
+        const renamedCache = new Map<string, number>();
+        for (const [key, width] of this.wheelWidthCache) {
+            renamedCache.set(this.renameWheelWidthCacheKey(key, oldPath, file.path), width);
+        }
+        this.wheelWidthCache = renamedCache;
+    }
+
+    private handleFileDelete(file: TAbstractFile) {
+        if (!(file instanceof TFile)) return;
+
+        this.plugin.imageService.evictDimensionCache(file.path);
+        this.plugin.dimensionIndexService.delete(file.path);
+        for (const key of Array.from(this.wheelWidthCache.keys())) {
+            if (this.wheelWidthCacheKeyReferences(key, file.path)) this.wheelWidthCache.delete(key);
+        }
+    }
+
     private setWheelWidthCache(key: string, width: number) {
         this.wheelWidthCache.set(key, width);
         if (this.wheelWidthCache.size <= EventService.WHEEL_WIDTH_CACHE_MAX_ENTRIES) return;
@@ -206,7 +340,7 @@ export class EventService {
         if (oldestKey) this.wheelWidthCache.delete(oldestKey);
     }
 
-    private parseWidthFromImageAlt(img: HTMLImageElement): number | null {
+    private parseWidthFromImageAlt(img: HTMLElement): number | null {
         const alt = img.getAttribute('alt') ?? '';
         if (!alt) return null;
         const parts = alt
@@ -219,7 +353,9 @@ export class EventService {
     private scheduleWheelWidthFlush(cacheKey: string, activeFile: TFile, target: WheelImageTarget) {
         this.wheelTargets.set(cacheKey, { activeFile, target });
 
-        // Debounce frequent wheel events into fewer markdown writes.
+        // Debounce wheel events so a whole gesture is written once. Each write is one undo step in the
+        // note's editor, so the gesture ends when scrolling pauses or the modifier key is released.
+        // The inline width applied on every tick keeps the image responsive until then.
         const existingDebounce = this.wheelDebounceTimers.get(cacheKey);
         if (existingDebounce) window.clearTimeout(existingDebounce);
 
@@ -228,18 +364,10 @@ export class EventService {
             this.flushWheelPendingWidth(cacheKey);
         }, EventService.WHEEL_WRITE_DEBOUNCE_MS);
         this.wheelDebounceTimers.set(cacheKey, debounceTimer);
-
-        // During continuous scrolling, still persist occasionally (at most once per max-wait window).
-        if (!this.wheelMaxWaitTimers.has(cacheKey)) {
-            const maxWaitTimer = window.setTimeout(() => {
-                this.wheelMaxWaitTimers.delete(cacheKey);
-                this.flushWheelPendingWidth(cacheKey);
-            }, EventService.WHEEL_WRITE_MAX_WAIT_MS);
-            this.wheelMaxWaitTimers.set(cacheKey, maxWaitTimer);
-        }
     }
 
     private flushWheelPendingWidth(cacheKey: string) {
+        this.wheelGestureTargets = new WeakMap();
         const tracked = this.wheelTargets.get(cacheKey);
         if (!tracked) {
             this.wheelPendingWidth.delete(cacheKey);
@@ -255,7 +383,9 @@ export class EventService {
                 if (pendingWidth === undefined) return;
 
                 if (target.kind === 'local') {
-                    await this.plugin.imageService.updateImageLinkWidth(target.imgFile, pendingWidth, activeFile);
+                    await this.plugin.imageService.updateImageLinkWidth(target.imgFile, pendingWidth, activeFile, target.occurrence);
+                } else if (target.kind === 'canvas') {
+                    await this.plugin.canvasService.setImageWidth(target.image, pendingWidth);
                 } else {
                     await this.plugin.imageService.updateExternalImageLinkWidth(activeFile, target.url, pendingWidth);
                 }
@@ -268,19 +398,14 @@ export class EventService {
             .catch(error => {
                 // Never throw on a queued write; avoid unhandled rejections and keep wheel interactions responsive.
                 errorLog('Wheel resize write failed:', error);
+                if (isUserVisibleError(error)) new Notice(error.message);
             })
             .finally(() => {
                 if (this.wheelWriteQueue.get(cacheKey) === writeTask) {
                     this.wheelWriteQueue.delete(cacheKey);
                 }
 
-                // Reset max-wait window after a flush. If something changed while writing, ensure we flush again.
-                const maxWaitTimer = this.wheelMaxWaitTimers.get(cacheKey);
-                if (maxWaitTimer) {
-                    window.clearTimeout(maxWaitTimer);
-                    this.wheelMaxWaitTimers.delete(cacheKey);
-                }
-
+                // If something changed while writing, ensure we flush again.
                 if (this.wheelPendingWidth.has(cacheKey)) {
                     this.scheduleWheelWidthFlush(cacheKey, activeFile, target);
                 } else {
@@ -302,10 +427,6 @@ export class EventService {
             if (debounceTimer) window.clearTimeout(debounceTimer);
             this.wheelDebounceTimers.delete(cacheKey);
 
-            const maxWaitTimer = this.wheelMaxWaitTimers.get(cacheKey);
-            if (maxWaitTimer) window.clearTimeout(maxWaitTimer);
-            this.wheelMaxWaitTimers.delete(cacheKey);
-
             this.flushWheelPendingWidth(cacheKey);
         }
     }
@@ -323,7 +444,7 @@ export class EventService {
         this.wheelDomTargets.delete(cacheKey);
     }
 
-    async handleImageWheel(evt: WheelEvent, domTarget: HTMLImageElement, activeFile: TFile, target: WheelImageTarget) {
+    async handleImageWheel(evt: WheelEvent, domTarget: HTMLElement, activeFile: TFile, target: WheelImageTarget) {
         if (!this.plugin.settings.enableWheelZoom) return;
         const cacheKey = this.getWheelWidthCacheKey(activeFile, target);
 
@@ -332,20 +453,6 @@ export class EventService {
         const queued = (this.wheelComputeQueue.get(cacheKey) ?? Promise.resolve())
             .catch(() => undefined)
             .then(async () => {
-                let width: number;
-                try {
-                    // Prefer DOM naturalWidth when available (avoids async vault reads on hot path).
-                    if (domTarget.naturalWidth > 0) {
-                        width = domTarget.naturalWidth;
-                    } else if (target.kind === 'local') {
-                        width = (await this.plugin.imageService.readImageDimensions(target.imgFile)).width;
-                    } else {
-                        width = DEFAULT_EXTERNAL_IMAGE_FALLBACK_WIDTH_PX;
-                    }
-                } catch {
-                    return;
-                }
-
                 const altWidth = this.parseWidthFromImageAlt(domTarget);
                 const cachedWidth = this.wheelWidthCache.get(cacheKey);
                 const pendingWidth = this.wheelPendingWidth.get(cacheKey);
@@ -358,13 +465,7 @@ export class EventService {
                 // 3) Use our last applied value
                 // 4) Fallback to scanning editor text (slow; should happen rarely)
                 const customWidth =
-                    altWidth !== null
-                        ? altWidth
-                        : (pendingWidth ??
-                          cachedWidth ??
-                          (target.kind === 'local'
-                              ? this.plugin.imageService.getCurrentImageWidth(activeFile, target.imgFile)
-                              : this.plugin.imageService.getCurrentExternalImageWidth(activeFile, target.url)));
+                    altWidth !== null ? altWidth : (pendingWidth ?? cachedWidth ?? (await this.getCurrentTargetWidth(activeFile, target)));
 
                 if (altWidth !== null) {
                     this.setWheelWidthCache(cacheKey, altWidth);
@@ -375,8 +476,31 @@ export class EventService {
                     this.setWheelWidthCache(cacheKey, customWidth);
                 }
 
-                // Use the custom width if set, otherwise use original width
-                const currentWidth = customWidth ?? width;
+                // Use the custom width if set, otherwise use original width. Only then is the original
+                // width read, so media files aren't read on every tick.
+                let currentWidth: number;
+                if (customWidth !== null) {
+                    currentWidth = customWidth;
+                } else {
+                    try {
+                        // Prefer DOM naturalWidth when available (avoids async vault reads on hot path).
+                        if (domTarget.instanceOf(HTMLImageElement) && domTarget.naturalWidth > 0) {
+                            currentWidth = domTarget.naturalWidth;
+                        } else if (!domTarget.instanceOf(HTMLImageElement) && target.kind === 'local') {
+                            // Media without a known intrinsic size grows from the size it's shown at
+                            const dimensions = await this.plugin.imageService.readMediaDimensions(target.imgFile, domTarget);
+                            currentWidth = dimensions?.width ?? domTarget.clientWidth;
+                        } else if (target.kind === 'local') {
+                            currentWidth = (await this.plugin.imageService.readImageDimensions(target.imgFile)).width;
+                        } else if (target.kind === 'canvas') {
+                            currentWidth = (await this.plugin.imageService.readImageDimensions(target.image.imageFile)).width;
+                        } else {
+                            currentWidth = DEFAULT_EXTERNAL_IMAGE_FALLBACK_WIDTH_PX;
+                        }
+                    } catch {
+                        return;
+                    }
+                }
 
                 // Calculate scale factor based on delta magnitude (smaller deltas = smaller changes)
                 const deltaScale = Math.min(1.0, Math.abs(deltaY) / 10);
@@ -391,17 +515,7 @@ export class EventService {
 
                 // Only update if the width has actually changed
                 if (newWidth !== currentWidth) {
-                    // Give immediate visual feedback while the markdown link update is debounced/queued.
-                    domTarget.style.width = `${newWidth}px`;
-                    domTarget.dataset.ppiWheelInlineWidth = 'true';
-                    domTarget.removeAttribute('height');
-                    domTarget.setAttribute('width', String(newWidth));
-                    this.wheelDomTargets.set(cacheKey, domTarget);
-
-                    this.setWheelWidthCache(cacheKey, newWidth);
-                    this.wheelPendingWidth.set(cacheKey, newWidth);
-                    // Schedule a debounced write to persist the new width in the markdown image link.
-                    this.scheduleWheelWidthFlush(cacheKey, activeFile, target);
+                    this.queueImageWidth(cacheKey, domTarget, activeFile, target, newWidth);
                 }
             });
 
@@ -415,6 +529,72 @@ export class EventService {
         }
     }
 
+    /** Reads the width an image is written with, from its link or from its canvas node. */
+    private async getCurrentTargetWidth(activeFile: TFile, target: WheelImageTarget): Promise<number | null> {
+        if (target.kind === 'local') {
+            return this.plugin.imageService.getCurrentImageWidth(activeFile, target.imgFile, target.occurrence);
+        }
+        if (target.kind === 'canvas') {
+            return this.plugin.canvasService.getImageWidth(target.image);
+        }
+        return this.plugin.imageService.getCurrentExternalImageWidth(activeFile, target.url);
+    }
+
+    /**
+     * Shows a new width inline and queues the debounced write that persists it in the image link.
+     */
+    private queueImageWidth(cacheKey: string, domTarget: HTMLElement, activeFile: TFile, target: WheelImageTarget, width: number) {
+        if (target.kind === 'canvas' && target.image.nodeType === 'file') {
+            // The open canvas resizes the node at once and saves it itself, so the width is written
+            // without a debounce; an inline width would only overflow the node.
+            this.setWheelWidthCache(cacheKey, width);
+            this.wheelPendingWidth.set(cacheKey, width);
+            this.wheelTargets.set(cacheKey, { activeFile, target });
+            this.flushWheelPendingWidth(cacheKey);
+            return;
+        }
+
+        // Give immediate visual feedback while the markdown link update is debounced/queued.
+        // A video is sized by its own width attribute rather than by its embed container.
+        const sizedElement = domTarget.instanceOf(HTMLImageElement) ? domTarget : (domTarget.querySelector('video') ?? domTarget);
+        sizedElement.style.width = `${width}px`;
+        sizedElement.dataset.ppiWheelInlineWidth = 'true';
+        sizedElement.removeAttribute('height');
+        sizedElement.setAttribute('width', String(width));
+        this.wheelDomTargets.set(cacheKey, sizedElement);
+
+        this.setWheelWidthCache(cacheKey, width);
+        this.wheelPendingWidth.set(cacheKey, width);
+        // Schedule a debounced write to persist the new width in the markdown image link.
+        this.scheduleWheelWidthFlush(cacheKey, activeFile, target);
+    }
+
+    /**
+     * Widths drag handles snap to: the configured resize options and the intrinsic size.
+     */
+    private getDragSnapWidths(img: HTMLImageElement): number[] {
+        const naturalWidth = img.naturalWidth;
+        const widths = naturalWidth > 0 ? [naturalWidth] : [];
+        for (const sizeStr of this.plugin.settings.customResizeSizes) {
+            const parsed = parseResizeSize(sizeStr);
+            if (!parsed) continue;
+            if (parsed.unit === 'px') {
+                widths.push(parsed.amount);
+            } else if (naturalWidth > 0) {
+                widths.push(Math.round((naturalWidth * parsed.amount) / 100));
+            }
+        }
+        return widths;
+    }
+
+    private handleDragResizeEnd(img: HTMLImageElement, width: number) {
+        const resolved = this.resolveWheelImageTarget(img);
+        if (!resolved) return;
+
+        const { activeFile, target } = resolved;
+        this.queueImageWidth(this.getWheelWidthCacheKey(activeFile, target), img, activeFile, target, width);
+    }
+
     /**
      * Handles click events on images, performing the configured action when CMD/CTRL is pressed
      */
@@ -478,6 +658,25 @@ export class EventService {
                 this.unregisterWindowEvents(currentWindow);
             })
         );
+
+        // Keep cached image data in step with the vault when images are edited, moved, or removed.
+        this.plugin.registerEvent(
+            this.plugin.app.vault.on('modify', file => {
+                if (!(file instanceof TFile)) return;
+                this.plugin.imageService.evictDimensionCache(file.path);
+                this.plugin.dimensionIndexService.handleFileChange(file);
+            })
+        );
+        // The vault reports every existing file as created while it loads
+        this.plugin.app.workspace.onLayoutReady(() => {
+            this.plugin.registerEvent(
+                this.plugin.app.vault.on('create', file => {
+                    if (file instanceof TFile) this.plugin.dimensionIndexService.handleFileChange(file);
+                })
+            );
+        });
+        this.plugin.registerEvent(this.plugin.app.vault.on('rename', (file, oldPath) => this.handleFileRename(file, oldPath)));
+        this.plugin.registerEvent(this.plugin.app.vault.on('delete', file => this.handleFileDelete(file)));
     }
 
     // Cleanup method
@@ -487,9 +686,7 @@ export class EventService {
         this.wheelWidthCache.clear();
         this.wheelPendingWidth.clear();
         for (const timer of this.wheelDebounceTimers.values()) window.clearTimeout(timer);
-        for (const timer of this.wheelMaxWaitTimers.values()) window.clearTimeout(timer);
         this.wheelDebounceTimers.clear();
-        this.wheelMaxWaitTimers.clear();
         this.wheelTargets.clear();
         for (const cacheKey of this.wheelDomTargets.keys()) {
             this.clearWheelInlineWidth(cacheKey);
@@ -0,0 +1,222 @@
+import { findImageElement } from '../utils/utils';
+
+type HandlePosition = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w';
+
+const HANDLE_POSITIONS: readonly HandlePosition[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+
+interface DragState {
+    img: HTMLImageElement;
+    position: HandlePosition;
+    pointerId: number;
+    startX: number;
+    startY: number;
+    startWidth: number;
+    /** Rendered height divided by width at the start of the drag */
+    aspectRatio: number;
+    /** Inline width the image had before the drag, restored when the drag is cancelled */
+    previousInlineWidth: string;
+    width: number;
+}
+
+interface ImageResizeHandlesOptions {
+    /** Whether handles should be shown for an image */
+    canResize(img: HTMLImageElement): boolean;
+    /** Intrinsic width of an image, used for the percentage in the tooltip */
+    getNaturalWidth(img: HTMLImageElement): number | null;
+    /** Widths the drag snaps to */
+    getSnapWidths(img: HTMLImageElement): number[];
+    /** Called once when a drag ends with a new width */
+    onResizeEnd(img: HTMLImageElement, width: number): void;
+}
+
+/**
+ * Grab handles shown over the hovered image in one window. Dragging a handle previews the new
+ * width inline and reports the final width when the pointer is released.
+ */
+export class ImageResizeHandles {
+    private static readonly SNAP_DISTANCE_PX = 8;
+    private static readonly MIN_WIDTH_PX = 16;
+
+    private readonly options: ImageResizeHandlesOptions;
+    private readonly overlayEl: HTMLElement;
+    private readonly tooltipEl: HTMLElement;
+    private hoveredImg: HTMLImageElement | null = null;
+    private drag: DragState | null = null;
+    private readonly cleanups: (() => void)[] = [];
+
+    constructor(win: Window, options: ImageResizeHandlesOptions) {
+        this.options = options;
+
+        const doc = win.document;
+        this.overlayEl = doc.body.createDiv({ cls: 'pixel-perfect-resize-overlay' });
+        this.overlayEl.hide();
+        for (const position of HANDLE_POSITIONS) {
+            const handleEl = this.overlayEl.createDiv({ cls: `pixel-perfect-resize-handle is-${position}` });
+            this.listen(handleEl, 'pointerdown', evt => this.startDrag(evt, position));
+        }
+        this.tooltipEl = this.overlayEl.createDiv({ cls: 'pixel-perfect-resize-tooltip' });
+
+        this.listen(doc, 'pointerover', evt => this.handlePointerOver(evt));
+        this.listen(doc, 'pointerout', evt => this.handlePointerOut(evt));
+        this.listen(doc, 'pointermove', evt => this.handlePointerMove(evt));
+        this.listen(doc, 'pointerup', evt => this.endDrag(evt));
+        this.listen(doc, 'pointercancel', () => this.cancelDrag());
+        this.listen(doc, 'keydown', evt => {
+            if (evt.key === 'Escape' && this.drag) {
+                evt.preventDefault();
+                this.cancelDrag();
+            }
+        });
+        // Scrolled images move away from the overlay; keep it attached while dragging, otherwise hide it
+        this.listen(doc, 'scroll', () => (this.drag ? this.updatePosition() : this.hide()), { capture: true });
+    }
+
+    private listen<K extends keyof DocumentEventMap>(
+        target: Document | HTMLElement,
+        type: K,
+        handler: (evt: DocumentEventMap[K]) => void,
+        options?: AddEventListenerOptions
+    ) {
+        const listener = handler as EventListener;
+        target.addEventListener(type, listener, options);
+        this.cleanups.push(() => target.removeEventListener(type, listener, options));
+    }
+
+    private handlePointerOver(evt: PointerEvent) {
+        if (this.drag || evt.pointerType === 'touch') return;
+
+        const img = findImageElement(evt.target);
+        if (!img || img === this.hoveredImg) return;
+        if (!this.options.canResize(img)) return;
+
+        this.hoveredImg = img;
+        this.overlayEl.show();
+        this.updatePosition();
+        this.updateTooltip(img.getBoundingClientRect().width);
+    }
+
+    private handlePointerOut(evt: PointerEvent) {
+        if (this.drag || !this.hoveredImg) return;
+
+        // Moving between the image and its handles keeps the overlay
+        const next = evt.relatedTarget instanceof Node ? evt.relatedTarget : null;
+        if (next && (next === this.hoveredImg || this.overlayEl.contains(next))) return;
+        this.hide();
+    }
+
+    private hide() {
+        this.hoveredImg = null;
+        this.overlayEl.hide();
+    }
+
+    private updatePosition() {
+        const img = this.drag?.img ?? this.hoveredImg;
+        if (!img) return;
+
+        const rect = img.getBoundingClientRect();
+        this.overlayEl.setCssStyles({
+            left: `${rect.left}px`,
+            top: `${rect.top}px`,
+            width: `${rect.width}px`,
+            height: `${rect.height}px`
+        });
+    }
+
+    private updateTooltip(width: number) {
+        const img = this.drag?.img ?? this.hoveredImg;
+        const naturalWidth = img ? this.options.getNaturalWidth(img) : null;
+        const roundedWidth = Math.round(width);
+        this.tooltipEl.setText(
+            naturalWidth ? `${roundedWidth} px · ${Math.round((roundedWidth / naturalWidth) * 100)}%` : `${roundedWidth} px`
+        );
+    }
+
+    private startDrag(evt: PointerEvent, position: HandlePosition) {
+        const img = this.hoveredImg;
+        if (!img || evt.button !== 0) return;
+
+        evt.preventDefault();
+        evt.stopPropagation();
+
+        const rect = img.getBoundingClientRect();
+        this.drag = {
+            img,
+            position,
+            pointerId: evt.pointerId,
+            startX: evt.clientX,
+            startY: evt.clientY,
+            startWidth: rect.width,
+            aspectRatio: rect.width > 0 ? rect.height / rect.width : 1,
+            previousInlineWidth: img.style.width,
+            width: Math.round(rect.width)
+        };
+        this.overlayEl.addClass('is-dragging');
+        (evt.target as HTMLElement).setPointerCapture(evt.pointerId);
+    }
+
+    private handlePointerMove(evt: PointerEvent) {
+        const drag = this.drag;
+        if (!drag || evt.pointerId !== drag.pointerId) return;
+
+        // Side handles follow the horizontal movement, top and bottom handles the vertical one,
+        // converted to a width through the aspect ratio. Corners follow the horizontal movement.
+        const { position } = drag;
+        const horizontal = position.includes('e') ? 1 : position.includes('w') ? -1 : 0;
+        const delta =
+            horizontal !== 0
+                ? horizontal * (evt.clientX - drag.startX)
+                : ((position === 's' ? 1 : -1) * (evt.clientY - drag.startY)) / drag.aspectRatio;
+
+        const width = this.snapWidth(drag.img, Math.max(ImageResizeHandles.MIN_WIDTH_PX, drag.startWidth + delta));
+        drag.width = width;
+
+        drag.img.style.width = `${width}px`;
+        this.updatePosition();
+        this.updateTooltip(width);
+    }
+
+    private snapWidth(img: HTMLImageElement, width: number): number {
+        let snapped = Math.round(width);
+        let closestDistance = ImageResizeHandles.SNAP_DISTANCE_PX + 1;
+        for (const snapWidth of this.options.getSnapWidths(img)) {
+            const distance = Math.abs(snapWidth - width);
+            if (distance <= ImageResizeHandles.SNAP_DISTANCE_PX && distance < closestDistance) {
+                snapped = Math.round(snapWidth);
+                closestDistance = distance;
+            }
+        }
+        return snapped;
+    }
+
+    private endDrag(evt: PointerEvent) {
+        const drag = this.drag;
+        if (!drag || evt.pointerId !== drag.pointerId) return;
+
+        this.drag = null;
+        this.overlayEl.removeClass('is-dragging');
+        if (drag.width !== Math.round(drag.startWidth)) {
+            this.options.onResizeEnd(drag.img, drag.width);
+        } else {
+            drag.img.style.width = drag.previousInlineWidth;
+        }
+        this.updatePosition();
+    }
+
+    private cancelDrag() {
+        const drag = this.drag;
+        if (!drag) return;
+
+        this.drag = null;
+        this.overlayEl.removeClass('is-dragging');
+        drag.img.style.width = drag.previousInlineWidth;
+        this.updatePosition();
+        this.updateTooltip(drag.img.getBoundingClientRect().width);
+    }
+
+    destroy() {
+        this.cancelDrag();
+        for (const cleanup of this.cleanups) cleanup();
+        this.cleanups.length = 0;
+        this.overlayEl.remove();
+    }
+}
@@ -9,6 +9,7 @@ export const STRINGS_DE = {
         copyImage: 'Bild kopieren',
         copyLocalPath: 'Lokalen Pfad kopieren',
         resizeTo: 'Größe ändern auf {size}',
+        resizeToCustom: 'Größe ändern auf…',
         removeCustomSize: 'Benutzerdefinierte Größe entfernen',
         showInFinder: 'Show in Finder',
         showInExplorer: 'Im Explorer anzeigen',
@@ -17,7 +18,38 @@ export const STRINGS_DE = {
         openInNewTab: 'In neuem Tab öffnen',
         openToTheRight: 'Nach rechts öffnen',
         openInNewWindow: 'In neuem Fenster öffnen',
-        openInDefaultApp: 'In Standard-App öffnen'
+        openInDefaultApp: 'In Standard-App öffnen',
+        rotatedByMetadata: 'durch Metadaten gedreht',
+        setWidthAndHeight: 'Breite × Höhe festlegen…',
+        keepWidthAndHeight: 'Breite × Höhe beibehalten',
+        resizeAllImages: 'Alle Bilder skalieren…',
+        resizeImagesInFolder: 'Bilder im Ordner skalieren…',
+        applySizeInAllNotes: 'Diese Größe in allen Notizen anwenden',
+        resetToOriginalSize: 'Auf Originalgröße zurücksetzen',
+        crop: 'Zuschneiden…',
+        rotateLeft: '90° nach links drehen',
+        rotateRight: '90° nach rechts drehen',
+        rotate180: '180° drehen',
+        flipHorizontal: 'Horizontal spiegeln',
+        flipVertical: 'Vertikal spiegeln',
+        shrinkToDisplayedSize: 'Datei auf angezeigte Größe verkleinern',
+        shrinkTo: 'Datei verkleinern auf…',
+        convertTo: 'Konvertieren in',
+        convertToFormat: 'In {format} konvertieren…'
+    },
+
+    // Command palette commands
+    commands: {
+        resizeToPreset: 'Bild am Cursor auf Voreinstellung {n} skalieren',
+        increaseWidth: 'Breite des Bildes am Cursor vergrößern',
+        decreaseWidth: 'Breite des Bildes am Cursor verkleinern',
+        resetSize: 'Größe des Bildes am Cursor zurücksetzen',
+        copyImage: 'Bild am Cursor kopieren',
+        renameImage: 'Bild am Cursor umbenennen',
+        deleteImage: 'Bild am Cursor löschen',
+        resizeAllImages: 'Alle Bilder in der aktuellen Notiz skalieren',
+        bulkResize: 'Bilder in Tresor, Ordner oder Tag skalieren…',
+        shrinkImagesInVault: 'Bilder im Tresor auf ihre angezeigte Größe verkleinern…'
     },
 
     // Notice messages
@@ -28,8 +60,10 @@ export const STRINGS_DE = {
         filePathCopied: 'Dateipfad in Zwischenablage kopiert',
         customSizeRemoved: 'Benutzerdefinierte Größe vom Bild entfernt',
         imageRenamed: 'Bild erfolgreich umbenannt',
-        imageAndLinksDeleted: 'Bild und Links erfolgreich gelöscht',
+        imageAndLinksDeleted: 'Bild gelöscht und Links aus {count} Notizen entfernt',
         imageDeleted: 'Bild erfolgreich gelöscht',
+        imageRestored: 'Bild und Links wiederhergestellt',
+        imageRestoredPartially: 'Bild wiederhergestellt; {count} Notizen wurden seitdem bearbeitet und ihre Links nicht wieder eingefügt',
 
         // Error messages
         couldNotReadDimensions: 'Bildabmessungen konnten nicht gelesen werden',
@@ -39,8 +73,31 @@ export const STRINGS_DE = {
         couldNotLocateImage: 'Bilddatei konnte nicht gefunden werden',
         failedToRename: 'Umbenennen des Bildes fehlgeschlagen',
         failedToDelete: 'Löschen von Bild und Links fehlgeschlagen',
+        failedToUndoDelete: 'Löschen konnte nicht rückgängig gemacht werden',
+        undo: 'Rückgängig',
         clickInEditorFirst: 'Bitte klicken Sie zuerst in den Editor und versuchen Sie dann erneut zu kopieren',
         failedToResize: 'Größenänderung des Bildes fehlgeschlagen',
+        imageLinkMoved: 'Der Bildlink hat sich seit dem Klick geändert; bitte erneut versuchen',
+        failedToSetSize: 'Bildgröße konnte nicht festgelegt werden',
+        noteImagesResized: '{changed} von {total} Bildlinks aktualisiert',
+        noImagesInNote: 'Keine Bilder in dieser Notiz',
+        failedToResizeAllImages: 'Bilder in der Notiz konnten nicht skaliert werden',
+        failedToBulkResize: 'Bilder konnten nicht skaliert werden',
+        sizeAppliedInNotes: '{size} in {count} Notizen angewendet',
+        sizeAppliedWithFailures: '{size} in {count} Notizen angewendet; {failed} Notizen konnten nicht aktualisiert werden',
+        failedToApplySize: 'Größe konnte nicht in allen Notizen angewendet werden',
+        imageCropped: 'Bild zugeschnitten',
+        croppedCopyCreated: 'Zugeschnittenes Bild als {name} gespeichert',
+        failedToCrop: 'Zuschneiden des Bildes fehlgeschlagen',
+        imageRotated: 'Bild gedreht',
+        imageFlipped: 'Bild gespiegelt',
+        failedToTransform: 'Drehen oder Spiegeln des Bildes fehlgeschlagen',
+        imageShrunk: 'Bild von {before} auf {after} verkleinert',
+        imageAlreadySmaller: 'Das Bild ist bereits {width} px breit',
+        failedToShrink: 'Verkleinern des Bildes fehlgeschlagen',
+        imageConverted: 'In {name} konvertiert: {before} → {after}, {difference} gespart',
+        imageConvertedLarger: 'In {name} konvertiert: {before} → {after}, {difference} größer',
+        failedToConvert: 'Konvertieren des Bildes fehlgeschlagen',
         failedToPerformAction: '{action} fehlgeschlagen',
         imageTooLargeToCopy: 'Bild ist zu groß, um in die Zwischenablage kopiert zu werden',
         fetchingLocalNetworkImage: 'Bild wird von einer lokalen Netzwerkadresse abgerufen',
@@ -137,6 +194,22 @@ export const STRINGS_DE = {
             confirmDelete: {
                 name: 'Vor dem Löschen bestätigen',
                 desc: 'Bestätigungsdialog vor dem Löschen von Dateien anzeigen'
+            },
+            backgroundIndexing: {
+                name: 'Bildabmessungen im Hintergrund indexieren',
+                desc: 'Abmessungen aller Bilder im Tresor lesen, während Obsidian im Leerlauf ist, damit Menüs und Größenänderungen die Dateien nicht lesen müssen'
+            },
+            keepWidthAndHeight: {
+                name: 'Breite × Höhe beibehalten',
+                desc: 'Beim Ändern der Größe eines Bildes mit Breite × Höhe (z. B. 640x360) beide beibehalten und die Höhe aus dem Seitenverhältnis neu berechnen'
+            },
+            dragHandles: {
+                name: 'Ziehpunkte',
+                desc: 'Ziehpunkte an Bildern unter dem Mauszeiger in Live-Vorschau und Leseansicht anzeigen. Zum Ändern der Größe einen Ziehpunkt ziehen; Breiten rasten an den Größenoptionen und bei 100 % ein'
+            },
+            keepImageMetadata: {
+                name: 'Metadaten beim Verkleinern behalten',
+                desc: 'EXIF-Daten, Farbprofil und weitere Metadaten eines JPEGs in die verkleinerte Datei übernehmen. Andere Formate werden ohne Metadaten gespeichert'
             }
         }
     },
@@ -151,8 +224,131 @@ export const STRINGS_DE = {
         delete: {
             title: 'Bild löschen',
             confirmMessage: 'Möchten Sie "{filename}" wirklich löschen?',
-            warningMessage: 'Dies löscht sowohl die Bilddatei als auch alle Links dazu im aktuellen Dokument.',
+            warningMessage: 'Dies löscht die Bilddatei und entfernt ihre Einbettungen aus den Notizen, die sie verwenden.',
+            usedInNotes: 'Es wird in {count} Notizen verwendet:',
+            linkedFrom:
+                'Außerdem wird aus {count} Notizen oder Canvases darauf verlinkt. Diese Links werden nicht entfernt und funktionieren danach nicht mehr:',
+            otherNotesWarning:
+                '{count} andere Notizen verwenden dieses Bild noch. Wird es nur aus dieser Notiz entfernt, bleiben dort defekte Links zurück.',
             deleteButton: 'Löschen',
+            deleteEverywhereButton: 'Überall löschen',
+            deleteInThisNoteButton: 'Nur in dieser Notiz',
+            cancelButton: 'Abbrechen'
+        },
+        setSize: {
+            title: 'Breite × Höhe festlegen',
+            width: 'Breite',
+            height: 'Höhe',
+            lockAspectRatio: 'Seitenverhältnis sperren',
+            setButton: 'Festlegen',
+            cancelButton: 'Abbrechen'
+        },
+        resize: {
+            title: 'Bildgröße ändern',
+            amount: 'Größe',
+            units: {
+                px: 'Pixel (Breite)',
+                percent: '% des Originals',
+                lineWidth: '% der Zeilenbreite',
+                height: 'Pixel (Höhe)'
+            },
+            result: '{width} × {height} px ({scale} %)',
+            resultWidthOnly: '{width} px breit',
+            invalidSize: 'Positive Größe eingeben',
+            resizeButton: 'Größe ändern',
+            cancelButton: 'Abbrechen'
+        },
+        resizeAll: {
+            title: 'Alle Bilder skalieren',
+            rule: 'Regel',
+            rules: {
+                fit: 'Auf maximale Breite einpassen (px)',
+                percent: 'Prozent der Originalgröße',
+                clear: 'Benutzerdefinierte Größen entfernen'
+            },
+            amount: 'Wert',
+            applyButton: 'Anwenden',
+            cancelButton: 'Abbrechen'
+        },
+        bulkResize: {
+            title: 'Bilder gesammelt skalieren',
+            scope: 'Bereich',
+            scopes: {
+                vault: 'Gesamter Tresor',
+                folder: 'Ordner',
+                tag: 'Tag'
+            },
+            folderPlaceholder: 'Ordnerpfad',
+            tagPlaceholder: '#tag',
+            previewButton: 'Änderungen anzeigen',
+            cancelButton: 'Abbrechen',
+            reviewTitle: 'Änderungen prüfen',
+            scanning: 'Notizen werden durchsucht… {done}/{total}',
+            noChanges: 'Keine Bildlinks würden sich ändern',
+            summary: '{links} Links in {notes} Notizen werden geändert',
+            moreChanges: '…und {count} weitere',
+            originalSize: 'Original',
+            applyButton: 'Änderungen anwenden',
+            stopButton: 'Stoppen',
+            closeButton: 'Schließen',
+            updating: 'Notizen werden aktualisiert… {done}/{total}',
+            report: '{links} Links in {notes} Notizen aktualisiert',
+            reportCancelled: 'Gestoppt, bevor alle Notizen aktualisiert wurden',
+            reportFailed: '{count} Notizen konnten nicht aktualisiert werden'
+        },
+        applySize: {
+            title: 'Größe in allen Notizen anwenden',
+            message: 'Alle Einbettungen von „{filename}“ in diesen {count} Notizen auf {size} setzen:',
+            applyButton: 'Anwenden',
+            cancelButton: 'Abbrechen'
+        },
+        crop: {
+            title: 'Bild zuschneiden',
+            aspect: 'Seitenverhältnis',
+            aspectFree: 'Frei',
+            aspectOriginal: 'Original',
+            x: 'X',
+            y: 'Y',
+            width: 'Breite',
+            height: 'Höhe',
+            saveAsCopy: 'Als neue Datei speichern',
+            cropButton: 'Zuschneiden',
+            cancelButton: 'Abbrechen'
+        },
+        shrink: {
+            title: 'Bilddatei verkleinern',
+            message: '„{filename}“ durch eine neu berechnete, kleinere Datei ersetzen?',
+            before: 'Vorher',
+            after: 'Nachher',
+            fileSize: '{width} × {height} px, {size}',
+            notSmaller: 'Die neue Datei ist nicht kleiner als die aktuelle.',
+            shrinkButton: 'Verkleinern',
+            cancelButton: 'Abbrechen',
+            resizeTitle: 'Bilddatei verkleinern auf',
+            reviewTitle: 'Bilder auf ihre angezeigte Größe verkleinern',
+            scanning: 'Notizen werden durchsucht… {done}/{total}',
+            noImages: 'Kein Bild ist breiter, als die Notizen es anzeigen',
+            summary: '{count} Bilder sind breiter, als die Notizen sie anzeigen ({size} insgesamt)',
+            moreImages: '…und {count} weitere',
+            shrinkAllButton: 'Bilder verkleinern',
+            stopButton: 'Stopp',
+            closeButton: 'Schließen',
+            shrinking: 'Bilder werden verkleinert… {done}/{total}',
+            report: '{count} Bilder von {before} auf {after} verkleinert',
+            reportNotSmaller: '{count} Bilder wären nicht kleiner geworden und wurden beibehalten',
+            reportCancelled: 'Angehalten, bevor alle Bilder verkleinert wurden',
+            reportFailed: '{count} Bilder konnten nicht verkleinert werden'
+        },
+        convert: {
+            title: '{filename} in {format} konvertieren',
+            current: 'Aktuelle Größe: {size}',
+            quality: 'Qualität',
+            projected: 'Voraussichtliche Größe: {size}, {saved} gespart ({percent} %)',
+            projectedLarger: 'Voraussichtliche Größe: {size}, {increase} größer als jetzt',
+            estimating: 'Größe wird geschätzt…',
+            estimateFailed: 'Die Größe konnte nicht geschätzt werden',
+            trashOriginal: 'Original in den Papierkorb verschieben',
+            convertButton: 'Konvertieren',
             cancelButton: 'Abbrechen'
         }
     },
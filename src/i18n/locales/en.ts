@@ -9,6 +9,7 @@ export const STRINGS_EN = {
         copyImage: 'Copy image',
         copyLocalPath: 'Copy local path',
         resizeTo: 'Resize to {size}',
+        resizeToCustom: 'Resize to…',
         removeCustomSize: 'Remove custom size',
         showInFinder: 'Show in Finder',
         showInExplorer: 'Show in Explorer',
@@ -17,7 +18,38 @@ export const STRINGS_EN = {
         openInNewTab: 'Open in new tab',
         openToTheRight: 'Open to the right',
         openInNewWindow: 'Open in new window',
-        openInDefaultApp: 'Open in default app'
+        openInDefaultApp: 'Open in default app',
+        rotatedByMetadata: 'rotated by metadata',
+        setWidthAndHeight: 'Set width × height…',
+        keepWidthAndHeight: 'Keep width × height',
+        resizeAllImages: 'Resize all images…',
+        resizeImagesInFolder: 'Resize images in folder…',
+        applySizeInAllNotes: 'Apply this size in all notes',
+        resetToOriginalSize: 'Reset to original size',
+        crop: 'Crop…',
+        rotateLeft: 'Rotate 90° left',
+        rotateRight: 'Rotate 90° right',
+        rotate180: 'Rotate 180°',
+        flipHorizontal: 'Flip horizontal',
+        flipVertical: 'Flip vertical',
+        shrinkToDisplayedSize: 'Shrink file to displayed size',
+        shrinkTo: 'Shrink file to…',
+        convertTo: 'Convert to',
+        convertToFormat: 'Convert to {format}…'
+    },
+
+    // Command palette commands
+    commands: {
+        resizeToPreset: 'Resize image at cursor to preset {n}',
+        increaseWidth: 'Increase width of image at cursor',
+        decreaseWidth: 'Decrease width of image at cursor',
+        resetSize: 'Reset size of image at cursor',
+        copyImage: 'Copy image at cursor',
+        renameImage: 'Rename image at cursor',
+        deleteImage: 'Delete image at cursor',
+        resizeAllImages: 'Resize all images in current note',
+        bulkResize: 'Resize images in vault, folder or tag…',
+        shrinkImagesInVault: 'Shrink images in vault to their displayed size…'
     },
 
     // Notice messages
@@ -28,8 +60,10 @@ export const STRINGS_EN = {
         filePathCopied: 'File path copied to clipboard',
         customSizeRemoved: 'Removed custom size from image',
         imageRenamed: 'Image renamed successfully',
-        imageAndLinksDeleted: 'Image and links deleted successfully',
+        imageAndLinksDeleted: 'Image deleted and links removed from {count} notes',
         imageDeleted: 'Image deleted successfully',
+        imageRestored: 'Image and links restored',
+        imageRestoredPartially: 'Image restored; {count} notes were edited since and their links were not put back',
 
         // Error messages
         couldNotReadDimensions: 'Could not read image dimensions',
@@ -39,8 +73,31 @@ export const STRINGS_EN = {
         couldNotLocateImage: 'Could not locate image file',
         failedToRename: 'Failed to rename image',
         failedToDelete: 'Failed to delete image and links',
+        failedToUndoDelete: 'Failed to undo the delete',
+        undo: 'Undo',
         clickInEditorFirst: 'Please click in the editor first, then try copying again',
         failedToResize: 'Failed to resize image',
+        imageLinkMoved: 'The image link changed since it was clicked; try again',
+        failedToSetSize: 'Failed to set image size',
+        noteImagesResized: 'Updated {changed} of {total} image links',
+        noImagesInNote: 'No images in this note',
+        failedToResizeAllImages: 'Failed to resize images in note',
+        failedToBulkResize: 'Failed to resize images',
+        sizeAppliedInNotes: 'Applied {size} in {count} notes',
+        sizeAppliedWithFailures: 'Applied {size} in {count} notes; {failed} notes could not be updated',
+        failedToApplySize: 'Failed to apply size in all notes',
+        imageCropped: 'Image cropped',
+        croppedCopyCreated: 'Cropped image saved as {name}',
+        failedToCrop: 'Failed to crop image',
+        imageRotated: 'Image rotated',
+        imageFlipped: 'Image flipped',
+        failedToTransform: 'Failed to rotate or flip image',
+        imageShrunk: 'Image shrunk from {before} to {after}',
+        imageAlreadySmaller: 'The image is already {width} px wide',
+        failedToShrink: 'Failed to shrink image',
+        imageConverted: 'Converted to {name}: {before} → {after}, saving {difference}',
+        imageConvertedLarger: 'Converted to {name}: {before} → {after}, {difference} larger',
+        failedToConvert: 'Failed to convert image',
         failedToPerformAction: 'Failed to {action}',
         imageTooLargeToCopy: 'Image is too large to copy to clipboard',
         fetchingLocalNetworkImage: 'Fetching image from a local network address',
@@ -137,6 +194,22 @@ export const STRINGS_EN = {
             confirmDelete: {
                 name: 'Confirm before delete',
                 desc: 'Show confirmation dialog before deleting files'
+            },
+            backgroundIndexing: {
+                name: 'Index image dimensions in background',
+                desc: "Read the dimensions of every image in the vault while Obsidian is idle, so menus and resizing don't have to read the files"
+            },
+            keepWidthAndHeight: {
+                name: 'Keep width × height',
+                desc: 'When resizing an image sized as width × height (e.g., 640x360), keep both and recompute the height from the image aspect ratio'
+            },
+            dragHandles: {
+                name: 'Drag handles',
+                desc: 'Show grab handles on hovered images in Live Preview and Reading view. Drag a handle to resize; widths snap to the resize options and to 100%'
+            },
+            keepImageMetadata: {
+                name: 'Keep metadata when shrinking images',
+                desc: 'Copy the EXIF data, color profile and other metadata of a JPEG into its shrunk file. Other formats are written without metadata'
             }
         }
     },
@@ -151,8 +224,129 @@ export const STRINGS_EN = {
         delete: {
             title: 'Delete image',
             confirmMessage: 'Are you sure you want to delete "{filename}"?',
-            warningMessage: 'This will delete both the image file and all links to it in the current document.',
+            warningMessage: 'This will delete the image file and remove its embeds from the notes that use it.',
+            usedInNotes: 'It is used in {count} notes:',
+            linkedFrom: 'It is also linked from {count} notes or canvases. These links are not removed and will break:',
+            otherNotesWarning: '{count} other notes still use this image. Deleting it only from this note leaves broken links in them.',
             deleteButton: 'Delete',
+            deleteEverywhereButton: 'Delete everywhere',
+            deleteInThisNoteButton: 'Only in this note',
+            cancelButton: 'Cancel'
+        },
+        setSize: {
+            title: 'Set width × height',
+            width: 'Width',
+            height: 'Height',
+            lockAspectRatio: 'Lock aspect ratio',
+            setButton: 'Set',
+            cancelButton: 'Cancel'
+        },
+        resize: {
+            title: 'Resize image',
+            amount: 'Size',
+            units: {
+                px: 'Pixels (width)',
+                percent: '% of original',
+                lineWidth: '% of line width',
+                height: 'Pixels (height)'
+            },
+            result: '{width} × {height} px ({scale}%)',
+            resultWidthOnly: '{width} px wide',
+            invalidSize: 'Enter a positive size',
+            resizeButton: 'Resize',
+            cancelButton: 'Cancel'
+        },
+        resizeAll: {
+            title: 'Resize all images',
+            rule: 'Rule',
+            rules: {
+                fit: 'Fit to a maximum width (px)',
+                percent: 'Percentage of original size',
+                clear: 'Clear custom sizes'
+            },
+            amount: 'Amount',
+            applyButton: 'Apply',
+            cancelButton: 'Cancel'
+        },
+        bulkResize: {
+            title: 'Resize images in bulk',
+            scope: 'Scope',
+            scopes: {
+                vault: 'Whole vault',
+                folder: 'Folder',
+                tag: 'Tag'
+            },
+            folderPlaceholder: 'Folder path',
+            tagPlaceholder: '#tag',
+            previewButton: 'Preview changes',
+            cancelButton: 'Cancel',
+            reviewTitle: 'Review changes',
+            scanning: 'Scanning notes… {done}/{total}',
+            noChanges: 'No image links would change',
+            summary: '{links} links in {notes} notes will change',
+            moreChanges: '…and {count} more',
+            originalSize: 'original',
+            applyButton: 'Apply changes',
+            stopButton: 'Stop',
+            closeButton: 'Close',
+            updating: 'Updating notes… {done}/{total}',
+            report: 'Updated {links} links in {notes} notes',
+            reportCancelled: 'Stopped before all notes were updated',
+            reportFailed: 'Could not update {count} notes'
+        },
+        applySize: {
+            title: 'Apply size in all notes',
+            message: 'Set every embed of "{filename}" to {size} in these {count} notes:',
+            applyButton: 'Apply',
+            cancelButton: 'Cancel'
+        },
+        crop: {
+            title: 'Crop image',
+            aspect: 'Aspect ratio',
+            aspectFree: 'Free',
+            aspectOriginal: 'Original',
+            x: 'X',
+            y: 'Y',
+            width: 'Width',
+            height: 'Height',
+            saveAsCopy: 'Save as a new file',
+            cropButton: 'Crop',
+            cancelButton: 'Cancel'
+        },
+        shrink: {
+            title: 'Shrink image file',
+            message: 'Replace "{filename}" with a resampled, smaller file?',
+            before: 'Before',
+            after: 'After',
+            fileSize: '{width} × {height} px, {size}',
+            notSmaller: 'The new file is not smaller than the current one.',
+            shrinkButton: 'Shrink',
+            cancelButton: 'Cancel',
+            resizeTitle: 'Shrink image file to',
+            reviewTitle: 'Shrink images to their displayed size',
+            scanning: 'Scanning notes… {done}/{total}',
+            noImages: 'No image is wider than the notes show it',
+            summary: '{count} images are wider than the notes show them ({size} in total)',
+            moreImages: '…and {count} more',
+            shrinkAllButton: 'Shrink images',
+            stopButton: 'Stop',
+            closeButton: 'Close',
+            shrinking: 'Shrinking images… {done}/{total}',
+            report: 'Shrank {count} images from {before} to {after}',
+            reportNotSmaller: '{count} images would not get smaller and were kept',
+            reportCancelled: 'Stopped before all images were shrunk',
+            reportFailed: 'Could not shrink {count} images'
+        },
+        convert: {
+            title: 'Convert {filename} to {format}',
+            current: 'Current size: {size}',
+            quality: 'Quality',
+            projected: 'Projected size: {size}, saving {saved} ({percent}%)',
+            projectedLarger: 'Projected size: {size}, {increase} larger than now',
+            estimating: 'Estimating size…',
+            estimateFailed: 'Could not estimate the size',
+            trashOriginal: 'Move the original to the trash',
+            convertButton: 'Convert',
             cancelButton: 'Cancel'
         }
     },
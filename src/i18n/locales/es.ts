@@ -9,6 +9,7 @@ export const STRINGS_ES = {
         copyImage: 'Copiar imagen',
         copyLocalPath: 'Copiar ruta local',
         resizeTo: 'Redimensionar a {size}',
+        resizeToCustom: 'Redimensionar a…',
         removeCustomSize: 'Eliminar tamaño personalizado',
         showInFinder: 'Show in Finder',
         showInExplorer: 'Mostrar en Explorador',
@@ -17,7 +18,38 @@ export const STRINGS_ES = {
         openInNewTab: 'Abrir en nueva pestaña',
         openToTheRight: 'Abrir a la derecha',
         openInNewWindow: 'Abrir en nueva ventana',
-        openInDefaultApp: 'Abrir con aplicación predeterminada'
+        openInDefaultApp: 'Abrir con aplicación predeterminada',
+        rotatedByMetadata: 'rotada por metadatos',
+        setWidthAndHeight: 'Establecer ancho × alto…',
+        keepWidthAndHeight: 'Mantener ancho × alto',
+        resizeAllImages: 'Redimensionar todas las imágenes…',
+        resizeImagesInFolder: 'Redimensionar imágenes de la carpeta…',
+        applySizeInAllNotes: 'Aplicar este tamaño en todas las notas',
+        resetToOriginalSize: 'Restablecer al tamaño original',
+        crop: 'Recortar…',
+        rotateLeft: 'Girar 90° a la izquierda',
+        rotateRight: 'Girar 90° a la derecha',
+        rotate180: 'Girar 180°',
+        flipHorizontal: 'Voltear horizontalmente',
+        flipVertical: 'Voltear verticalmente',
+        shrinkToDisplayedSize: 'Reducir archivo al tamaño mostrado',
+        shrinkTo: 'Reducir archivo a…',
+        convertTo: 'Convertir a',
+        convertToFormat: 'Convertir a {format}…'
+    },
+
+    // Command palette commands
+    commands: {
+        resizeToPreset: 'Redimensionar imagen en el cursor al ajuste {n}',
+        increaseWidth: 'Aumentar ancho de la imagen en el cursor',
+        decreaseWidth: 'Reducir ancho de la imagen en el cursor',
+        resetSize: 'Restablecer tamaño de la imagen en el cursor',
+        copyImage: 'Copiar imagen en el cursor',
+        renameImage: 'Renombrar imagen en el cursor',
+        deleteImage: 'Eliminar imagen en el cursor',
+        resizeAllImages: 'Redimensionar todas las imágenes de la nota actual',
+        bulkResize: 'Redimensionar imágenes de la bóveda, carpeta o etiqueta…',
+        shrinkImagesInVault: 'Reducir las imágenes de la bóveda a su tamaño mostrado…'
     },
 
     // Notice messages
@@ -28,8 +60,10 @@ export const STRINGS_ES = {
         filePathCopied: 'Ruta del archivo copiada al portapapeles',
         customSizeRemoved: 'Tamaño personalizado eliminado de la imagen',
         imageRenamed: 'Imagen renombrada exitosamente',
-        imageAndLinksDeleted: 'Imagen y enlaces eliminados exitosamente',
+        imageAndLinksDeleted: 'Imagen eliminada y enlaces quitados de {count} notas',
         imageDeleted: 'Imagen eliminada exitosamente',
+        imageRestored: 'Imagen y enlaces restaurados',
+        imageRestoredPartially: 'Imagen restaurada; {count} notas se editaron desde entonces y sus enlaces no se volvieron a insertar',
 
         // Error messages
         couldNotReadDimensions: 'No se pudieron leer las dimensiones de la imagen',
@@ -39,8 +73,31 @@ export const STRINGS_ES = {
         couldNotLocateImage: 'No se pudo localizar el archivo de imagen',
         failedToRename: 'Error al renombrar la imagen',
         failedToDelete: 'Error al eliminar la imagen y enlaces',
+        failedToUndoDelete: 'Error al deshacer la eliminación',
+        undo: 'Deshacer',
         clickInEditorFirst: 'Por favor, haz clic en el editor primero, luego intenta copiar nuevamente',
         failedToResize: 'Error al redimensionar la imagen',
+        imageLinkMoved: 'El enlace de la imagen cambió desde que se hizo clic; inténtalo de nuevo',
+        failedToSetSize: 'Error al establecer el tamaño de la imagen',
+        noteImagesResized: 'Se actualizaron {changed} de {total} enlaces de imagen',
+        noImagesInNote: 'No hay imágenes en esta nota',
+        failedToResizeAllImages: 'Error al redimensionar las imágenes de la nota',
+        failedToBulkResize: 'Error al redimensionar las imágenes',
+        sizeAppliedInNotes: 'Se aplicó {size} en {count} notas',
+        sizeAppliedWithFailures: 'Se aplicó {size} en {count} notas; no se pudieron actualizar {failed} notas',
+        failedToApplySize: 'Error al aplicar el tamaño en todas las notas',
+        imageCropped: 'Imagen recortada',
+        croppedCopyCreated: 'Imagen recortada guardada como {name}',
+        failedToCrop: 'No se pudo recortar la imagen',
+        imageRotated: 'Imagen girada',
+        imageFlipped: 'Imagen volteada',
+        failedToTransform: 'No se pudo girar ni voltear la imagen',
+        imageShrunk: 'Imagen reducida de {before} a {after}',
+        imageAlreadySmaller: 'La imagen ya mide {width} px de ancho',
+        failedToShrink: 'No se pudo reducir la imagen',
+        imageConverted: 'Convertida a {name}: {before} → {after}, {difference} menos',
+        imageConvertedLarger: 'Convertida a {name}: {before} → {after}, {difference} más',
+        failedToConvert: 'No se pudo convertir la imagen',
         failedToPerformAction: 'Error al {action}',
         imageTooLargeToCopy: 'La imagen es demasiado grande para copiarla al portapapeles',
         fetchingLocalNetworkImage: 'Obteniendo imagen desde una dirección de red local',
@@ -137,6 +194,22 @@ export const STRINGS_ES = {
             confirmDelete: {
                 name: 'Confirmar antes de eliminar',
                 desc: 'Mostrar diálogo de confirmación antes de eliminar archivos'
+            },
+            backgroundIndexing: {
+                name: 'Indexar dimensiones de imágenes en segundo plano',
+                desc: 'Leer las dimensiones de todas las imágenes de la bóveda mientras Obsidian está inactivo, para que los menús y el cambio de tamaño no tengan que leer los archivos'
+            },
+            keepWidthAndHeight: {
+                name: 'Mantener ancho × alto',
+                desc: 'Al redimensionar una imagen con ancho × alto (p. ej., 640x360), mantener ambos y recalcular el alto a partir de la relación de aspecto'
+            },
+            dragHandles: {
+                name: 'Controladores de arrastre',
+                desc: 'Mostrar controladores en las imágenes bajo el puntero en Vista previa en vivo y Vista de lectura. Arrastra un controlador para redimensionar; el ancho se ajusta a las opciones de tamaño y al 100 %'
+            },
+            keepImageMetadata: {
+                name: 'Conservar metadatos al reducir imágenes',
+                desc: 'Copiar los datos EXIF, el perfil de color y otros metadatos de un JPEG en el archivo reducido. Los demás formatos se guardan sin metadatos'
             }
         }
     },
@@ -151,8 +224,129 @@ export const STRINGS_ES = {
         delete: {
             title: 'Eliminar imagen',
             confirmMessage: '¿Estás seguro de que quieres eliminar "{filename}"?',
-            warningMessage: 'Esto eliminará tanto el archivo de imagen como todos los enlaces a él en el documento actual.',
+            warningMessage: 'Esto eliminará el archivo de imagen y quitará sus inserciones de las notas que la usan.',
+            usedInNotes: 'Se usa en {count} notas:',
+            linkedFrom: 'También se enlaza desde {count} notas o lienzos. Estos enlaces no se eliminan y quedarán rotos:',
+            otherNotesWarning: 'Otras {count} notas todavía usan esta imagen. Eliminarla solo de esta nota deja enlaces rotos en ellas.',
             deleteButton: 'Eliminar',
+            deleteEverywhereButton: 'Eliminar en todas partes',
+            deleteInThisNoteButton: 'Solo en esta nota',
+            cancelButton: 'Cancelar'
+        },
+        setSize: {
+            title: 'Establecer ancho × alto',
+            width: 'Ancho',
+            height: 'Alto',
+            lockAspectRatio: 'Bloquear relación de aspecto',
+            setButton: 'Establecer',
+            cancelButton: 'Cancelar'
+        },
+        resize: {
+            title: 'Redimensionar imagen',
+            amount: 'Tamaño',
+            units: {
+                px: 'Píxeles (ancho)',
+                percent: '% del original',
+                lineWidth: '% del ancho de línea',
+                height: 'Píxeles (alto)'
+            },
+            result: '{width} × {height} px ({scale} %)',
+            resultWidthOnly: '{width} px de ancho',
+            invalidSize: 'Introduce un tamaño positivo',
+            resizeButton: 'Redimensionar',
+            cancelButton: 'Cancelar'
+        },
+        resizeAll: {
+            title: 'Redimensionar todas las imágenes',
+            rule: 'Regla',
+            rules: {
+                fit: 'Ajustar a un ancho máximo (px)',
+                percent: 'Porcentaje del tamaño original',
+                clear: 'Quitar tamaños personalizados'
+            },
+            amount: 'Cantidad',
+            applyButton: 'Aplicar',
+            cancelButton: 'Cancelar'
+        },
+        bulkResize: {
+            title: 'Redimensionar imágenes en bloque',
+            scope: 'Ámbito',
+            scopes: {
+                vault: 'Toda la bóveda',
+                folder: 'Carpeta',
+                tag: 'Etiqueta'
+            },
+            folderPlaceholder: 'Ruta de la carpeta',
+            tagPlaceholder: '#etiqueta',
+            previewButton: 'Previsualizar cambios',
+            cancelButton: 'Cancelar',
+            reviewTitle: 'Revisar cambios',
+            scanning: 'Analizando notas… {done}/{total}',
+            noChanges: 'Ningún enlace de imagen cambiaría',
+            summary: 'Cambiarán {links} enlaces en {notes} notas',
+            moreChanges: '…y {count} más',
+            originalSize: 'original',
+            applyButton: 'Aplicar cambios',
+            stopButton: 'Detener',
+            closeButton: 'Cerrar',
+            updating: 'Actualizando notas… {done}/{total}',
+            report: 'Se actualizaron {links} enlaces en {notes} notas',
+            reportCancelled: 'Detenido antes de actualizar todas las notas',
+            reportFailed: 'No se pudieron actualizar {count} notas'
+        },
+        applySize: {
+            title: 'Aplicar tamaño en todas las notas',
+            message: 'Establecer todas las inserciones de "{filename}" a {size} en estas {count} notas:',
+            applyButton: 'Aplicar',
+            cancelButton: 'Cancelar'
+        },
+        crop: {
+            title: 'Recortar imagen',
+            aspect: 'Relación de aspecto',
+            aspectFree: 'Libre',
+            aspectOriginal: 'Original',
+            x: 'X',
+            y: 'Y',
+            width: 'Ancho',
+            height: 'Alto',
+            saveAsCopy: 'Guardar como archivo nuevo',
+            cropButton: 'Recortar',
+            cancelButton: 'Cancelar'
+        },
+        shrink: {
+            title: 'Reducir archivo de imagen',
+            message: '¿Reemplazar "{filename}" por un archivo remuestreado más pequeño?',
+            before: 'Antes',
+            after: 'Después',
+            fileSize: '{width} × {height} px, {size}',
+            notSmaller: 'El archivo nuevo no es más pequeño que el actual.',
+            shrinkButton: 'Reducir',
+            cancelButton: 'Cancelar',
+            resizeTitle: 'Reducir archivo de imagen a',
+            reviewTitle: 'Reducir imágenes a su tamaño mostrado',
+            scanning: 'Analizando notas… {done}/{total}',
+            noImages: 'Ninguna imagen es más ancha de lo que las notas la muestran',
+            summary: '{count} imágenes son más anchas de lo que las notas las muestran ({size} en total)',
+            moreImages: '…y {count} más',
+            shrinkAllButton: 'Reducir imágenes',
+            stopButton: 'Detener',
+            closeButton: 'Cerrar',
+            shrinking: 'Reduciendo imágenes… {done}/{total}',
+            report: 'Se redujeron {count} imágenes de {before} a {after}',
+            reportNotSmaller: '{count} imágenes no serían más pequeñas y se conservaron',
+            reportCancelled: 'Detenido antes de reducir todas las imágenes',
+            reportFailed: 'No se pudieron reducir {count} imágenes'
+        },
+        convert: {
+            title: 'Convertir {filename} a {format}',
+            current: 'Tamaño actual: {size}',
+            quality: 'Calidad',
+            projected: 'Tamaño previsto: {size}, {saved} menos ({percent} %)',
+            projectedLarger: 'Tamaño previsto: {size}, {increase} más que ahora',
+            estimating: 'Calculando tamaño…',
+            estimateFailed: 'No se pudo calcular el tamaño',
+            trashOriginal: 'Mover el original a la papelera',
+            convertButton: 'Convertir',
             cancelButton: 'Cancelar'
         }
     },
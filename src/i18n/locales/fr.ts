@@ -9,6 +9,7 @@ export const STRINGS_FR = {
         copyImage: "Copier l'image",
         copyLocalPath: 'Copier le chemin local',
         resizeTo: 'Redimensionner à {size}',
+        resizeToCustom: 'Redimensionner à…',
         removeCustomSize: 'Supprimer la taille personnalisée',
         showInFinder: 'Show in Finder',
         showInExplorer: "Afficher dans l'Explorateur",
@@ -17,7 +18,38 @@ export const STRINGS_FR = {
         openInNewTab: 'Ouvrir dans un nouvel onglet',
         openToTheRight: 'Ouvrir à droite',
         openInNewWindow: 'Ouvrir dans une nouvelle fenêtre',
-        openInDefaultApp: "Ouvrir avec l'application par défaut"
+        openInDefaultApp: "Ouvrir avec l'application par défaut",
+        rotatedByMetadata: 'pivotée par les métadonnées',
+        setWidthAndHeight: 'Définir largeur × hauteur…',
+        keepWidthAndHeight: 'Conserver largeur × hauteur',
+        resizeAllImages: 'Redimensionner toutes les images…',
+        resizeImagesInFolder: 'Redimensionner les images du dossier…',
+        applySizeInAllNotes: 'Appliquer cette taille dans toutes les notes',
+        resetToOriginalSize: "Rétablir la taille d'origine",
+        crop: 'Rogner…',
+        rotateLeft: 'Pivoter de 90° à gauche',
+        rotateRight: 'Pivoter de 90° à droite',
+        rotate180: 'Pivoter de 180°',
+        flipHorizontal: 'Retourner horizontalement',
+        flipVertical: 'Retourner verticalement',
+        shrinkToDisplayedSize: 'Réduire le fichier à la taille affichée',
+        shrinkTo: 'Réduire le fichier à…',
+        convertTo: 'Convertir en',
+        convertToFormat: 'Convertir en {format}…'
+    },
+
+    // Command palette commands
+    commands: {
+        resizeToPreset: "Redimensionner l'image au curseur au préréglage {n}",
+        increaseWidth: "Augmenter la largeur de l'image au curseur",
+        decreaseWidth: "Réduire la largeur de l'image au curseur",
+        resetSize: "Réinitialiser la taille de l'image au curseur",
+        copyImage: "Copier l'image au curseur",
+        renameImage: "Renommer l'image au curseur",
+        deleteImage: "Supprimer l'image au curseur",
+        resizeAllImages: 'Redimensionner toutes les images de la note actuelle',
+        bulkResize: "Redimensionner les images du coffre, d'un dossier ou d'un tag…",
+        shrinkImagesInVault: 'Réduire les images du coffre à leur taille affichée…'
     },
 
     // Notice messages
@@ -28,8 +60,10 @@ export const STRINGS_FR = {
         filePathCopied: 'Chemin du fichier copié dans le presse-papiers',
         customSizeRemoved: "Taille personnalisée supprimée de l'image",
         imageRenamed: 'Image renommée avec succès',
-        imageAndLinksDeleted: 'Image et liens supprimés avec succès',
+        imageAndLinksDeleted: 'Image supprimée et liens retirés de {count} notes',
         imageDeleted: 'Image supprimée avec succès',
+        imageRestored: 'Image et liens restaurés',
+        imageRestoredPartially: "Image restaurée ; {count} notes ont été modifiées depuis et leurs liens n'ont pas été remis",
 
         // Error messages
         couldNotReadDimensions: "Impossible de lire les dimensions de l'image",
@@ -39,8 +73,31 @@ export const STRINGS_FR = {
         couldNotLocateImage: 'Impossible de localiser le fichier image',
         failedToRename: "Échec du renommage de l'image",
         failedToDelete: "Échec de la suppression de l'image et des liens",
+        failedToUndoDelete: "Échec de l'annulation de la suppression",
+        undo: 'Annuler',
         clickInEditorFirst: "Veuillez d'abord cliquer dans l'éditeur, puis réessayer de copier",
         failedToResize: "Échec du redimensionnement de l'image",
+        imageLinkMoved: "Le lien de l'image a changé depuis le clic ; réessayez",
+        failedToSetSize: "Échec de la définition de la taille de l'image",
+        noteImagesResized: "{changed} liens d'image sur {total} mis à jour",
+        noImagesInNote: 'Aucune image dans cette note',
+        failedToResizeAllImages: 'Échec du redimensionnement des images de la note',
+        failedToBulkResize: 'Échec du redimensionnement des images',
+        sizeAppliedInNotes: '{size} appliqué dans {count} notes',
+        sizeAppliedWithFailures: "{size} appliqué dans {count} notes ; {failed} notes n'ont pas pu être mises à jour",
+        failedToApplySize: "Échec de l'application de la taille dans toutes les notes",
+        imageCropped: 'Image rognée',
+        croppedCopyCreated: 'Image rognée enregistrée sous {name}',
+        failedToCrop: "Échec du rognage de l'image",
+        imageRotated: 'Image pivotée',
+        imageFlipped: 'Image retournée',
+        failedToTransform: "Échec de la rotation ou du retournement de l'image",
+        imageShrunk: 'Image réduite de {before} à {after}',
+        imageAlreadySmaller: "L'image fait déjà {width} px de large",
+        failedToShrink: "Échec de la réduction de l'image",
+        imageConverted: 'Convertie en {name} : {before} → {after}, {difference} économisés',
+        imageConvertedLarger: 'Convertie en {name} : {before} → {after}, {difference} de plus',
+        failedToConvert: "Échec de la conversion de l'image",
         failedToPerformAction: 'Échec de {action}',
         imageTooLargeToCopy: "L'image est trop grande pour être copiée dans le presse-papiers",
         fetchingLocalNetworkImage: "Récupération de l'image depuis une adresse de réseau local",
@@ -137,6 +194,22 @@ export const STRINGS_FR = {
             confirmDelete: {
                 name: 'Confirmer avant suppression',
                 desc: 'Afficher la boîte de dialogue de confirmation avant de supprimer les fichiers'
+            },
+            backgroundIndexing: {
+                name: 'Indexer les dimensions des images en arrière-plan',
+                desc: "Lire les dimensions de toutes les images du coffre pendant qu'Obsidian est inactif, pour que les menus et le redimensionnement n'aient pas à lire les fichiers"
+            },
+            keepWidthAndHeight: {
+                name: 'Conserver largeur × hauteur',
+                desc: "Lors du redimensionnement d'une image en largeur × hauteur (par ex. 640x360), conserver les deux et recalculer la hauteur à partir des proportions de l'image"
+            },
+            dragHandles: {
+                name: 'Poignées de redimensionnement',
+                desc: "Afficher des poignées sur l'image survolée en aperçu en direct et en mode lecture. Faites glisser une poignée pour redimensionner ; la largeur s'aligne sur les options de taille et sur 100 %"
+            },
+            keepImageMetadata: {
+                name: 'Conserver les métadonnées lors de la réduction',
+                desc: "Copier les données EXIF, le profil de couleur et les autres métadonnées d'un JPEG dans le fichier réduit. Les autres formats sont enregistrés sans métadonnées"
             }
         }
     },
@@ -151,8 +224,130 @@ export const STRINGS_FR = {
         delete: {
             title: "Supprimer l'image",
             confirmMessage: 'Êtes-vous sûr de vouloir supprimer "{filename}" ?',
-            warningMessage: 'Cela supprimera à la fois le fichier image et tous les liens vers celui-ci dans le document actuel.',
+            warningMessage: "Cela supprimera le fichier image et retirera ses intégrations des notes qui l'utilisent.",
+            usedInNotes: 'Elle est utilisée dans {count} notes :',
+            linkedFrom: 'Elle est aussi liée depuis {count} notes ou canevas. Ces liens ne sont pas retirés et seront rompus :',
+            otherNotesWarning:
+                '{count} autres notes utilisent encore cette image. La supprimer uniquement de cette note y laisse des liens cassés.',
             deleteButton: 'Supprimer',
+            deleteEverywhereButton: 'Supprimer partout',
+            deleteInThisNoteButton: 'Uniquement dans cette note',
+            cancelButton: 'Annuler'
+        },
+        setSize: {
+            title: 'Définir largeur × hauteur',
+            width: 'Largeur',
+            height: 'Hauteur',
+            lockAspectRatio: 'Verrouiller les proportions',
+            setButton: 'Définir',
+            cancelButton: 'Annuler'
+        },
+        resize: {
+            title: "Redimensionner l'image",
+            amount: 'Taille',
+            units: {
+                px: 'Pixels (largeur)',
+                percent: "% de l'original",
+                lineWidth: '% de la largeur de ligne',
+                height: 'Pixels (hauteur)'
+            },
+            result: '{width} × {height} px ({scale} %)',
+            resultWidthOnly: '{width} px de large',
+            invalidSize: 'Saisissez une taille positive',
+            resizeButton: 'Redimensionner',
+            cancelButton: 'Annuler'
+        },
+        resizeAll: {
+            title: 'Redimensionner toutes les images',
+            rule: 'Règle',
+            rules: {
+                fit: 'Ajuster à une largeur maximale (px)',
+                percent: 'Pourcentage de la taille originale',
+                clear: 'Effacer les tailles personnalisées'
+            },
+            amount: 'Valeur',
+            applyButton: 'Appliquer',
+            cancelButton: 'Annuler'
+        },
+        bulkResize: {
+            title: 'Redimensionner des images en masse',
+            scope: 'Portée',
+            scopes: {
+                vault: 'Tout le coffre',
+                folder: 'Dossier',
+                tag: 'Tag'
+            },
+            folderPlaceholder: 'Chemin du dossier',
+            tagPlaceholder: '#tag',
+            previewButton: 'Aperçu des modifications',
+            cancelButton: 'Annuler',
+            reviewTitle: 'Vérifier les modifications',
+            scanning: 'Analyse des notes… {done}/{total}',
+            noChanges: "Aucun lien d'image ne changerait",
+            summary: '{links} liens dans {notes} notes vont changer',
+            moreChanges: '…et {count} de plus',
+            originalSize: 'original',
+            applyButton: 'Appliquer les modifications',
+            stopButton: 'Arrêter',
+            closeButton: 'Fermer',
+            updating: 'Mise à jour des notes… {done}/{total}',
+            report: '{links} liens mis à jour dans {notes} notes',
+            reportCancelled: 'Arrêté avant la mise à jour de toutes les notes',
+            reportFailed: 'Impossible de mettre à jour {count} notes'
+        },
+        applySize: {
+            title: 'Appliquer la taille dans toutes les notes',
+            message: 'Définir toutes les intégrations de « {filename} » à {size} dans ces {count} notes :',
+            applyButton: 'Appliquer',
+            cancelButton: 'Annuler'
+        },
+        crop: {
+            title: "Rogner l'image",
+            aspect: 'Format',
+            aspectFree: 'Libre',
+            aspectOriginal: 'Original',
+            x: 'X',
+            y: 'Y',
+            width: 'Largeur',
+            height: 'Hauteur',
+            saveAsCopy: 'Enregistrer dans un nouveau fichier',
+            cropButton: 'Rogner',
+            cancelButton: 'Annuler'
+        },
+        shrink: {
+            title: 'Réduire le fichier image',
+            message: 'Remplacer « {filename} » par un fichier rééchantillonné plus petit ?',
+            before: 'Avant',
+            after: 'Après',
+            fileSize: '{width} × {height} px, {size}',
+            notSmaller: "Le nouveau fichier n'est pas plus petit que l'actuel.",
+            shrinkButton: 'Réduire',
+            cancelButton: 'Annuler',
+            resizeTitle: 'Réduire le fichier image à',
+            reviewTitle: 'Réduire les images à leur taille affichée',
+            scanning: 'Analyse des notes… {done}/{total}',
+            noImages: "Aucune image n'est plus large que ce que les notes affichent",
+            summary: '{count} images sont plus larges que ce que les notes affichent ({size} au total)',
+            moreImages: '…et {count} de plus',
+            shrinkAllButton: 'Réduire les images',
+            stopButton: 'Arrêter',
+            closeButton: 'Fermer',
+            shrinking: 'Réduction des images… {done}/{total}',
+            report: '{count} images réduites de {before} à {after}',
+            reportNotSmaller: "{count} images n'auraient pas été plus petites et ont été conservées",
+            reportCancelled: 'Arrêté avant que toutes les images soient réduites',
+            reportFailed: 'Impossible de réduire {count} images'
+        },
+        convert: {
+            title: 'Convertir {filename} en {format}',
+            current: 'Taille actuelle : {size}',
+            quality: 'Qualité',
+            projected: 'Taille prévue : {size}, {saved} économisés ({percent} %)',
+            projectedLarger: "Taille prévue : {size}, {increase} de plus qu'actuellement",
+            estimating: 'Estimation de la taille…',
+            estimateFailed: "Impossible d'estimer la taille",
+            trashOriginal: "Déplacer l'original dans la corbeille",
+            convertButton: 'Convertir',
             cancelButton: 'Annuler'
         }
     },
@@ -9,6 +9,7 @@ export const STRINGS_JA = {
         copyImage: '画像をコピー',
         copyLocalPath: 'ローカルパスをコピー',
         resizeTo: '{size}にリサイズ',
+        resizeToCustom: 'サイズを指定してリサイズ…',
         removeCustomSize: 'カスタムサイズを削除',
         showInFinder: 'Show in Finder',
         showInExplorer: 'エクスプローラーで表示',
@@ -17,7 +18,38 @@ export const STRINGS_JA = {
         openInNewTab: '新しいタブで開く',
         openToTheRight: '右に開く',
         openInNewWindow: '新しいウィンドウで開く',
-        openInDefaultApp: 'デフォルトアプリで開く'
+        openInDefaultApp: 'デフォルトアプリで開く',
+        rotatedByMetadata: 'メタデータで回転',
+        setWidthAndHeight: '幅 × 高さを設定…',
+        keepWidthAndHeight: '幅 × 高さを維持',
+        resizeAllImages: 'すべての画像をリサイズ…',
+        resizeImagesInFolder: 'フォルダ内の画像をリサイズ…',
+        applySizeInAllNotes: 'このサイズをすべてのノートに適用',
+        resetToOriginalSize: '元のサイズに戻す',
+        crop: '切り抜き…',
+        rotateLeft: '左に90°回転',
+        rotateRight: '右に90°回転',
+        rotate180: '180°回転',
+        flipHorizontal: '左右反転',
+        flipVertical: '上下反転',
+        shrinkToDisplayedSize: 'ファイルを表示サイズに縮小',
+        shrinkTo: 'ファイルを縮小…',
+        convertTo: '形式を変換',
+        convertToFormat: '{format} に変換…'
+    },
+
+    // Command palette commands
+    commands: {
+        resizeToPreset: 'カーソル位置の画像をプリセット {n} にリサイズ',
+        increaseWidth: 'カーソル位置の画像の幅を広げる',
+        decreaseWidth: 'カーソル位置の画像の幅を狭める',
+        resetSize: 'カーソル位置の画像のサイズをリセット',
+        copyImage: 'カーソル位置の画像をコピー',
+        renameImage: 'カーソル位置の画像の名前を変更',
+        deleteImage: 'カーソル位置の画像を削除',
+        resizeAllImages: '現在のノートのすべての画像をリサイズ',
+        bulkResize: '保管庫・フォルダ・タグの画像をリサイズ…',
+        shrinkImagesInVault: '保管庫の画像を表示サイズに縮小…'
     },
 
     // Notice messages
@@ -28,8 +60,10 @@ export const STRINGS_JA = {
         filePathCopied: 'ファイルパスをクリップボードにコピーしました',
         customSizeRemoved: '画像からカスタムサイズを削除しました',
         imageRenamed: '画像名を正常に変更しました',
-        imageAndLinksDeleted: '画像とリンクを正常に削除しました',
+        imageAndLinksDeleted: '画像を削除し、{count} 件のノートからリンクを削除しました',
         imageDeleted: '画像を正常に削除しました',
+        imageRestored: '画像とリンクを復元しました',
+        imageRestoredPartially: '画像を復元しました。{count} 件のノートはその後編集されたため、リンクは戻されませんでした',
 
         // Error messages
         couldNotReadDimensions: '画像の寸法を読み取れませんでした',
@@ -39,8 +73,31 @@ export const STRINGS_JA = {
         couldNotLocateImage: '画像ファイルが見つかりませんでした',
         failedToRename: '画像名の変更に失敗しました',
         failedToDelete: '画像とリンクの削除に失敗しました',
+        failedToUndoDelete: '削除を元に戻せませんでした',
+        undo: '元に戻す',
         clickInEditorFirst: '最初にエディターをクリックしてから、もう一度コピーしてください',
         failedToResize: '画像のリサイズに失敗しました',
+        imageLinkMoved: 'クリック後に画像リンクが変更されました。もう一度お試しください',
+        failedToSetSize: '画像サイズの設定に失敗しました',
+        noteImagesResized: '{total} 件中 {changed} 件の画像リンクを更新しました',
+        noImagesInNote: 'このノートに画像はありません',
+        failedToResizeAllImages: 'ノート内の画像のリサイズに失敗しました',
+        failedToBulkResize: '画像のリサイズに失敗しました',
+        sizeAppliedInNotes: '{count} 件のノートに {size} を適用しました',
+        sizeAppliedWithFailures: '{count} 件のノートに {size} を適用しました。{failed} 件のノートは更新できませんでした',
+        failedToApplySize: 'すべてのノートへのサイズの適用に失敗しました',
+        imageCropped: '画像を切り抜きました',
+        croppedCopyCreated: '切り抜いた画像を {name} として保存しました',
+        failedToCrop: '画像の切り抜きに失敗しました',
+        imageRotated: '画像を回転しました',
+        imageFlipped: '画像を反転しました',
+        failedToTransform: '画像の回転または反転に失敗しました',
+        imageShrunk: '画像を {before} から {after} に縮小しました',
+        imageAlreadySmaller: '画像の幅はすでに {width} px です',
+        failedToShrink: '画像の縮小に失敗しました',
+        imageConverted: '{name} に変換しました: {before} → {after}({difference} 削減)',
+        imageConvertedLarger: '{name} に変換しました: {before} → {after}({difference} 増加)',
+        failedToConvert: '画像の変換に失敗しました',
         failedToPerformAction: '{action}に失敗しました',
         imageTooLargeToCopy: '画像が大きすぎてクリップボードにコピーできません',
         fetchingLocalNetworkImage: 'ローカルネットワークのアドレスから画像を取得しています',
@@ -137,6 +194,22 @@ export const STRINGS_JA = {
             confirmDelete: {
                 name: '削除前に確認',
                 desc: 'ファイル削除前に確認ダイアログを表示します'
+            },
+            backgroundIndexing: {
+                name: '画像サイズをバックグラウンドでインデックス化',
+                desc: 'Obsidian のアイドル中に保管庫内のすべての画像サイズを読み取り、メニューやリサイズでファイルを読み込む必要をなくします'
+            },
+            keepWidthAndHeight: {
+                name: '幅 × 高さを維持',
+                desc: '幅 × 高さ（例: 640x360）で指定された画像のリサイズ時に両方を維持し、縦横比から高さを再計算します'
+            },
+            dragHandles: {
+                name: 'ドラッグハンドル',
+                desc: 'ライブプレビューと閲覧ビューでポインターを合わせた画像にハンドルを表示します。ハンドルをドラッグしてリサイズします。幅はサイズオプションと 100% にスナップします'
+            },
+            keepImageMetadata: {
+                name: '縮小時にメタデータを保持',
+                desc: 'JPEG の EXIF データ、カラープロファイルなどのメタデータを縮小後のファイルにコピーします。その他の形式はメタデータなしで保存されます'
             }
         }
     },
@@ -151,8 +224,131 @@ export const STRINGS_JA = {
         delete: {
             title: '画像を削除',
             confirmMessage: '"{filename}"を削除してもよろしいですか？',
-            warningMessage: 'これにより、画像ファイルと現在のドキュメント内のすべてのリンクが削除されます。',
+            warningMessage: 'これにより、画像ファイルが削除され、それを使用しているノートから埋め込みが削除されます。',
+            usedInNotes: '{count} 件のノートで使用されています:',
+            linkedFrom:
+                'さらに {count} 件のノートまたはキャンバスからリンクされています。これらのリンクは削除されず、リンク切れになります:',
+            otherNotesWarning:
+                'ほかの {count} 件のノートがまだこの画像を使用しています。このノートからのみ削除すると、それらのノートにリンク切れが残ります。',
             deleteButton: '削除',
+            deleteEverywhereButton: 'すべてから削除',
+            deleteInThisNoteButton: 'このノートのみ',
+            cancelButton: 'キャンセル'
+        },
+        setSize: {
+            title: '幅 × 高さを設定',
+            width: '幅',
+            height: '高さ',
+            lockAspectRatio: '縦横比を固定',
+            setButton: '設定',
+            cancelButton: 'キャンセル'
+        },
+        resize: {
+            title: '画像をリサイズ',
+            amount: 'サイズ',
+            units: {
+                px: 'ピクセル（幅）',
+                percent: '元のサイズの %',
+                lineWidth: '行幅の %',
+                height: 'ピクセル（高さ）'
+            },
+            result: '{width} × {height} px（{scale}%）',
+            resultWidthOnly: '幅 {width} px',
+            invalidSize: '正のサイズを入力してください',
+            resizeButton: 'リサイズ',
+            cancelButton: 'キャンセル'
+        },
+        resizeAll: {
+            title: 'すべての画像をリサイズ',
+            rule: 'ルール',
+            rules: {
+                fit: '最大幅に合わせる (px)',
+                percent: '元のサイズに対する割合',
+                clear: 'カスタムサイズを削除'
+            },
+            amount: '値',
+            applyButton: '適用',
+            cancelButton: 'キャンセル'
+        },
+        bulkResize: {
+            title: '画像を一括リサイズ',
+            scope: '範囲',
+            scopes: {
+                vault: '保管庫全体',
+                folder: 'フォルダ',
+                tag: 'タグ'
+            },
+            folderPlaceholder: 'フォルダのパス',
+            tagPlaceholder: '#タグ',
+            previewButton: '変更をプレビュー',
+            cancelButton: 'キャンセル',
+            reviewTitle: '変更の確認',
+            scanning: 'ノートを確認中… {done}/{total}',
+            noChanges: '変更される画像リンクはありません',
+            summary: '{notes} 件のノートで {links} 件のリンクが変更されます',
+            moreChanges: '…ほか {count} 件',
+            originalSize: '元のサイズ',
+            applyButton: '変更を適用',
+            stopButton: '停止',
+            closeButton: '閉じる',
+            updating: 'ノートを更新中… {done}/{total}',
+            report: '{notes} 件のノートで {links} 件のリンクを更新しました',
+            reportCancelled: 'すべてのノートを更新する前に停止しました',
+            reportFailed: '{count} 件のノートを更新できませんでした'
+        },
+        applySize: {
+            title: 'すべてのノートにサイズを適用',
+            message: '次の {count} 件のノートで「{filename}」のすべての埋め込みを {size} にします:',
+            applyButton: '適用',
+            cancelButton: 'キャンセル'
+        },
+        crop: {
+            title: '画像を切り抜き',
+            aspect: '縦横比',
+            aspectFree: 'フリー',
+            aspectOriginal: '元の比率',
+            x: 'X',
+            y: 'Y',
+            width: '幅',
+            height: '高さ',
+            saveAsCopy: '新しいファイルとして保存',
+            cropButton: '切り抜き',
+            cancelButton: 'キャンセル'
+        },
+        shrink: {
+            title: '画像ファイルを縮小',
+            message: '「{filename}」を再サンプリングした小さいファイルに置き換えますか?',
+            before: '変更前',
+            after: '変更後',
+            fileSize: '{width} × {height} px、{size}',
+            notSmaller: '新しいファイルは現在のファイルより小さくありません。',
+            shrinkButton: '縮小',
+            cancelButton: 'キャンセル',
+            resizeTitle: '画像ファイルを縮小',
+            reviewTitle: '画像を表示サイズに縮小',
+            scanning: 'ノートをスキャン中… {done}/{total}',
+            noImages: 'ノートでの表示より大きい画像はありません',
+            summary: '{count} 個の画像がノートでの表示より大きくなっています(合計 {size})',
+            moreImages: '…ほか {count} 件',
+            shrinkAllButton: '画像を縮小',
+            stopButton: '停止',
+            closeButton: '閉じる',
+            shrinking: '画像を縮小中… {done}/{total}',
+            report: '{count} 個の画像を {before} から {after} に縮小しました',
+            reportNotSmaller: '{count} 個の画像は小さくならないため元のままにしました',
+            reportCancelled: 'すべての画像を縮小する前に停止しました',
+            reportFailed: '{count} 個の画像を縮小できませんでした'
+        },
+        convert: {
+            title: '{filename} を {format} に変換',
+            current: '現在のサイズ: {size}',
+            quality: '品質',
+            projected: '予想サイズ: {size}({saved} 削減、{percent}%)',
+            projectedLarger: '予想サイズ: {size}(現在より {increase} 増加)',
+            estimating: 'サイズを見積もり中…',
+            estimateFailed: 'サイズを見積もれませんでした',
+            trashOriginal: '元のファイルをゴミ箱に移動',
+            convertButton: '変換',
             cancelButton: 'キャンセル'
         }
     },
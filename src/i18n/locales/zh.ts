@@ -9,6 +9,7 @@ export const STRINGS_ZH = {
         copyImage: '复制图像',
         copyLocalPath: '复制本地路径',
         resizeTo: '调整大小到{size}',
+        resizeToCustom: '调整大小为…',
         removeCustomSize: '移除自定义尺寸',
         showInFinder: 'Show in Finder',
         showInExplorer: '在资源管理器中显示',
@@ -17,7 +18,38 @@ export const STRINGS_ZH = {
         openInNewTab: '在新标签页中打开',
         openToTheRight: '在右侧打开',
         openInNewWindow: '在新窗口中打开',
-        openInDefaultApp: '用默认应用打开'
+        openInDefaultApp: '用默认应用打开',
+        rotatedByMetadata: '已按元数据旋转',
+        setWidthAndHeight: '设置宽 × 高…',
+        keepWidthAndHeight: '保持宽 × 高',
+        resizeAllImages: '调整所有图像大小…',
+        resizeImagesInFolder: '调整文件夹中图像的大小…',
+        applySizeInAllNotes: '在所有笔记中应用此尺寸',
+        resetToOriginalSize: '重置为原始尺寸',
+        crop: '裁剪…',
+        rotateLeft: '向左旋转 90°',
+        rotateRight: '向右旋转 90°',
+        rotate180: '旋转 180°',
+        flipHorizontal: '水平翻转',
+        flipVertical: '垂直翻转',
+        shrinkToDisplayedSize: '将文件缩小到显示尺寸',
+        shrinkTo: '将文件缩小到…',
+        convertTo: '转换为',
+        convertToFormat: '转换为 {format}…'
+    },
+
+    // Command palette commands
+    commands: {
+        resizeToPreset: '将光标处的图像调整为预设 {n}',
+        increaseWidth: '增大光标处图像的宽度',
+        decreaseWidth: '减小光标处图像的宽度',
+        resetSize: '重置光标处图像的尺寸',
+        copyImage: '复制光标处的图像',
+        renameImage: '重命名光标处的图像',
+        deleteImage: '删除光标处的图像',
+        resizeAllImages: '调整当前笔记中所有图像的大小',
+        bulkResize: '调整仓库、文件夹或标签中图像的大小…',
+        shrinkImagesInVault: '将仓库中的图片缩小到显示尺寸…'
     },
 
     // Notice messages
@@ -28,8 +60,10 @@ export const STRINGS_ZH = {
         filePathCopied: '文件路径已复制到剪贴板',
         customSizeRemoved: '已从图像中移除自定义尺寸',
         imageRenamed: '图像重命名成功',
-        imageAndLinksDeleted: '图像和链接删除成功',
+        imageAndLinksDeleted: '已删除图像并从 {count} 个笔记中移除链接',
         imageDeleted: '图像删除成功',
+        imageRestored: '已恢复图像和链接',
+        imageRestoredPartially: '已恢复图像；{count} 个笔记此后已被编辑，其链接未被放回',
 
         // Error messages
         couldNotReadDimensions: '无法读取图像尺寸',
@@ -39,8 +73,31 @@ export const STRINGS_ZH = {
         couldNotLocateImage: '无法找到图像文件',
         failedToRename: '重命名图像失败',
         failedToDelete: '删除图像和链接失败',
+        failedToUndoDelete: '撤销删除失败',
+        undo: '撤销',
         clickInEditorFirst: '请先点击编辑器，然后再次尝试复制',
         failedToResize: '调整图像大小失败',
+        imageLinkMoved: '点击后图片链接已更改,请重试',
+        failedToSetSize: '设置图像尺寸失败',
+        noteImagesResized: '已更新 {total} 个图像链接中的 {changed} 个',
+        noImagesInNote: '此笔记中没有图像',
+        failedToResizeAllImages: '调整笔记中图像大小失败',
+        failedToBulkResize: '调整图像大小失败',
+        sizeAppliedInNotes: '已在 {count} 个笔记中应用 {size}',
+        sizeAppliedWithFailures: '已在 {count} 个笔记中应用 {size}；{failed} 个笔记无法更新',
+        failedToApplySize: '在所有笔记中应用尺寸失败',
+        imageCropped: '图片已裁剪',
+        croppedCopyCreated: '裁剪后的图片已另存为 {name}',
+        failedToCrop: '裁剪图片失败',
+        imageRotated: '图片已旋转',
+        imageFlipped: '图片已翻转',
+        failedToTransform: '旋转或翻转图片失败',
+        imageShrunk: '图片已从 {before} 缩小到 {after}',
+        imageAlreadySmaller: '图片宽度已是 {width} px',
+        failedToShrink: '缩小图片失败',
+        imageConverted: '已转换为 {name}:{before} → {after},节省 {difference}',
+        imageConvertedLarger: '已转换为 {name}:{before} → {after},增大 {difference}',
+        failedToConvert: '转换图片失败',
         failedToPerformAction: '{action}失败',
         imageTooLargeToCopy: '图像太大，无法复制到剪贴板',
         fetchingLocalNetworkImage: '正在从本地网络地址获取图像',
@@ -137,6 +194,22 @@ export const STRINGS_ZH = {
             confirmDelete: {
                 name: '删除前确认',
                 desc: '删除文件前显示确认对话框'
+            },
+            backgroundIndexing: {
+                name: '在后台索引图像尺寸',
+                desc: '在 Obsidian 空闲时读取仓库中所有图像的尺寸，使菜单和调整大小无需读取文件'
+            },
+            keepWidthAndHeight: {
+                name: '保持宽 × 高',
+                desc: '调整以宽 × 高（如 640x360）指定尺寸的图像时，保留两者并根据图像宽高比重新计算高度'
+            },
+            dragHandles: {
+                name: '拖动手柄',
+                desc: '在实时预览和阅读视图中，为悬停的图像显示拖动手柄。拖动手柄即可调整大小；宽度会吸附到尺寸选项和 100%'
+            },
+            keepImageMetadata: {
+                name: '缩小图片时保留元数据',
+                desc: '将 JPEG 的 EXIF 数据、颜色配置文件等元数据复制到缩小后的文件中。其他格式保存时不含元数据'
             }
         }
     },
@@ -151,8 +224,129 @@ export const STRINGS_ZH = {
         delete: {
             title: '删除图像',
             confirmMessage: '您确定要删除"{filename}"吗？',
-            warningMessage: '这将删除图像文件以及当前文档中所有指向它的链接。',
+            warningMessage: '这将删除图像文件，并从使用它的笔记中移除其嵌入。',
+            usedInNotes: '它在 {count} 个笔记中被使用：',
+            linkedFrom: '另有 {count} 个笔记或白板链接到它。这些链接不会被移除，删除后将失效：',
+            otherNotesWarning: '还有 {count} 个其他笔记在使用此图像。仅从此笔记中删除会在这些笔记中留下失效链接。',
             deleteButton: '删除',
+            deleteEverywhereButton: '全部删除',
+            deleteInThisNoteButton: '仅在此笔记中',
+            cancelButton: '取消'
+        },
+        setSize: {
+            title: '设置宽 × 高',
+            width: '宽度',
+            height: '高度',
+            lockAspectRatio: '锁定宽高比',
+            setButton: '设置',
+            cancelButton: '取消'
+        },
+        resize: {
+            title: '调整图像大小',
+            amount: '尺寸',
+            units: {
+                px: '像素（宽度）',
+                percent: '原始大小的 %',
+                lineWidth: '行宽的 %',
+                height: '像素（高度）'
+            },
+            result: '{width} × {height} px（{scale}%）',
+            resultWidthOnly: '宽 {width} px',
+            invalidSize: '请输入正数尺寸',
+            resizeButton: '调整大小',
+            cancelButton: '取消'
+        },
+        resizeAll: {
+            title: '调整所有图像大小',
+            rule: '规则',
+            rules: {
+                fit: '适应最大宽度 (px)',
+                percent: '原始尺寸的百分比',
+                clear: '清除自定义尺寸'
+            },
+            amount: '数值',
+            applyButton: '应用',
+            cancelButton: '取消'
+        },
+        bulkResize: {
+            title: '批量调整图像大小',
+            scope: '范围',
+            scopes: {
+                vault: '整个仓库',
+                folder: '文件夹',
+                tag: '标签'
+            },
+            folderPlaceholder: '文件夹路径',
+            tagPlaceholder: '#标签',
+            previewButton: '预览更改',
+            cancelButton: '取消',
+            reviewTitle: '检查更改',
+            scanning: '正在扫描笔记… {done}/{total}',
+            noChanges: '没有图像链接会被更改',
+            summary: '将更改 {notes} 个笔记中的 {links} 个链接',
+            moreChanges: '…以及另外 {count} 个',
+            originalSize: '原始',
+            applyButton: '应用更改',
+            stopButton: '停止',
+            closeButton: '关闭',
+            updating: '正在更新笔记… {done}/{total}',
+            report: '已更新 {notes} 个笔记中的 {links} 个链接',
+            reportCancelled: '在更新所有笔记前已停止',
+            reportFailed: '有 {count} 个笔记无法更新'
+        },
+        applySize: {
+            title: '在所有笔记中应用尺寸',
+            message: '在以下 {count} 个笔记中将“{filename}”的所有嵌入设置为 {size}：',
+            applyButton: '应用',
+            cancelButton: '取消'
+        },
+        crop: {
+            title: '裁剪图片',
+            aspect: '宽高比',
+            aspectFree: '自由',
+            aspectOriginal: '原始比例',
+            x: 'X',
+            y: 'Y',
+            width: '宽度',
+            height: '高度',
+            saveAsCopy: '另存为新文件',
+            cropButton: '裁剪',
+            cancelButton: '取消'
+        },
+        shrink: {
+            title: '缩小图片文件',
+            message: '要用重新采样后更小的文件替换"{filename}"吗?',
+            before: '之前',
+            after: '之后',
+            fileSize: '{width} × {height} px,{size}',
+            notSmaller: '新文件并不比当前文件小。',
+            shrinkButton: '缩小',
+            cancelButton: '取消',
+            resizeTitle: '将图片文件缩小到',
+            reviewTitle: '将图片缩小到显示尺寸',
+            scanning: '正在扫描笔记… {done}/{total}',
+            noImages: '没有图片比笔记中显示的更宽',
+            summary: '{count} 张图片比笔记中显示的更宽(共 {size})',
+            moreImages: '…还有 {count} 项',
+            shrinkAllButton: '缩小图片',
+            stopButton: '停止',
+            closeButton: '关闭',
+            shrinking: '正在缩小图片… {done}/{total}',
+            report: '已将 {count} 张图片从 {before} 缩小到 {after}',
+            reportNotSmaller: '{count} 张图片不会变小,已保留',
+            reportCancelled: '在缩小所有图片之前已停止',
+            reportFailed: '无法缩小 {count} 张图片'
+        },
+        convert: {
+            title: '将 {filename} 转换为 {format}',
+            current: '当前大小:{size}',
+            quality: '质量',
+            projected: '预计大小:{size},节省 {saved}({percent}%)',
+            projectedLarger: '预计大小:{size},比现在大 {increase}',
+            estimating: '正在估算大小…',
+            estimateFailed: '无法估算大小',
+            trashOriginal: '将原文件移到回收站',
+            convertButton: '转换',
             cancelButton: '取消'
         }
     },
@@ -12,9 +12,14 @@ import {
 // Import service classes
 import { EventService } from './events/EventService';
 import { MenuService } from './ui/MenuService';
+import { CommandService } from './ui/CommandService';
 import { ImageService } from './core/ImageService';
 import { LinkService } from './core/LinkService';
 import { FileService } from './core/FileService';
+import { DimensionIndexService } from './core/DimensionIndexService';
+import { BulkResizeService } from './core/BulkResizeService';
+import { CanvasService } from './core/CanvasService';
+import { ShrinkService } from './core/ShrinkService';
 
 // Import types
 import './utils/types';
@@ -56,9 +61,14 @@ export default class PixelPerfectImage extends Plugin {
     // Services
     eventService!: EventService;
     menuService!: MenuService;
+    commandService!: CommandService;
     imageService!: ImageService;
     linkService!: LinkService;
     fileService!: FileService;
+    dimensionIndexService!: DimensionIndexService;
+    bulkResizeService!: BulkResizeService;
+    canvasService!: CanvasService;
+    shrinkService!: ShrinkService;
 
     async onload() {
         await this.loadSettings();
@@ -66,16 +76,29 @@ export default class PixelPerfectImage extends Plugin {
         // Initialize services
         this.eventService = new EventService(this);
         this.menuService = new MenuService(this);
+        this.commandService = new CommandService(this);
         this.imageService = new ImageService(this);
         this.linkService = new LinkService(this);
         this.fileService = new FileService(this);
+        this.dimensionIndexService = new DimensionIndexService(this);
+        this.bulkResizeService = new BulkResizeService(this);
+        this.canvasService = new CanvasService(this);
+        this.shrinkService = new ShrinkService(this);
 
         // Setup plugin
         this.addSettingTab(new PixelPerfectImageSettingTab(this.app, this));
 
         // Register features
         this.menuService.registerImageContextMenu();
+        this.menuService.registerNoteMenus();
+        this.commandService.registerCommands();
         this.eventService.registerEvents();
+        this.linkService.registerSectionTracking();
+        this.app.workspace.onLayoutReady(() => {
+            void this.fileService.trashInterruptedDeletes();
+            void this.dimensionIndexService.load();
+            if (this.settings.indexImagesInBackground) void this.dimensionIndexService.startBackgroundIndexing();
+        });
 
         await this.checkForVersionUpdate();
     }
@@ -85,6 +108,8 @@ export default class PixelPerfectImage extends Plugin {
         this.eventService.cleanup();
         this.menuService.cleanup();
         this.imageService.clearDimensionCache();
+        this.dimensionIndexService.cleanup();
+        this.fileService.cleanup();
         if (this.settingsSaveDebounceTimer !== null) {
             window.clearTimeout(this.settingsSaveDebounceTimer);
             this.settingsSaveDebounceTimer = null;
@@ -0,0 +1,176 @@
+import { Editor, Notice, TFile } from 'obsidian';
+import type PixelPerfectImage from '../main';
+import { strings } from '../i18n';
+import type { TextRange } from '../utils/markdownRanges';
+import { parseResizeSize } from './settings';
+
+/** Number of "Resize image at cursor to preset N" commands; presets past this can't be bound to hotkeys */
+const PRESET_COMMAND_COUNT = 5;
+
+interface ImageAtCursor {
+    activeFile: TFile;
+    imageFile: TFile;
+    range: TextRange;
+}
+
+/**
+ * Registers command palette commands for the image link under the editor cursor, for all images
+ * in the active note and for bulk resizes, so image actions can be bound to hotkeys and used without a mouse.
+ */
+export class CommandService {
+    private plugin: PixelPerfectImage;
+
+    constructor(plugin: PixelPerfectImage) {
+        this.plugin = plugin;
+    }
+
+    registerCommands(): void {
+        for (let index = 0; index < PRESET_COMMAND_COUNT; index++) {
+            const presetNumber = String(index + 1);
+            this.addImageAtCursorCommand(
+                `resize-image-at-cursor-to-preset-${presetNumber}`,
+                strings.commands.resizeToPreset.replace('{n}', presetNumber),
+                image => this.resizeToPreset(image, index),
+                strings.notices.failedToResize,
+                () => parseResizeSize(this.plugin.settings.customResizeSizes[index] ?? '') !== null
+            );
+        }
+
+        this.addImageAtCursorCommand(
+            'increase-image-width-at-cursor',
+            strings.commands.increaseWidth,
+            image => this.stepWidth(image, 1),
+            strings.notices.failedToResize
+        );
+        this.addImageAtCursorCommand(
+            'decrease-image-width-at-cursor',
+            strings.commands.decreaseWidth,
+            image => this.stepWidth(image, -1),
+            strings.notices.failedToResize
+        );
+        this.addImageAtCursorCommand(
+            'reset-image-size-at-cursor',
+            strings.commands.resetSize,
+            async ({ activeFile, imageFile, range }) => {
+                await this.plugin.imageService.removeImageWidth(imageFile, activeFile, range);
+                new Notice(strings.notices.customSizeRemoved);
+            },
+            strings.notices.failedToRemoveSize
+        );
+        this.addImageAtCursorCommand(
+            'copy-image-at-cursor',
+            strings.commands.copyImage,
+            async ({ imageFile }) => {
+                await this.plugin.imageService.copyImageFileToClipboard(imageFile);
+                new Notice(strings.notices.imageCopied);
+            },
+            strings.notices.failedToCopyImage,
+            // SVGs aren't offered for copying in the context menu either
+            image => image.imageFile.extension.toLowerCase() !== 'svg'
+        );
+        this.addImageAtCursorCommand(
+            'rename-image-at-cursor',
+            strings.commands.renameImage,
+            ({ imageFile }) => this.plugin.fileService.renameImage(imageFile),
+            strings.notices.failedToRenameImage
+        );
+        this.addImageAtCursorCommand(
+            'delete-image-at-cursor',
+            strings.commands.deleteImage,
+            ({ imageFile }) => this.plugin.fileService.deleteImageAndLink(imageFile),
+            strings.notices.failedToDeleteImage
+        );
+
+        this.plugin.addCommand({
+            id: 'resize-all-images-in-note',
+            name: strings.commands.resizeAllImages,
+            checkCallback: checking => {
+                const file = this.plugin.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'md') return false;
+
+                if (!checking) {
+                    this.plugin.menuService.createMenuClickHandler(
+                        () => this.plugin.menuService.resizeAllImagesFromModal(file),
+                        strings.notices.failedToResizeAllImages
+                    )();
+                }
+                return true;
+            }
+        });
+        this.plugin.addCommand({
+            id: 'bulk-resize-images',
+            name: strings.commands.bulkResize,
+            callback: () => {
+                this.plugin.menuService.createMenuClickHandler(
+                    () => this.plugin.menuService.bulkResizeFromModal({ kind: 'vault' }),
+                    strings.notices.failedToBulkResize
+                )();
+            }
+        });
+        this.plugin.addCommand({
+            id: 'shrink-images-in-vault',
+            name: strings.commands.shrinkImagesInVault,
+            callback: () => this.plugin.menuService.shrinkImagesInVault()
+        });
+    }
+
+    /**
+     * Adds an editor command that is only available while the cursor is on a link to an image in the vault.
+     * @param isAvailable - Further condition for the command to be listed
+     */
+    private addImageAtCursorCommand(
+        id: string,
+        name: string,
+        action: (image: ImageAtCursor) => Promise<void>,
+        errorMessage: string,
+        isAvailable?: (image: ImageAtCursor) => boolean
+    ): void {
+        this.plugin.addCommand({
+            id,
+            name,
+            editorCheckCallback: (checking, editor, ctx) => {
+                const image = this.getImageAtCursor(editor, ctx.file);
+                if (!image || (isAvailable && !isAvailable(image))) return false;
+
+                if (!checking) {
+                    this.plugin.menuService.createMenuClickHandler(() => action(image), errorMessage)();
+                }
+                return true;
+            }
+        });
+    }
+
+    private getImageAtCursor(editor: Editor, activeFile: TFile | null): ImageAtCursor | null {
+        if (!activeFile) return null;
+
+        const offset = editor.posToOffset(editor.getCursor());
+        const link = this.plugin.linkService.findImageLinkAtOffset(editor.getValue(), activeFile, offset);
+        return link ? { activeFile, ...link } : null;
+    }
+
+    private async resizeToPreset({ activeFile, imageFile, range }: ImageAtCursor, index: number): Promise<void> {
+        const parsed = parseResizeSize(this.plugin.settings.customResizeSizes[index] ?? '');
+        if (!parsed) return;
+
+        const newWidth =
+            parsed.unit === 'px'
+                ? parsed.amount
+                : Math.round(((await this.plugin.imageService.readImageDimensions(imageFile)).width * parsed.amount) / 100);
+        await this.plugin.imageService.updateImageLinkWidth(imageFile, newWidth, activeFile, range);
+    }
+
+    /**
+     * Grows or shrinks the width of the image by the mousewheel zoom step.
+     * @param direction - 1 to increase the width, -1 to decrease it
+     */
+    private async stepWidth({ activeFile, imageFile, range }: ImageAtCursor, direction: 1 | -1): Promise<void> {
+        const currentWidth =
+            this.plugin.imageService.getCurrentImageWidth(activeFile, imageFile, range) ??
+            (await this.plugin.imageService.readImageDimensions(imageFile)).width;
+        const stepSize = Math.max(1, Math.round(currentWidth * (this.plugin.settings.wheelZoomPercentage / 100)));
+        const newWidth = Math.max(1, currentWidth + direction * stepSize);
+        if (newWidth === currentWidth) return;
+
+        await this.plugin.imageService.updateImageLinkWidth(imageFile, newWidth, activeFile, range);
+    }
+}
@@ -1,17 +1,34 @@
-import { FileSystemAdapter, Menu, Notice, Platform, TFile } from 'obsidian';
+import { FileSystemAdapter, Menu, MenuItem, Notice, Platform, TFile, TFolder } from 'obsidian';
 import type PixelPerfectImage from '../main';
 import {
     errorLog,
     findImageElement,
     findLastObsidianImageSizeParam,
     findMarkdownViewForElement,
+    findMediaEmbedElement,
+    formatFileSize,
     getBestHttpImageSource,
     getImageSourceCandidates,
     getWorkspaceWindows,
     isRemoteImage,
-    isUserVisibleError
+    isUserVisibleError,
+    swapImageSizeParam
 } from '../utils/utils';
 import { parseResizeSize } from './settings';
+import {
+    ApplySizeConfirmationModal,
+    BulkResizeModal,
+    ConvertModal,
+    CropModal,
+    BulkResizeReviewModal,
+    ImageSizeModal,
+    NoteResizeModal,
+    ResizeModal,
+    ShrinkConfirmationModal,
+    ShrinkReviewModal
+} from './modals';
+import type { BulkResizeScope, CanvasImage, ConvertFormat, CropRegion, ImageTransform, NoteResizeRule } from '../utils/types';
+import { isQuarterTurn } from '../utils/orientation';
 import { strings } from '../i18n';
 
 /**
@@ -75,37 +92,72 @@ export class MenuService {
         if (!isSvg) {
             actualWidth = this.getRasterNaturalDimensions(img)?.width ?? null;
         }
+        this.addPresetResizeMenuItems(menu, customWidth, actualWidth, width =>
+            this.plugin.imageService.resizeExternalImage(activeFile, imageUrl, img, width, true)
+        );
+
+        if (customWidth !== null) {
+            this.addMenuItem(
+                menu,
+                strings.menu.removeCustomSize,
+                'reset',
+                async () => {
+                    await this.plugin.imageService.removeExternalImageWidth(activeFile, imageUrl);
+                    new Notice(strings.notices.customSizeRemoved);
+                },
+                strings.notices.failedToRemoveSize
+            );
+        }
+    }
+
+    /**
+     * Adds an item per configured resize preset. Percentages are of the original width and are
+     * disabled when it's unknown; the preset matching the current width is disabled as well.
+     */
+    private addPresetResizeMenuItems(
+        menu: Menu,
+        customWidth: number | null,
+        actualWidth: number | null,
+        resize: (width: number) => Promise<void>
+    ): void {
         const currentScale = customWidth !== null && actualWidth !== null ? Math.round((customWidth / actualWidth) * 100) : null;
 
-        // Add resize options from settings
-        if (this.plugin.settings.customResizeSizes.length > 0) {
-            this.plugin.settings.customResizeSizes.forEach(sizeStr => {
-                const parsed = parseResizeSize(sizeStr);
-                if (!parsed) return; // Skip invalid formats
-
-                const value = parsed.amount;
-                const unit = parsed.unit;
-                const label = strings.menu.resizeTo.replace('{size}', sizeStr);
-                const isPercentage = unit === '%';
-                const disabled = isPercentage ? (isSvg && actualWidth === null ? true : currentScale === value) : customWidth === value;
-
-                let icon = 'image';
-                if (isPercentage) {
-                    icon = value === 100 ? 'image' : 'percent';
-                } else {
-                    icon = 'ruler';
-                }
+        for (const sizeStr of this.plugin.settings.customResizeSizes) {
+            const parsed = parseResizeSize(sizeStr);
+            if (!parsed) continue;
 
-                this.addMenuItem(
-                    menu,
-                    label,
-                    icon,
-                    () => this.plugin.imageService.resizeExternalImage(activeFile, imageUrl, img, value, !isPercentage),
-                    strings.notices.failedToResizeTo.replace('{size}', sizeStr),
-                    disabled
-                );
-            });
+            const isPercentage = parsed.unit === '%';
+            const value = parsed.amount;
+            this.addMenuItem(
+                menu,
+                strings.menu.resizeTo.replace('{size}', sizeStr),
+                isPercentage ? (value === 100 ? 'image' : 'percent') : 'ruler',
+                () => resize(isPercentage && actualWidth !== null ? Math.round((actualWidth * value) / 100) : value),
+                strings.notices.failedToResizeTo.replace('{size}', sizeStr),
+                isPercentage ? actualWidth === null || currentScale === value : customWidth === value
+            );
         }
+    }
+
+    /**
+     * Adds the menu of a video, PDF or drawing embed: its name and size, the resize presets and
+     * removing the custom size. The width is written to the embed's link like an image's.
+     */
+    private async addMediaEmbedMenuItems(menu: Menu, embed: HTMLElement, activeFile: TFile, mediaFile: TFile): Promise<void> {
+        const occurrence = this.plugin.linkService.locateImageLink(embed, activeFile, mediaFile);
+        const customWidth = this.plugin.imageService.getCurrentImageWidth(activeFile, mediaFile, occurrence);
+        const dimensions = await this.plugin.imageService.readMediaDimensions(mediaFile, embed);
+
+        if (this.plugin.settings.showFileInfo) {
+            const scaleText = customWidth !== null && dimensions ? ` @ ${Math.round((customWidth / dimensions.width) * 100)}%` : '';
+            this.addInfoMenuItem(menu, `${mediaFile.name}${scaleText}`, 'file');
+            if (dimensions) this.addInfoMenuItem(menu, `${dimensions.width} × ${dimensions.height} px`, 'info');
+            menu.addSeparator();
+        }
+
+        this.addPresetResizeMenuItems(menu, customWidth, dimensions?.width ?? null, width =>
+            this.plugin.imageService.updateImageLinkWidth(mediaFile, width, activeFile, occurrence)
+        );
 
         if (customWidth !== null) {
             this.addMenuItem(
@@ -113,7 +165,42 @@ export class MenuService {
                 strings.menu.removeCustomSize,
                 'reset',
                 async () => {
-                    await this.plugin.imageService.removeExternalImageWidth(activeFile, imageUrl);
+                    await this.plugin.imageService.removeImageWidth(mediaFile, activeFile, occurrence);
+                    new Notice(strings.notices.customSizeRemoved);
+                },
+                strings.notices.failedToRemoveSize
+            );
+        }
+    }
+
+    /**
+     * Adds the resize options for an image in a canvas. A file node is sized as a whole and can be
+     * reset to the image's original size; an image in a text node has its link resized.
+     */
+    async addCanvasResizeMenuItems(menu: Menu, img: HTMLImageElement, canvasImage: CanvasImage): Promise<void> {
+        const customWidth = await this.plugin.canvasService.getImageWidth(canvasImage);
+        const actualWidth =
+            this.getRasterNaturalDimensions(img)?.width ??
+            (await this.plugin.imageService.readImageDimensions(canvasImage.imageFile).catch(() => null))?.width ??
+            null;
+        this.addPresetResizeMenuItems(menu, customWidth, actualWidth, width => this.plugin.canvasService.setImageWidth(canvasImage, width));
+
+        if (canvasImage.nodeType === 'file') {
+            this.addMenuItem(
+                menu,
+                strings.menu.resetToOriginalSize,
+                'reset',
+                () => this.plugin.canvasService.setImageWidth(canvasImage, null),
+                strings.notices.failedToResize,
+                actualWidth === null || customWidth === actualWidth
+            );
+        } else if (customWidth !== null) {
+            this.addMenuItem(
+                menu,
+                strings.menu.removeCustomSize,
+                'reset',
+                async () => {
+                    await this.plugin.canvasService.setImageWidth(canvasImage, null);
                     new Notice(strings.notices.customSizeRemoved);
                 },
                 strings.notices.failedToRemoveSize
@@ -142,6 +229,90 @@ export class MenuService {
         );
     }
 
+    /**
+     * Adds the note-level "Resize all images…" item to the file menu and the editor menu of markdown notes,
+     * and the bulk resize item to the file menu of folders.
+     */
+    registerNoteMenus(): void {
+        this.plugin.registerEvent(
+            this.plugin.app.workspace.on('file-menu', (menu, file) => {
+                if (file instanceof TFile && file.extension === 'md') this.addResizeAllImagesMenuItem(menu, file);
+                if (file instanceof TFolder) {
+                    this.addMenuItem(
+                        menu,
+                        strings.menu.resizeImagesInFolder,
+                        'images',
+                        () => this.bulkResizeFromModal({ kind: 'folder', path: file.path }),
+                        strings.notices.failedToBulkResize
+                    );
+                }
+            })
+        );
+        this.plugin.registerEvent(
+            this.plugin.app.workspace.on('editor-menu', (menu, _editor, info) => {
+                if (info.file) this.addResizeAllImagesMenuItem(menu, info.file);
+            })
+        );
+    }
+
+    private addResizeAllImagesMenuItem(menu: Menu, file: TFile): void {
+        this.addMenuItem(
+            menu,
+            strings.menu.resizeAllImages,
+            'images',
+            () => this.resizeAllImagesFromModal(file),
+            strings.notices.failedToResizeAllImages
+        );
+    }
+
+    /**
+     * Asks for a resize rule and applies it to every image in a note, then reports how many links changed.
+     */
+    async resizeAllImagesFromModal(file: TFile): Promise<void> {
+        const rule = await new Promise<NoteResizeRule | null>(resolve => {
+            new NoteResizeModal(this.plugin.app, resolve).open();
+        });
+        if (!rule) return;
+
+        const { total, changed } = await this.plugin.imageService.resizeAllImagesInNote(file, rule);
+        new Notice(
+            total === 0
+                ? strings.notices.noImagesInNote
+                : strings.notices.noteImagesResized.replace('{changed}', String(changed)).replace('{total}', String(total))
+        );
+    }
+
+    /**
+     * Asks for the notes and rule of a bulk resize, then shows its dry run for confirmation.
+     */
+    async bulkResizeFromModal(initialScope: BulkResizeScope): Promise<void> {
+        const options = await new Promise<{ scope: BulkResizeScope; rule: NoteResizeRule } | null>(resolve => {
+            new BulkResizeModal(this.plugin.app, initialScope, resolve).open();
+        });
+        if (!options) return;
+
+        const { bulkResizeService } = this.plugin;
+        const notes = bulkResizeService.getNotesInScope(options.scope);
+        new BulkResizeReviewModal(
+            this.plugin.app,
+            progress => bulkResizeService.planBulkResize(notes, options.rule, progress),
+            (plan, progress) => bulkResizeService.applyBulkResize(plan, options.rule, progress)
+        ).open();
+    }
+
+    /**
+     * Finds the images in the vault that are wider than any note shows them and shrinks them once
+     * the list is confirmed.
+     */
+    shrinkImagesInVault(): void {
+        const { shrinkService } = this.plugin;
+        new ShrinkReviewModal(
+            this.plugin.app,
+            progress => shrinkService.planShrink(progress),
+            (plan, progress) => shrinkService.applyShrink(plan, progress)
+        ).open();
+    }
+
     private registerImageContextMenuForWindow(currentWindow: Window): void {
         if (this.windowEventCleanups.has(currentWindow)) return;
 
@@ -211,7 +382,29 @@ export class MenuService {
         if ('touches' in ev && ev.touches.length > 1) return;
 
         const img = findImageElement(ev.target);
-        if (!img) return;
+        if (!img) {
+            await this.handleMediaEmbedContextMenu(ev);
+            return;
+        }
+
+        const canvasImage = this.plugin.canvasService.findCanvasImage(img);
+        if (canvasImage) {
+            ev.preventDefault();
+            ev.stopPropagation();
+
+            const canvasMenu = new Menu();
+            await this.addDimensionsMenuItem(
+                canvasMenu,
+                img,
+                { activeFile: canvasImage.canvasFile, imgFile: canvasImage.imageFile },
+                await this.plugin.canvasService.getImageWidth(canvasImage)
+            );
+            this.addCopyImageMenuItem(canvasMenu, img);
+            canvasMenu.addSeparator();
+            await this.addCanvasResizeMenuItems(canvasMenu, img, canvasImage);
+            this.showMenu(canvasMenu, ev);
+            return;
+        }
 
         // Resolve the markdown view that owns this image element (supports multiple panes).
         const markdownView = findMarkdownViewForElement(this.plugin.app, img);
@@ -260,12 +453,17 @@ export class MenuService {
             const resolvedImage = activeFile
                 ? await this.plugin.fileService.getImageFileWithErrorHandling(img, true, activeFile)
                 : await this.plugin.fileService.getImageFileWithErrorHandling(img);
+            // Resolve the clicked link so a note embedding the image twice reports and edits only this one.
+            const occurrence = resolvedImage
+                ? this.plugin.linkService.locateImageLink(img, resolvedImage.activeFile, resolvedImage.imgFile)
+                : null;
             const currentWidth = resolvedImage
-                ? this.plugin.imageService.getCurrentImageWidth(resolvedImage.activeFile, resolvedImage.imgFile)
+                ? this.plugin.imageService.getCurrentImageWidth(resolvedImage.activeFile, resolvedImage.imgFile, occurrence)
                 : null;
             // For local images, show all normal options
             await this.addDimensionsMenuItem(menu, img, resolvedImage, currentWidth);
             await this.addResizeMenuItems(menu, img, resolvedImage, currentWidth);
+            await this.addImageEditMenuItems(menu, img, resolvedImage, currentWidth);
 
             // Only add file operations on desktop
             if (!Platform.isMobile) {
@@ -273,6 +471,31 @@ export class MenuService {
             }
         }
 
+        this.showMenu(menu, ev);
+    }
+
+    /**
+     * Shows the menu of a video, PDF or drawing embed in a markdown note. Other embeds keep their
+     * own menu.
+     */
+    private async handleMediaEmbedContextMenu(ev: MouseEvent | TouchEvent): Promise<void> {
+        const embed = findMediaEmbedElement(ev.target);
+        if (!embed) return;
+
+        const activeFile = findMarkdownViewForElement(this.plugin.app, embed)?.file;
+        const mediaFile = activeFile ? this.plugin.fileService.getFileForMediaEmbed(embed, activeFile) : null;
+        if (!activeFile || !mediaFile) return;
+
+        ev.preventDefault();
+        ev.stopPropagation();
+
+        const menu = new Menu();
+        await this.addMediaEmbedMenuItems(menu, embed, activeFile, mediaFile);
+        this.showMenu(menu, ev);
+    }
+
+    /** Shows a menu at the mouse, or at the touch that opened it. */
+    private showMenu(menu: Menu, ev: MouseEvent | TouchEvent): void {
         if (ev.instanceOf(MouseEvent)) {
             menu.showAtMouseEvent(ev);
             return;
@@ -319,11 +542,16 @@ export class MenuService {
             const isSvg = result.imgFile.extension.toLowerCase() === 'svg' || this.isSvgBySrc(img);
             let width: number;
             let height: number;
+            let rotated = false;
             const rasterDimensions = !isSvg ? this.getRasterNaturalDimensions(img) : null;
             if (rasterDimensions) {
                 ({ width, height } = rasterDimensions);
+                // The rendered size already has the orientation applied; the file header tells whether there was one.
+                // The file is only peeked at, so opening the menu never reads a whole photo.
+                const fileDimensions = await this.plugin.imageService.peekImageDimensions(result.imgFile).catch(() => null);
+                rotated = fileDimensions?.rotated ?? false;
             } else {
-                ({ width, height } = await this.plugin.imageService.readImageDimensions(result.imgFile));
+                ({ width, height, rotated } = await this.plugin.imageService.readImageDimensions(result.imgFile));
             }
 
             // Get current scale if set
@@ -338,7 +566,8 @@ export class MenuService {
             this.addInfoMenuItem(menu, `${result.imgFile.name}${scaleText}`, 'image-file');
 
             // Add dimensions menu item
-            this.addInfoMenuItem(menu, `${width} × ${height} px`, 'info');
+            const rotatedText = rotated ? ` (${strings.menu.rotatedByMetadata})` : '';
+            this.addInfoMenuItem(menu, `${width} × ${height} px${rotatedText}`, 'info');
         } catch (error) {
             errorLog('Could not read dimensions:', error);
             const message = isUserVisibleError(error) ? error.message : strings.notices.couldNotReadDimensions;
@@ -422,7 +651,6 @@ export class MenuService {
     ): Promise<void> {
         // Get current scale and file info
         const result = resolvedImage !== undefined ? resolvedImage : null;
-        let currentScale: number | null = null;
         const customWidth =
             currentWidth !== undefined
                 ? currentWidth
@@ -479,52 +707,53 @@ export class MenuService {
                 actualWidth = null;
             }
         }
-        currentScale = customWidth !== null && actualWidth !== null ? Math.round((customWidth / actualWidth) * 100) : null;
-
-        // Add resize options from settings
-        if (this.plugin.settings.customResizeSizes.length > 0) {
-            this.plugin.settings.customResizeSizes.forEach(sizeStr => {
-                const parsed = parseResizeSize(sizeStr);
-                if (!parsed) return; // Skip invalid formats
-
-                const value = parsed.amount;
-                const unit = parsed.unit;
-                const label = strings.menu.resizeTo.replace('{size}', sizeStr);
-                const isPercentage = unit === '%';
-                const disabled = isPercentage ? (isSvg && actualWidth === null ? true : currentScale === value) : customWidth === value;
-
-                // Choose icon based on unit type and value
-                let icon = 'image';
-                if (isPercentage) {
-                    if (value === 100) {
-                        icon = 'image'; // Original size (100%)
-                    } else {
-                        icon = 'percent'; // Any other percentage
-                    }
-                } else {
-                    // Use ruler/dimensions icon for pixel sizes
-                    icon = 'ruler'; // Fixed pixel size
-                }
+        this.addPresetResizeMenuItems(menu, customWidth, actualWidth, width =>
+            this.plugin.imageService.resizeImage(img, width, true, result.activeFile)
+        );
 
-                this.addMenuItem(
-                    menu,
-                    label,
-                    icon,
-                    () => this.plugin.imageService.resizeImage(img, value, !isPercentage, result.activeFile),
-                    strings.notices.failedToResizeTo.replace('{size}', sizeStr),
-                    disabled
-                );
-            });
-        }
+        this.addMenuItem(
+            menu,
+            strings.menu.resizeToCustom,
+            'move-diagonal-2',
+            () => this.resizeFromModal(img, result.activeFile, imgFile, isSvg),
+            strings.notices.failedToResize
+        );
+
+        this.addMenuItem(
+            menu,
+            strings.menu.setWidthAndHeight,
+            'scaling',
+            () => this.setImageSizeFromModal(img, result.activeFile, imgFile),
+            strings.notices.failedToSetSize
+        );
+
+        // The mode applies to every resize, so the item toggles the setting
+        menu.addItem(item => {
+            item.setTitle(strings.menu.keepWidthAndHeight)
+                .setIcon('lock')
+                .setChecked(this.plugin.settings.keepWidthAndHeight)
+                .onClick(() => {
+                    this.plugin.settings.keepWidthAndHeight = !this.plugin.settings.keepWidthAndHeight;
+                    void this.plugin.saveSettings();
+                });
+        });
 
-        // Add option to remove custom size if one is set
+        // Add options to spread or remove the custom size if one is set
         if (customWidth !== null) {
+            this.addMenuItem(
+                menu,
+                strings.menu.applySizeInAllNotes,
+                'files',
+                () => this.applySizeInAllNotes(img, result.activeFile, imgFile),
+                strings.notices.failedToApplySize
+            );
             this.addMenuItem(
                 menu,
                 strings.menu.removeCustomSize,
                 'reset',
                 async () => {
-                    await this.plugin.imageService.removeImageWidth(imgFile, result.activeFile);
+                    const occurrence = this.plugin.linkService.locateImageLink(img, result.activeFile, imgFile);
+                    await this.plugin.imageService.removeImageWidth(imgFile, result.activeFile, occurrence);
                     new Notice(strings.notices.customSizeRemoved);
                 },
                 strings.notices.failedToRemoveSize
@@ -532,6 +761,328 @@ export class MenuService {
         }
     }
 
+    /**
+     * Adds the items that edit the image file itself, for the formats that can be written back.
+     * @param currentWidth - Width of the clicked link, or null when it has no size
+     */
+    private async addImageEditMenuItems(
+        menu: Menu,
+        img: HTMLImageElement,
+        resolvedImage: { activeFile: TFile; imgFile: TFile } | null,
+        currentWidth: number | null
+    ): Promise<void> {
+        if (!resolvedImage) return;
+        const { activeFile, imgFile } = resolvedImage;
+        const convertFormats = this.plugin.imageService.getConvertFormats(imgFile);
+
+        // Formats a canvas can't encode, such as AVIF or BMP, can still be converted to one it can
+        if (!this.plugin.imageService.canEditImage(imgFile)) {
+            if (convertFormats.length === 0) return;
+            menu.addSeparator();
+            this.addConvertMenuItems(menu, activeFile, imgFile, convertFormats);
+            return;
+        }
+
+        menu.addSeparator();
+        this.addMenuItem(menu, strings.menu.crop, 'crop', () => this.cropFromModal(imgFile), strings.notices.failedToCrop);
+
+        const transforms: { transform: ImageTransform; title: string; icon: string }[] = [
+            { transform: 'rotateLeft', title: strings.menu.rotateLeft, icon: 'rotate-ccw' },
+            { transform: 'rotateRight', title: strings.menu.rotateRight, icon: 'rotate-cw' },
+            { transform: 'rotate180', title: strings.menu.rotate180, icon: 'refresh-cw' },
+            { transform: 'flipHorizontal', title: strings.menu.flipHorizontal, icon: 'flip-horizontal' },
+            { transform: 'flipVertical', title: strings.menu.flipVertical, icon: 'flip-vertical' }
+        ];
+        for (const { transform, title, icon } of transforms) {
+            this.addMenuItem(
+                menu,
+                title,
+                icon,
+                () => this.transformImage(activeFile, imgFile, transform),
+                strings.notices.failedToTransform
+            );
+        }
+
+        const originalWidth =
+            this.getRasterNaturalDimensions(img)?.width ??
+            (await this.plugin.imageService.readImageDimensions(imgFile).catch(() => null))?.width ??
+            null;
+        if (currentWidth !== null && originalWidth !== null && currentWidth < originalWidth) {
+            this.addMenuItem(
+                menu,
+                strings.menu.shrinkToDisplayedSize,
+                'minimize-2',
+                () => this.shrinkImage(imgFile, currentWidth),
+                strings.notices.failedToShrink
+            );
+        }
+        this.addMenuItem(
+            menu,
+            strings.menu.shrinkTo,
+            'minimize-2',
+            () => this.shrinkFromModal(img, imgFile),
+            strings.notices.failedToShrink
+        );
+        this.addConvertMenuItems(menu, activeFile, imgFile, convertFormats);
+    }
+
+    /**
+     * Adds the formats an image can be converted to, in a submenu where Obsidian has them and as
+     * separate items otherwise.
+     */
+    private addConvertMenuItems(menu: Menu, activeFile: TFile, imgFile: TFile, formats: ConvertFormat[]): void {
+        if (formats.length === 0) return;
+
+        if (typeof MenuItem.prototype.setSubmenu !== 'function') {
+            for (const format of formats) {
+                this.addMenuItem(
+                    menu,
+                    strings.menu.convertToFormat.replace('{format}', format.label),
+                    'file-output',
+                    () => this.convertFromModal(activeFile, imgFile, format),
+                    strings.notices.failedToConvert
+                );
+            }
+            return;
+        }
+
+        menu.addItem(item => {
+            item.setTitle(strings.menu.convertTo).setIcon('file-output');
+            const submenu = item.setSubmenu?.();
+            if (!submenu) return;
+            for (const format of formats) {
+                this.addMenuItem(
+                    submenu,
+                    format.label,
+                    'image',
+                    () => this.convertFromModal(activeFile, imgFile, format),
+                    strings.notices.failedToConvert
+                );
+            }
+        });
+    }
+
+    /**
+     * Asks for the quality to convert an image at, projecting the size of the result, then writes
+     * the converted file next to the image and points the image's links at it.
+     */
+    private async convertFromModal(activeFile: TFile, imgFile: TFile, format: ConvertFormat): Promise<void> {
+        const { fileService, imageService, settings } = this.plugin;
+
+        // The encode made for the projected size is kept, so converting at that quality doesn't encode again
+        let encoded: { quality: number; data: Promise<ArrayBuffer> } | null = null;
+        const encode = (quality: number): Promise<ArrayBuffer> => {
+            if (encoded?.quality !== quality) {
+                encoded = { quality, data: imageService.convertImage(imgFile, format.mimeType, quality / 100) };
+            }
+            return encoded.data;
+        };
+
+        const result = await new Promise<{ quality: number; trashOriginal: boolean } | null>(resolve => {
+            new ConvertModal(
+                this.plugin.app,
+                imgFile,
+                format,
+                settings.lastConvertQuality,
+                async quality => (await encode(quality)).byteLength,
+                resolve
+            ).open();
+        });
+        if (!result) return;
+
+        if (format.lossy && result.quality !== settings.lastConvertQuality) {
+            settings.lastConvertQuality = result.quality;
+            void this.plugin.saveSettings();
+        }
+
+        const bytesBefore = imgFile.stat.size;
+        const data = await encode(result.quality);
+        const newFile = await fileService.convertImage(imgFile, format, data, result.trashOriginal, activeFile);
+
+        const bytesAfter = data.byteLength;
+        const message = (bytesAfter < bytesBefore ? strings.notices.imageConverted : strings.notices.imageConvertedLarger)
+            .replace('{name}', newFile.name)
+            .replace('{before}', formatFileSize(bytesBefore))
+            .replace('{after}', formatFileSize(bytesAfter))
+            .replace('{difference}', formatFileSize(Math.abs(bytesBefore - bytesAfter)));
+        new Notice(message);
+    }
+
+    /**
+     * Resamples an image file to a smaller width and, once the sizes before and after are
+     * confirmed, replaces the file with it.
+     */
+    private async shrinkImage(imgFile: TFile, width: number): Promise<void> {
+        const shrunk = await this.plugin.imageService.shrinkImage(imgFile, width);
+        const before = { width: shrunk.originalWidth, height: shrunk.originalHeight, bytes: imgFile.stat.size };
+        const after = { width: shrunk.width, height: shrunk.height, bytes: shrunk.data.byteLength };
+        const confirmed = await new Promise<boolean>(resolve => {
+            new ShrinkConfirmationModal(this.plugin.app, imgFile, before, after, resolve).open();
+        });
+        if (!confirmed) return;
+
+        await this.plugin.shrinkService.writeShrunkImage(imgFile, shrunk);
+        new Notice(
+            strings.notices.imageShrunk.replace('{before}', formatFileSize(before.bytes)).replace('{after}', formatFileSize(after.bytes))
+        );
+    }
+
+    /**
+     * Asks for the width to shrink an image file to, in pixels or relative to its size or the line width.
+     */
+    private async shrinkFromModal(img: HTMLImageElement, imgFile: TFile): Promise<void> {
+        const originalSize =
+            this.getRasterNaturalDimensions(img) ?? (await this.plugin.imageService.readImageDimensions(imgFile).catch(() => null));
+        const width = await new Promise<number | null>(resolve => {
+            new ResizeModal(this.plugin.app, originalSize, this.getReadableLineWidth(img), null, () => {}, resolve, {
+                title: strings.modals.shrink.resizeTitle,
+                submitButton: strings.modals.shrink.shrinkButton
+            }).open();
+        });
+        if (width === null) return;
+
+        if (originalSize && width >= originalSize.width) {
+            new Notice(strings.notices.imageAlreadySmaller.replace('{width}', String(originalSize.width)));
+            return;
+        }
+        await this.shrinkImage(imgFile, width);
+    }
+
+    /**
+     * Rotates or mirrors an image file. After a quarter turn, the WxH sizes of the image's links in
+     * the note are swapped so the embed keeps its shape.
+     */
+    private async transformImage(activeFile: TFile, imgFile: TFile, transform: ImageTransform): Promise<void> {
+        await this.plugin.imageService.transformImage(imgFile, transform);
+        if (isQuarterTurn(transform)) {
+            await this.plugin.linkService.updateImageLinks(activeFile, imgFile, swapImageSizeParam);
+        }
+        new Notice(transform.startsWith('flip') ? strings.notices.imageFlipped : strings.notices.imageRotated);
+    }
+
+    /**
+     * Asks for the region to keep and crops the image, in place or into a new file next to it.
+     */
+    private async cropFromModal(imgFile: TFile): Promise<void> {
+        const result = await new Promise<{ region: CropRegion; saveAsCopy: boolean } | null>(resolve => {
+            new CropModal(this.plugin.app, this.plugin.app.vault.getResourcePath(imgFile), resolve).open();
+        });
+        if (!result) return;
+
+        const cropped = await this.plugin.imageService.cropImage(imgFile, result.region, result.saveAsCopy);
+        new Notice(result.saveAsCopy ? strings.notices.croppedCopyCreated.replace('{name}', cropped.name) : strings.notices.imageCropped);
+    }
+
+    /**
+     * Measures the readable line width of the note around an image: the content column of the
+     * editor or reading view, without its padding.
+     */
+    private getReadableLineWidth(img: HTMLImageElement): number | null {
+        const container = img.closest<HTMLElement>('.cm-content, .markdown-preview-sizer');
+        if (!container) return null;
+
+        const style = container.win.getComputedStyle(container);
+        const width = container.clientWidth - parseFloat(style.paddingLeft) - parseFloat(style.paddingRight);
+        return width > 0 ? Math.round(width) : null;
+    }
+
+    /**
+     * Asks for a custom size, previewing it on the image while the dialog is open, and writes
+     * the width to the clicked link.
+     */
+    private async resizeFromModal(img: HTMLImageElement, activeFile: TFile, imgFile: TFile, isSvg: boolean): Promise<void> {
+        const occurrence = this.plugin.linkService.locateImageLink(img, activeFile, imgFile);
+        const currentWidth = this.plugin.imageService.getCurrentImageWidth(activeFile, imgFile, occurrence);
+        const originalSize =
+            (!isSvg ? this.getRasterNaturalDimensions(img) : null) ??
+            (await this.plugin.imageService.readImageDimensions(imgFile).catch(() => null));
+
+        // Preview with an inline width, like wheel zoom, and restore the attributes it replaces on cancel
+        const previousWidthAttr = img.getAttribute('width');
+        const previousHeightAttr = img.getAttribute('height');
+        const previousInlineWidth = img.style.width;
+        const preview = (width: number | null) => {
+            if (width !== null) {
+                img.style.width = `${width}px`;
+                img.removeAttribute('height');
+                img.setAttribute('width', String(width));
+                return;
+            }
+
+            img.style.width = previousInlineWidth;
+            if (previousWidthAttr !== null) img.setAttribute('width', previousWidthAttr);
+            else img.removeAttribute('width');
+            if (previousHeightAttr !== null) img.setAttribute('height', previousHeightAttr);
+        };
+
+        const width = await new Promise<number | null>(resolve => {
+            new ResizeModal(
+                this.plugin.app,
+                originalSize,
+                this.getReadableLineWidth(img),
+                currentWidth ?? originalSize?.width ?? null,
+                preview,
+                resolve
+            ).open();
+        });
+        if (width === null) return;
+
+        try {
+            await this.plugin.imageService.updateImageLinkWidth(imgFile, width, activeFile, occurrence);
+        } catch (error) {
+            preview(null);
+            throw error;
+        }
+
+        // The re-rendered embed takes its width from the link; only the inline preview width is ours to remove
+        img.style.width = previousInlineWidth;
+    }
+
+    /**
+     * Gives every embed of the image in the vault the size of the clicked link, after confirming the notes it changes.
+     */
+    private async applySizeInAllNotes(img: HTMLImageElement, activeFile: TFile, imgFile: TFile): Promise<void> {
+        const occurrence = this.plugin.linkService.locateImageLink(img, activeFile, imgFile);
+        const size = this.plugin.imageService.getCurrentImageSize(activeFile, imgFile, occurrence);
+        if (!size) return;
+
+        const notes = this.plugin.linkService.findNotesEmbeddingImage(imgFile);
+        const sizeLabel = size.height !== undefined ? `${size.width} × ${size.height}` : `${size.width} px`;
+        const confirmed = await new Promise<boolean>(resolve => {
+            new ApplySizeConfirmationModal(this.plugin.app, imgFile, sizeLabel, notes, resolve).open();
+        });
+        if (!confirmed) return;
+
+        const { changed, failed } = await this.plugin.imageService.applyImageSizeInNotes(imgFile, size, notes);
+        const message = failed > 0 ? strings.notices.sizeAppliedWithFailures : strings.notices.sizeAppliedInNotes;
+        new Notice(message.replace('{size}', sizeLabel).replace('{count}', String(changed)).replace('{failed}', String(failed)));
+    }
+
+    /**
+     * Asks for an explicit width × height and writes it to the clicked link, starting from the
+     * link's current size or the image's intrinsic size.
+     */
+    private async setImageSizeFromModal(img: HTMLImageElement, activeFile: TFile, imgFile: TFile): Promise<void> {
+        const occurrence = this.plugin.linkService.locateImageLink(img, activeFile, imgFile);
+        const currentSize = this.plugin.imageService.getCurrentImageSize(activeFile, imgFile, occurrence);
+        const intrinsicSize = await this.plugin.imageService.readImageDimensions(imgFile).catch(() => null);
+        const aspectRatio = intrinsicSize ? intrinsicSize.height / intrinsicSize.width : null;
+
+        const width = currentSize?.width ?? intrinsicSize?.width ?? img.naturalWidth;
+        const height = currentSize?.height ?? (aspectRatio !== null ? Math.round(width * aspectRatio) : img.naturalHeight);
+        if (!(width > 0) || !(height > 0)) {
+            new Notice(strings.notices.couldNotReadDimensions);
+            return;
+        }
+
+        const size = await new Promise<{ width: number; height: number } | null>(resolve => {
+            new ImageSizeModal(this.plugin.app, { width, height }, aspectRatio, resolve).open();
+        });
+        if (!size) return;
+
+        await this.plugin.imageService.setImageLinkSize(imgFile, size.width, size.height, activeFile, occurrence);
+    }
+
     /**
      * Adds file operation menu items like Show in Finder/Explorer and Open in Default App
      */
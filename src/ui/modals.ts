@@ -1,5 +1,10 @@
-import { Modal, App, TFile } from 'obsidian';
+import { Modal, App, Notice, TFile } from 'obsidian';
 import { strings } from '../i18n';
+import type { BulkResizeScope, ConvertFormat, CropRegion, DeleteLinkScope, NoteResizeRule, ResizeUnit } from '../utils/types';
+import { errorLog, formatFileSize, resolveResizeWidth } from '../utils/utils';
+import { CropAspect, CropHandle, clampCropRegion, dragCropRegion, fitCropRegionToAspect, getCropAspectRatio } from '../utils/crop';
+import type { BulkResizeNotePlan, BulkResizeProgress, BulkResizeReport } from '../core/BulkResizeService';
+import type { ShrinkPlanItem, ShrinkReport } from '../core/ShrinkService';
 
 export class FileNameInputModal extends Modal {
     private result: string | null = null;
@@ -15,7 +20,7 @@ export class FileNameInputModal extends Modal {
     onOpen() {
         const { contentEl } = this;
         contentEl.empty();
-        contentEl.addClass('pixel-perfect-rename-modal');
+        contentEl.addClass('pixel-perfect-modal', 'pixel-perfect-rename-modal');
 
         contentEl.createEl('h2', {
             text: strings.modals.rename.title,
@@ -80,20 +85,45 @@ export class FileNameInputModal extends Modal {
     }
 }
 
+/**
+ * Confirms deleting an image and lists the notes that use it, and the notes and canvases whose links
+ * to it will break. When notes other than the current one use the image, the user chooses between
+ * removing its embeds everywhere and only in the current note.
+ */
 export class DeleteConfirmationModal extends Modal {
     private readonly file: TFile;
-    private readonly onConfirm: () => void;
+    private readonly currentNote: TFile | null;
+    private readonly referencingNotes: TFile[];
+    private readonly linkingFiles: TFile[];
+    private readonly onSubmit: (scope: DeleteLinkScope | null) => void;
+    private chosenScope: DeleteLinkScope | null = null;
 
-    constructor(app: App, file: TFile, onConfirm: () => void) {
+    /**
+     * @param currentNote - The note the delete was started from, or null when there is none
+     * @param referencingNotes - Every note that shows the image, including the current note when it does
+     * @param linkingFiles - The notes that only link to the image and the canvases that show it, whose
+     *   links the delete leaves behind
+     */
+    constructor(
+        app: App,
+        file: TFile,
+        currentNote: TFile | null,
+        referencingNotes: TFile[],
+        linkingFiles: TFile[],
+        onSubmit: (scope: DeleteLinkScope | null) => void
+    ) {
         super(app);
         this.file = file;
-        this.onConfirm = onConfirm;
+        this.currentNote = currentNote;
+        this.referencingNotes = referencingNotes;
+        this.linkingFiles = linkingFiles;
+        this.onSubmit = onSubmit;
     }
 
     onOpen() {
         const { contentEl } = this;
         contentEl.empty();
-        contentEl.addClass('pixel-perfect-delete-modal');
+        contentEl.addClass('pixel-perfect-modal', 'pixel-perfect-delete-modal');
 
         contentEl.createEl('h2', {
             text: strings.modals.delete.title,
@@ -107,8 +137,32 @@ export class DeleteConfirmationModal extends Modal {
             text: strings.modals.delete.confirmMessage.replace('{filename}', this.file.name)
         });
 
+        if (this.referencingNotes.length > 0) {
+            messageDiv.createEl('p', {
+                text: strings.modals.delete.usedInNotes.replace('{count}', String(this.referencingNotes.length))
+            });
+            const noteList = messageDiv.createDiv({ cls: 'pixel-perfect-bulk-resize-list' }).createEl('ul');
+            for (const note of this.referencingNotes) {
+                noteList.createEl('li', { text: note.path });
+            }
+        }
+
+        if (this.linkingFiles.length > 0) {
+            messageDiv.createEl('p', {
+                text: strings.modals.delete.linkedFrom.replace('{count}', String(this.linkingFiles.length))
+            });
+            const fileList = messageDiv.createDiv({ cls: 'pixel-perfect-bulk-resize-list' }).createEl('ul');
+            for (const linkingFile of this.linkingFiles) {
+                fileList.createEl('li', { text: linkingFile.path });
+            }
+        }
+
+        const otherNoteCount = this.referencingNotes.filter(note => note.path !== this.currentNote?.path).length;
+        const canDeleteInThisNote = otherNoteCount > 0 && this.currentNote !== null;
         messageDiv.createEl('p', {
-            text: strings.modals.delete.warningMessage,
+            text: canDeleteInThisNote
+                ? strings.modals.delete.otherNotesWarning.replace('{count}', String(otherNoteCount))
+                : strings.modals.delete.warningMessage,
             cls: 'mod-warning'
         });
 
@@ -116,29 +170,1285 @@ export class DeleteConfirmationModal extends Modal {
         buttonContainer.addClass('pixel-perfect-button-container');
 
         const deleteButton = buttonContainer.createEl('button', {
-            text: strings.modals.delete.deleteButton,
+            text: otherNoteCount > 0 ? strings.modals.delete.deleteEverywhereButton : strings.modals.delete.deleteButton,
             cls: 'mod-warning' // Red styling for delete action
         });
+        deleteButton.addEventListener('click', () => {
+            this.chosenScope = 'everywhere';
+            this.close();
+        });
+
+        // Only offered when it differs from deleting everywhere
+        if (canDeleteInThisNote) {
+            const thisNoteButton = buttonContainer.createEl('button', {
+                text: strings.modals.delete.deleteInThisNoteButton
+            });
+            thisNoteButton.addEventListener('click', () => {
+                this.chosenScope = 'thisNote';
+                this.close();
+            });
+        }
 
         const cancelButton = buttonContainer.createEl('button', {
             text: strings.modals.delete.cancelButton
         });
+        cancelButton.addEventListener('click', () => {
+            this.close();
+        });
 
-        deleteButton.addEventListener('click', () => {
-            this.onConfirm();
+        // Focus on cancel button by default for safety
+        cancelButton.focus();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.onSubmit(this.chosenScope);
+    }
+}
+
+/**
+ * Asks for an explicit width × height size. While the aspect ratio is locked, editing one side
+ * updates the other from the image's intrinsic aspect ratio.
+ */
+export class ImageSizeModal extends Modal {
+    private readonly initialSize: { width: number; height: number };
+    private readonly aspectRatio: number | null;
+    private readonly onSubmit: (size: { width: number; height: number } | null) => void;
+    private isSubmitted = false;
+
+    /**
+     * @param aspectRatio - Intrinsic height divided by width, or null when the image size is unknown
+     */
+    constructor(
+        app: App,
+        initialSize: { width: number; height: number },
+        aspectRatio: number | null,
+        onSubmit: (size: { width: number; height: number } | null) => void
+    ) {
+        super(app);
+        this.initialSize = initialSize;
+        this.aspectRatio = aspectRatio;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('pixel-perfect-modal', 'pixel-perfect-size-modal');
+
+        contentEl.createEl('h2', {
+            text: strings.modals.setSize.title,
+            cls: 'modal-title'
+        });
+
+        const form = contentEl.createEl('form');
+        form.addClass('pixel-perfect-size-form');
+
+        const createSizeInput = (label: string, value: number) => {
+            const field = form.createEl('label', { cls: 'pixel-perfect-size-field' });
+            field.createSpan({ text: label });
+            return field.createEl('input', {
+                type: 'number',
+                value: String(value),
+                attr: { min: '1', step: '1' }
+            });
+        };
+
+        const widthInput = createSizeInput(strings.modals.setSize.width, this.initialSize.width);
+        const heightInput = createSizeInput(strings.modals.setSize.height, this.initialSize.height);
+
+        const lockField = form.createEl('label', { cls: 'pixel-perfect-size-lock' });
+        const lockInput = lockField.createEl('input', { type: 'checkbox' });
+        lockField.createSpan({ text: strings.modals.setSize.lockAspectRatio });
+
+        // Start locked when the current size already follows the image's aspect ratio
+        const { aspectRatio } = this;
+        lockInput.disabled = aspectRatio === null;
+        lockInput.checked =
+            aspectRatio !== null && Math.abs(Math.round(this.initialSize.width * aspectRatio) - this.initialSize.height) <= 1;
+
+        const readSize = (input: HTMLInputElement): number | null => {
+            const value = Number(input.value);
+            return Number.isInteger(value) && value > 0 ? value : null;
+        };
+
+        widthInput.addEventListener('input', () => {
+            const width = readSize(widthInput);
+            if (lockInput.checked && aspectRatio !== null && width !== null) {
+                heightInput.value = String(Math.max(1, Math.round(width * aspectRatio)));
+            }
+        });
+        heightInput.addEventListener('input', () => {
+            const height = readSize(heightInput);
+            if (lockInput.checked && aspectRatio !== null && height !== null) {
+                widthInput.value = String(Math.max(1, Math.round(height / aspectRatio)));
+            }
+        });
+        lockInput.addEventListener('change', () => {
+            const width = readSize(widthInput);
+            if (lockInput.checked && aspectRatio !== null && width !== null) {
+                heightInput.value = String(Math.max(1, Math.round(width * aspectRatio)));
+            }
+        });
+
+        const buttonContainer = form.createDiv();
+        buttonContainer.addClass('pixel-perfect-button-container');
+
+        buttonContainer.createEl('button', {
+            text: strings.modals.setSize.setButton,
+            type: 'submit',
+            cls: 'mod-cta'
+        });
+
+        const cancelButton = buttonContainer.createEl('button', {
+            text: strings.modals.setSize.cancelButton,
+            type: 'button'
+        });
+
+        cancelButton.addEventListener('click', () => {
+            this.close();
+        });
+
+        form.addEventListener('submit', e => {
+            e.preventDefault();
+            const width = readSize(widthInput);
+            const height = readSize(heightInput);
+            if (width === null || height === null) return;
+
+            this.isSubmitted = true;
+            this.onSubmit({ width, height });
             this.close();
         });
 
+        widthInput.focus();
+        widthInput.select();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        if (!this.isSubmitted) {
+            this.onSubmit(null);
+        }
+    }
+}
+
+/**
+ * Asks for a custom image size, previewing each valid entry on the image as it is typed.
+ * Closing without submitting, e.g. with Escape, reports a null preview so the image can be restored.
+ */
+export class ResizeModal extends Modal {
+    private readonly originalSize: { width: number; height: number } | null;
+    private readonly lineWidth: number | null;
+    private readonly initialWidth: number | null;
+    private readonly onPreview: (width: number | null) => void;
+    private readonly onSubmit: (width: number | null) => void;
+    private readonly labels: { title: string; submitButton: string };
+    private isSubmitted = false;
+
+    /**
+     * @param originalSize - Intrinsic image size, or null when it is unknown
+     * @param lineWidth - Readable line width of the note in pixels, or null when it can't be measured
+     * @param initialWidth - Width the dialog starts with, usually the link's current width
+     * @param labels - Title and submit button, for dialogs that ask for a size to do something else with
+     */
+    constructor(
+        app: App,
+        originalSize: { width: number; height: number } | null,
+        lineWidth: number | null,
+        initialWidth: number | null,
+        onPreview: (width: number | null) => void,
+        onSubmit: (width: number | null) => void,
+        labels = { title: strings.modals.resize.title, submitButton: strings.modals.resize.resizeButton }
+    ) {
+        super(app);
+        this.originalSize = originalSize;
+        this.lineWidth = lineWidth;
+        this.initialWidth = initialWidth;
+        this.onPreview = onPreview;
+        this.onSubmit = onSubmit;
+        this.labels = labels;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('pixel-perfect-modal', 'pixel-perfect-resize-modal');
+
+        contentEl.createEl('h2', {
+            text: this.labels.title,
+            cls: 'modal-title'
+        });
+
+        const form = contentEl.createEl('form');
+        form.addClass('pixel-perfect-resize-form');
+
+        const inputRow = form.createDiv({ cls: 'pixel-perfect-resize-input-row' });
+        const amountInput = inputRow.createEl('input', {
+            type: 'number',
+            value: this.initialWidth !== null ? String(this.initialWidth) : '',
+            attr: { min: '1', step: 'any', 'aria-label': strings.modals.resize.amount }
+        });
+        const unitSelect = inputRow.createEl('select', { cls: 'dropdown' });
+        const units: { unit: ResizeUnit; label: string; available: boolean }[] = [
+            { unit: 'px', label: strings.modals.resize.units.px, available: true },
+            { unit: 'percent', label: strings.modals.resize.units.percent, available: this.originalSize !== null },
+            { unit: 'lineWidth', label: strings.modals.resize.units.lineWidth, available: this.lineWidth !== null },
+            { unit: 'height', label: strings.modals.resize.units.height, available: this.originalSize !== null }
+        ];
+        for (const { unit, label, available } of units) {
+            if (available) unitSelect.createEl('option', { text: label, value: unit });
+        }
+
+        const resultEl = form.createDiv({ cls: 'pixel-perfect-resize-result' });
+
+        const resolveWidth = (): number | null =>
+            resolveResizeWidth(Number(amountInput.value), unitSelect.value as ResizeUnit, this.originalSize, this.lineWidth);
+
+        const update = () => {
+            const width = resolveWidth();
+            if (width === null) {
+                resultEl.setText(strings.modals.resize.invalidSize);
+                this.onPreview(null);
+                return;
+            }
+
+            if (this.originalSize) {
+                const height = Math.max(1, Math.round((width * this.originalSize.height) / this.originalSize.width));
+                const scale = Math.round((width / this.originalSize.width) * 100);
+                resultEl.setText(
+                    strings.modals.resize.result
+                        .replace('{width}', String(width))
+                        .replace('{height}', String(height))
+                        .replace('{scale}', String(scale))
+                );
+            } else {
+                resultEl.setText(strings.modals.resize.resultWidthOnly.replace('{width}', String(width)));
+            }
+            this.onPreview(width);
+        };
+
+        amountInput.addEventListener('input', update);
+        unitSelect.addEventListener('change', update);
+
+        const buttonContainer = form.createDiv();
+        buttonContainer.addClass('pixel-perfect-button-container');
+
+        buttonContainer.createEl('button', {
+            text: this.labels.submitButton,
+            type: 'submit',
+            cls: 'mod-cta'
+        });
+
+        const cancelButton = buttonContainer.createEl('button', {
+            text: strings.modals.resize.cancelButton,
+            type: 'button'
+        });
+
         cancelButton.addEventListener('click', () => {
             this.close();
         });
 
-        // Focus on cancel button by default for safety
-        cancelButton.focus();
+        form.addEventListener('submit', e => {
+            e.preventDefault();
+            const width = resolveWidth();
+            if (width === null) return;
+
+            this.isSubmitted = true;
+            this.onSubmit(width);
+            this.close();
+        });
+
+        update();
+        amountInput.focus();
+        amountInput.select();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        if (!this.isSubmitted) {
+            this.onPreview(null);
+            this.onSubmit(null);
+        }
+    }
+}
+
+/**
+ * Adds the rule dropdown and amount input shared by the note and bulk resize dialogs.
+ * @returns `getRule` reads the chosen rule, or null while the amount is invalid
+ */
+function createNoteResizeRuleControls(container: HTMLElement): { getRule: () => NoteResizeRule | null; focus: () => void } {
+    const row = container.createDiv({ cls: 'pixel-perfect-resize-input-row' });
+    const ruleSelect = row.createEl('select', { cls: 'dropdown', attr: { 'aria-label': strings.modals.resizeAll.rule } });
+    const rules: { kind: NoteResizeRule['kind']; label: string; defaultAmount: string }[] = [
+        { kind: 'fit', label: strings.modals.resizeAll.rules.fit, defaultAmount: '600' },
+        { kind: 'percent', label: strings.modals.resizeAll.rules.percent, defaultAmount: '50' },
+        { kind: 'clear', label: strings.modals.resizeAll.rules.clear, defaultAmount: '' }
+    ];
+    for (const { kind, label } of rules) {
+        ruleSelect.createEl('option', { text: label, value: kind });
+    }
+
+    const amountInput = row.createEl('input', {
+        type: 'number',
+        value: rules[0].defaultAmount,
+        attr: { min: '1', step: '1', 'aria-label': strings.modals.resizeAll.amount }
+    });
+
+    ruleSelect.addEventListener('change', () => {
+        const rule = rules.find(candidate => candidate.kind === ruleSelect.value);
+        amountInput.value = rule?.defaultAmount ?? '';
+        amountInput.toggle(ruleSelect.value !== 'clear');
+    });
+
+    return {
+        getRule: () => {
+            const kind = ruleSelect.value as NoteResizeRule['kind'];
+            if (kind === 'clear') return { kind };
+
+            const amount = Math.round(Number(amountInput.value));
+            if (!Number.isFinite(amount) || amount <= 0) return null;
+            return kind === 'fit' ? { kind, maxWidth: amount } : { kind, percent: amount };
+        },
+        focus: () => {
+            amountInput.focus();
+            amountInput.select();
+        }
+    };
+}
+
+/**
+ * Asks for the rule applied to every image in a note.
+ */
+export class NoteResizeModal extends Modal {
+    private readonly onSubmit: (rule: NoteResizeRule | null) => void;
+    private isSubmitted = false;
+
+    constructor(app: App, onSubmit: (rule: NoteResizeRule | null) => void) {
+        super(app);
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('pixel-perfect-modal', 'pixel-perfect-note-resize-modal');
+
+        contentEl.createEl('h2', {
+            text: strings.modals.resizeAll.title,
+            cls: 'modal-title'
+        });
+
+        const form = contentEl.createEl('form');
+        form.addClass('pixel-perfect-resize-form');
+
+        const ruleControls = createNoteResizeRuleControls(form);
+
+        const buttonContainer = form.createDiv();
+        buttonContainer.addClass('pixel-perfect-button-container');
+
+        buttonContainer.createEl('button', {
+            text: strings.modals.resizeAll.applyButton,
+            type: 'submit',
+            cls: 'mod-cta'
+        });
+
+        const cancelButton = buttonContainer.createEl('button', {
+            text: strings.modals.resizeAll.cancelButton,
+            type: 'button'
+        });
+
+        cancelButton.addEventListener('click', () => {
+            this.close();
+        });
+
+        form.addEventListener('submit', e => {
+            e.preventDefault();
+            const rule = ruleControls.getRule();
+            if (!rule) return;
+
+            this.isSubmitted = true;
+            this.onSubmit(rule);
+            this.close();
+        });
+
+        ruleControls.focus();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        if (!this.isSubmitted) {
+            this.onSubmit(null);
+        }
+    }
+}
+
+/**
+ * Asks for the notes and the rule of a bulk resize.
+ */
+export class BulkResizeModal extends Modal {
+    private readonly initialScope: BulkResizeScope;
+    private readonly onSubmit: (options: { scope: BulkResizeScope; rule: NoteResizeRule } | null) => void;
+    private isSubmitted = false;
+
+    constructor(
+        app: App,
+        initialScope: BulkResizeScope,
+        onSubmit: (options: { scope: BulkResizeScope; rule: NoteResizeRule } | null) => void
+    ) {
+        super(app);
+        this.initialScope = initialScope;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('pixel-perfect-modal', 'pixel-perfect-bulk-resize-modal');
+
+        contentEl.createEl('h2', {
+            text: strings.modals.bulkResize.title,
+            cls: 'modal-title'
+        });
+
+        const form = contentEl.createEl('form');
+        form.addClass('pixel-perfect-resize-form');
+
+        const scopeRow = form.createDiv({ cls: 'pixel-perfect-resize-input-row' });
+        const scopeSelect = scopeRow.createEl('select', { cls: 'dropdown', attr: { 'aria-label': strings.modals.bulkResize.scope } });
+        scopeSelect.createEl('option', { text: strings.modals.bulkResize.scopes.vault, value: 'vault' });
+        scopeSelect.createEl('option', { text: strings.modals.bulkResize.scopes.folder, value: 'folder' });
+        scopeSelect.createEl('option', { text: strings.modals.bulkResize.scopes.tag, value: 'tag' });
+        scopeSelect.value = this.initialScope.kind;
+
+        const scopeInput = scopeRow.createEl('input', {
+            type: 'text',
+            value:
+                this.initialScope.kind === 'folder' ? this.initialScope.path : this.initialScope.kind === 'tag' ? this.initialScope.tag : ''
+        });
+        const updateScopeInput = () => {
+            scopeInput.toggle(scopeSelect.value !== 'vault');
+            scopeInput.placeholder =
+                scopeSelect.value === 'tag' ? strings.modals.bulkResize.tagPlaceholder : strings.modals.bulkResize.folderPlaceholder;
+        };
+        scopeSelect.addEventListener('change', () => {
+            scopeInput.value = '';
+            updateScopeInput();
+        });
+        updateScopeInput();
+
+        const ruleControls = createNoteResizeRuleControls(form);
+
+        const buttonContainer = form.createDiv();
+        buttonContainer.addClass('pixel-perfect-button-container');
+
+        buttonContainer.createEl('button', {
+            text: strings.modals.bulkResize.previewButton,
+            type: 'submit',
+            cls: 'mod-cta'
+        });
+
+        const cancelButton = buttonContainer.createEl('button', {
+            text: strings.modals.bulkResize.cancelButton,
+            type: 'button'
+        });
+
+        cancelButton.addEventListener('click', () => {
+            this.close();
+        });
+
+        form.addEventListener('submit', e => {
+            e.preventDefault();
+            const rule = ruleControls.getRule();
+            const value = scopeInput.value.trim();
+            if (!rule || (scopeSelect.value === 'tag' && !value.replace(/^#/, ''))) return;
+
+            const scope: BulkResizeScope =
+                scopeSelect.value === 'folder'
+                    ? { kind: 'folder', path: value }
+                    : scopeSelect.value === 'tag'
+                      ? { kind: 'tag', tag: value }
+                      : { kind: 'vault' };
+            this.isSubmitted = true;
+            this.onSubmit({ scope, rule });
+            this.close();
+        });
+
+        ruleControls.focus();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        if (!this.isSubmitted) {
+            this.onSubmit(null);
+        }
+    }
+}
+
+/**
+ * Shows the dry run of a bulk resize and, once confirmed, applies it with progress and a final report.
+ * Closing the dialog stops a scan or an update after the current note.
+ */
+export class BulkResizeReviewModal extends Modal {
+    /** Changes listed in the dry run; the rest are only counted */
+    private static readonly MAX_LISTED_CHANGES = 500;
+
+    private readonly plan: (progress: BulkResizeProgress) => Promise<BulkResizeNotePlan[]>;
+    private readonly apply: (plan: BulkResizeNotePlan[], progress: BulkResizeProgress) => Promise<BulkResizeReport>;
+    private isCancelled = false;
+
+    /**
+     * @param plan - Computes the dry run
+     * @param apply - Writes the changes of the dry run
+     */
+    constructor(
+        app: App,
+        plan: (progress: BulkResizeProgress) => Promise<BulkResizeNotePlan[]>,
+        apply: (plan: BulkResizeNotePlan[], progress: BulkResizeProgress) => Promise<BulkResizeReport>
+    ) {
+        super(app);
+        this.plan = plan;
+        this.apply = apply;
+    }
+
+    private createProgress(statusEl: HTMLElement, message: string): BulkResizeProgress {
+        return {
+            onProgress: (done, total) => {
+                statusEl.setText(message.replace('{done}', String(done)).replace('{total}', String(total)));
+            },
+            isCancelled: () => this.isCancelled
+        };
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('pixel-perfect-modal', 'pixel-perfect-bulk-resize-modal');
+
+        contentEl.createEl('h2', {
+            text: strings.modals.bulkResize.reviewTitle,
+            cls: 'modal-title'
+        });
+
+        const statusEl = contentEl.createDiv({ cls: 'pixel-perfect-resize-result' });
+        const listEl = contentEl.createDiv({ cls: 'pixel-perfect-bulk-resize-list' });
+        const buttonContainer = contentEl.createDiv({ cls: 'pixel-perfect-button-container' });
+        const applyButton = buttonContainer.createEl('button', { text: strings.modals.bulkResize.applyButton, cls: 'mod-cta' });
+        const cancelButton = buttonContainer.createEl('button', { text: strings.modals.bulkResize.cancelButton });
+        applyButton.disabled = true;
+        cancelButton.addEventListener('click', () => this.close());
+
+        void this.plan(this.createProgress(statusEl, strings.modals.bulkResize.scanning)).then(
+            plan => {
+                if (this.isCancelled) return;
+                this.showPlan(plan, statusEl, listEl);
+                if (plan.length === 0) {
+                    applyButton.remove();
+                    cancelButton.setText(strings.modals.bulkResize.closeButton);
+                    return;
+                }
+
+                applyButton.disabled = false;
+                applyButton.addEventListener('click', () => {
+                    applyButton.remove();
+                    cancelButton.setText(strings.modals.bulkResize.stopButton);
+                    void this.runApply(plan, statusEl, cancelButton);
+                });
+            },
+            (error: unknown) => {
+                errorLog('Failed to preview bulk resize:', error);
+                statusEl.setText(strings.notices.failedToBulkResize);
+            }
+        );
+    }
+
+    private showPlan(plan: BulkResizeNotePlan[], statusEl: HTMLElement, listEl: HTMLElement) {
+        const linkCount = plan.reduce((count, note) => count + note.changes.length, 0);
+        if (linkCount === 0) {
+            statusEl.setText(strings.modals.bulkResize.noChanges);
+            return;
+        }
+        statusEl.setText(strings.modals.bulkResize.summary.replace('{links}', String(linkCount)).replace('{notes}', String(plan.length)));
+
+        const formatSize = (size: string | null) => size ?? strings.modals.bulkResize.originalSize;
+        let listed = 0;
+        for (const { file, changes } of plan) {
+            if (listed >= BulkResizeReviewModal.MAX_LISTED_CHANGES) break;
+
+            listEl.createDiv({ text: file.path, cls: 'pixel-perfect-bulk-resize-note' });
+            const changeList = listEl.createEl('ul');
+            for (const change of changes.slice(0, BulkResizeReviewModal.MAX_LISTED_CHANGES - listed)) {
+                changeList.createEl('li', {
+                    text: `${change.imageFile.name}: ${formatSize(change.before)} → ${formatSize(change.after)}`
+                });
+                listed++;
+            }
+        }
+        if (listed < linkCount) {
+            listEl.createDiv({
+                text: strings.modals.bulkResize.moreChanges.replace('{count}', String(linkCount - listed)),
+                cls: 'pixel-perfect-resize-result'
+            });
+        }
+    }
+
+    private async runApply(plan: BulkResizeNotePlan[], statusEl: HTMLElement, closeButton: HTMLButtonElement) {
+        let report: BulkResizeReport;
+        try {
+            report = await this.apply(plan, this.createProgress(statusEl, strings.modals.bulkResize.updating));
+        } catch (error) {
+            errorLog('Failed to apply bulk resize:', error);
+            statusEl.setText(strings.notices.failedToBulkResize);
+            closeButton.setText(strings.modals.bulkResize.closeButton);
+            return;
+        }
+
+        const lines = [
+            strings.modals.bulkResize.report.replace('{links}', String(report.linksChanged)).replace('{notes}', String(report.notesChanged))
+        ];
+        if (report.cancelled) lines.push(strings.modals.bulkResize.reportCancelled);
+        if (report.failedNotes.length > 0) {
+            lines.push(strings.modals.bulkResize.reportFailed.replace('{count}', String(report.failedNotes.length)));
+        }
+        statusEl.setText(lines.join(' · '));
+        new Notice(lines.join('\n'));
+        closeButton.setText(strings.modals.bulkResize.closeButton);
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.isCancelled = true;
+    }
+}
+
+/**
+ * Confirms giving every embed of an image the same size, listing the notes that will change.
+ */
+export class ApplySizeConfirmationModal extends Modal {
+    private readonly file: TFile;
+    private readonly sizeLabel: string;
+    private readonly notes: TFile[];
+    private readonly onSubmit: (confirmed: boolean) => void;
+    private isConfirmed = false;
+
+    constructor(app: App, file: TFile, sizeLabel: string, notes: TFile[], onSubmit: (confirmed: boolean) => void) {
+        super(app);
+        this.file = file;
+        this.sizeLabel = sizeLabel;
+        this.notes = notes;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('pixel-perfect-modal', 'pixel-perfect-bulk-resize-modal');
+
+        contentEl.createEl('h2', {
+            text: strings.modals.applySize.title,
+            cls: 'modal-title'
+        });
+
+        contentEl.createEl('p', {
+            text: strings.modals.applySize.message
+                .replace('{filename}', this.file.name)
+                .replace('{size}', this.sizeLabel)
+                .replace('{count}', String(this.notes.length))
+        });
+
+        const noteList = contentEl.createDiv({ cls: 'pixel-perfect-bulk-resize-list' }).createEl('ul');
+        for (const note of this.notes) {
+            noteList.createEl('li', { text: note.path });
+        }
+
+        const buttonContainer = contentEl.createDiv();
+        buttonContainer.addClass('pixel-perfect-button-container');
+
+        const applyButton = buttonContainer.createEl('button', {
+            text: strings.modals.applySize.applyButton,
+            cls: 'mod-cta'
+        });
+
+        const cancelButton = buttonContainer.createEl('button', {
+            text: strings.modals.applySize.cancelButton
+        });
+
+        applyButton.addEventListener('click', () => {
+            this.isConfirmed = true;
+            this.close();
+        });
+
+        cancelButton.addEventListener('click', () => {
+            this.close();
+        });
+
+        applyButton.focus();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.onSubmit(this.isConfirmed);
+    }
+}
+
+/**
+ * Confirms replacing an image file with a smaller version of it, showing the file before and after.
+ */
+export class ShrinkConfirmationModal extends Modal {
+    private readonly file: TFile;
+    private readonly before: { width: number; height: number; bytes: number };
+    private readonly after: { width: number; height: number; bytes: number };
+    private readonly onSubmit: (confirmed: boolean) => void;
+    private isConfirmed = false;
+
+    constructor(
+        app: App,
+        file: TFile,
+        before: { width: number; height: number; bytes: number },
+        after: { width: number; height: number; bytes: number },
+        onSubmit: (confirmed: boolean) => void
+    ) {
+        super(app);
+        this.file = file;
+        this.before = before;
+        this.after = after;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('pixel-perfect-modal');
+
+        contentEl.createEl('h2', {
+            text: strings.modals.shrink.title,
+            cls: 'modal-title'
+        });
+
+        contentEl.createEl('p', {
+            text: strings.modals.shrink.message.replace('{filename}', this.file.name)
+        });
+
+        const formatFile = (file: { width: number; height: number; bytes: number }) =>
+            strings.modals.shrink.fileSize
+                .replace('{width}', String(file.width))
+                .replace('{height}', String(file.height))
+                .replace('{size}', formatFileSize(file.bytes));
+        const list = contentEl.createEl('ul');
+        list.createEl('li', { text: `${strings.modals.shrink.before}: ${formatFile(this.before)}` });
+        list.createEl('li', { text: `${strings.modals.shrink.after}: ${formatFile(this.after)}` });
+
+        if (this.after.bytes >= this.before.bytes) {
+            contentEl.createEl('p', { text: strings.modals.shrink.notSmaller, cls: 'mod-warning' });
+        }
+
+        const buttonContainer = contentEl.createDiv();
+        buttonContainer.addClass('pixel-perfect-button-container');
+
+        const shrinkButton = buttonContainer.createEl('button', {
+            text: strings.modals.shrink.shrinkButton,
+            cls: 'mod-cta'
+        });
+
+        const cancelButton = buttonContainer.createEl('button', {
+            text: strings.modals.shrink.cancelButton
+        });
+
+        shrinkButton.addEventListener('click', () => {
+            this.isConfirmed = true;
+            this.close();
+        });
+
+        cancelButton.addEventListener('click', () => {
+            this.close();
+        });
+
+        shrinkButton.focus();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.onSubmit(this.isConfirmed);
+    }
+}
+
+/**
+ * Lists the images wider than any note shows them and, once confirmed, shrinks them with progress
+ * and a final report. Closing the dialog stops a scan or the shrinking after the current image.
+ */
+export class ShrinkReviewModal extends Modal {
+    /** Images listed in the review; the rest are only counted */
+    private static readonly MAX_LISTED_IMAGES = 500;
+
+    private readonly plan: (progress: BulkResizeProgress) => Promise<ShrinkPlanItem[]>;
+    private readonly apply: (plan: ShrinkPlanItem[], progress: BulkResizeProgress) => Promise<ShrinkReport>;
+    private isCancelled = false;
+
+    /**
+     * @param plan - Finds the images to shrink
+     * @param apply - Shrinks the images of the plan
+     */
+    constructor(
+        app: App,
+        plan: (progress: BulkResizeProgress) => Promise<ShrinkPlanItem[]>,
+        apply: (plan: ShrinkPlanItem[], progress: BulkResizeProgress) => Promise<ShrinkReport>
+    ) {
+        super(app);
+        this.plan = plan;
+        this.apply = apply;
+    }
+
+    private createProgress(statusEl: HTMLElement, message: string): BulkResizeProgress {
+        return {
+            onProgress: (done, total) => {
+                statusEl.setText(message.replace('{done}', String(done)).replace('{total}', String(total)));
+            },
+            isCancelled: () => this.isCancelled
+        };
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('pixel-perfect-modal', 'pixel-perfect-bulk-resize-modal');
+
+        contentEl.createEl('h2', {
+            text: strings.modals.shrink.reviewTitle,
+            cls: 'modal-title'
+        });
+
+        const statusEl = contentEl.createDiv({ cls: 'pixel-perfect-resize-result' });
+        const listEl = contentEl.createDiv({ cls: 'pixel-perfect-bulk-resize-list' });
+        const buttonContainer = contentEl.createDiv({ cls: 'pixel-perfect-button-container' });
+        const applyButton = buttonContainer.createEl('button', { text: strings.modals.shrink.shrinkAllButton, cls: 'mod-cta' });
+        const cancelButton = buttonContainer.createEl('button', { text: strings.modals.shrink.cancelButton });
+        applyButton.disabled = true;
+        cancelButton.addEventListener('click', () => this.close());
+
+        void this.plan(this.createProgress(statusEl, strings.modals.shrink.scanning)).then(
+            plan => {
+                if (this.isCancelled) return;
+                this.showPlan(plan, statusEl, listEl);
+                if (plan.length === 0) {
+                    applyButton.remove();
+                    cancelButton.setText(strings.modals.shrink.closeButton);
+                    return;
+                }
+
+                applyButton.disabled = false;
+                applyButton.addEventListener('click', () => {
+                    applyButton.remove();
+                    cancelButton.setText(strings.modals.shrink.stopButton);
+                    void this.runApply(plan, statusEl, cancelButton);
+                });
+            },
+            (error: unknown) => {
+                errorLog('Failed to find images to shrink:', error);
+                statusEl.setText(strings.notices.failedToShrink);
+            }
+        );
+    }
+
+    private showPlan(plan: ShrinkPlanItem[], statusEl: HTMLElement, listEl: HTMLElement) {
+        if (plan.length === 0) {
+            statusEl.setText(strings.modals.shrink.noImages);
+            return;
+        }
+        const totalBytes = plan.reduce((total, item) => total + item.file.stat.size, 0);
+        statusEl.setText(
+            strings.modals.shrink.summary.replace('{count}', String(plan.length)).replace('{size}', formatFileSize(totalBytes))
+        );
+
+        const list = listEl.createEl('ul');
+        for (const { file, originalWidth, width } of plan.slice(0, ShrinkReviewModal.MAX_LISTED_IMAGES)) {
+            list.createEl('li', {
+                text: `${file.path}: ${originalWidth} → ${width} px (${formatFileSize(file.stat.size)})`
+            });
+        }
+        if (plan.length > ShrinkReviewModal.MAX_LISTED_IMAGES) {
+            listEl.createDiv({
+                text: strings.modals.shrink.moreImages.replace('{count}', String(plan.length - ShrinkReviewModal.MAX_LISTED_IMAGES)),
+                cls: 'pixel-perfect-resize-result'
+            });
+        }
+    }
+
+    private async runApply(plan: ShrinkPlanItem[], statusEl: HTMLElement, closeButton: HTMLButtonElement) {
+        let report: ShrinkReport;
+        try {
+            report = await this.apply(plan, this.createProgress(statusEl, strings.modals.shrink.shrinking));
+        } catch (error) {
+            errorLog('Failed to shrink images:', error);
+            statusEl.setText(strings.notices.failedToShrink);
+            closeButton.setText(strings.modals.shrink.closeButton);
+            return;
+        }
+
+        const lines = [
+            strings.modals.shrink.report
+                .replace('{count}', String(report.imagesShrunk))
+                .replace('{before}', formatFileSize(report.bytesBefore))
+                .replace('{after}', formatFileSize(report.bytesAfter))
+        ];
+        if (report.notSmaller > 0) lines.push(strings.modals.shrink.reportNotSmaller.replace('{count}', String(report.notSmaller)));
+        if (report.cancelled) lines.push(strings.modals.shrink.reportCancelled);
+        if (report.failedImages.length > 0) {
+            lines.push(strings.modals.shrink.reportFailed.replace('{count}', String(report.failedImages.length)));
+        }
+        statusEl.setText(lines.join(' · '));
+        new Notice(lines.join('\n'));
+        closeButton.setText(strings.modals.shrink.closeButton);
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.isCancelled = true;
+    }
+}
+
+/** The crop handles, named by the corner or edge they drag */
+const CROP_HANDLES = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'] as const;
+
+/**
+ * Crops an image: the region to keep is dragged over a preview of the image or typed in, optionally
+ * held to an aspect ratio preset. Reports the region in image pixels and whether to write the result
+ * to a new file.
+ */
+export class CropModal extends Modal {
+    private readonly imageSrc: string;
+    private readonly onSubmit: (result: { region: CropRegion; saveAsCopy: boolean } | null) => void;
+    private isSubmitted = false;
+
+    /**
+     * @param imageSrc - A URL the image loads from, such as its vault resource path
+     */
+    constructor(app: App, imageSrc: string, onSubmit: (result: { region: CropRegion; saveAsCopy: boolean } | null) => void) {
+        super(app);
+        this.imageSrc = imageSrc;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('pixel-perfect-modal', 'pixel-perfect-crop-modal');
+
+        contentEl.createEl('h2', {
+            text: strings.modals.crop.title,
+            cls: 'modal-title'
+        });
+
+        const stage = contentEl.createDiv({ cls: 'pixel-perfect-crop-stage' });
+        const img = stage.createEl('img', { cls: 'pixel-perfect-crop-image', attr: { src: this.imageSrc, draggable: 'false' } });
+        const regionEl = stage.createDiv({ cls: 'pixel-perfect-crop-region' });
+        regionEl.hide();
+
+        const form = contentEl.createEl('form');
+        form.addClass('pixel-perfect-crop-form');
+
+        const aspectSelect = form.createEl('select', { cls: 'dropdown', attr: { 'aria-label': strings.modals.crop.aspect } });
+        const aspects: { aspect: CropAspect; label: string }[] = [
+            { aspect: 'free', label: strings.modals.crop.aspectFree },
+            { aspect: '1:1', label: '1:1' },
+            { aspect: '4:3', label: '4:3' },
+            { aspect: '16:9', label: '16:9' },
+            { aspect: 'original', label: strings.modals.crop.aspectOriginal }
+        ];
+        for (const { aspect, label } of aspects) {
+            aspectSelect.createEl('option', { text: label, value: aspect });
+        }
+
+        const inputRow = form.createDiv({ cls: 'pixel-perfect-crop-input-row' });
+        const createInput = (label: string) => {
+            const field = inputRow.createEl('label', { cls: 'pixel-perfect-crop-field' });
+            field.createSpan({ text: label });
+            return field.createEl('input', { type: 'number', attr: { min: '0', step: '1' } });
+        };
+        const inputs = {
+            x: createInput(strings.modals.crop.x),
+            y: createInput(strings.modals.crop.y),
+            width: createInput(strings.modals.crop.width),
+            height: createInput(strings.modals.crop.height)
+        };
+
+        const copyField = form.createEl('label', { cls: 'pixel-perfect-size-lock' });
+        const copyInput = copyField.createEl('input', { type: 'checkbox' });
+        copyField.createSpan({ text: strings.modals.crop.saveAsCopy });
+
+        const buttonContainer = form.createDiv();
+        buttonContainer.addClass('pixel-perfect-button-container');
+
+        const cropButton = buttonContainer.createEl('button', {
+            text: strings.modals.crop.cropButton,
+            type: 'submit',
+            cls: 'mod-cta'
+        });
+        cropButton.disabled = true;
+
+        const cancelButton = buttonContainer.createEl('button', {
+            text: strings.modals.crop.cancelButton,
+            type: 'button'
+        });
+        cancelButton.addEventListener('click', () => {
+            this.close();
+        });
+
+        // The natural size of the preview is the image as displayed, with any EXIF orientation applied
+        let imageWidth = 0;
+        let imageHeight = 0;
+        let region: CropRegion = { x: 0, y: 0, width: 0, height: 0 };
+        const getRatio = () => getCropAspectRatio(aspectSelect.value as CropAspect, imageWidth, imageHeight);
+
+        const render = () => {
+            const scale = img.clientWidth / imageWidth;
+            regionEl.setCssStyles({
+                left: `${region.x * scale}px`,
+                top: `${region.y * scale}px`,
+                width: `${region.width * scale}px`,
+                height: `${region.height * scale}px`
+            });
+            inputs.x.value = String(region.x);
+            inputs.y.value = String(region.y);
+            inputs.width.value = String(region.width);
+            inputs.height.value = String(region.height);
+        };
+
+        const setRegion = (next: CropRegion) => {
+            const ratio = getRatio();
+            const clamped = clampCropRegion(next, imageWidth, imageHeight);
+            region = ratio !== null ? fitCropRegionToAspect(clamped, ratio, imageWidth, imageHeight) : clamped;
+            render();
+        };
+
+        img.addEventListener('load', () => {
+            imageWidth = img.naturalWidth;
+            imageHeight = img.naturalHeight;
+            if (imageWidth <= 0 || imageHeight <= 0) return;
+
+            region = { x: 0, y: 0, width: imageWidth, height: imageHeight };
+            regionEl.show();
+            cropButton.disabled = false;
+            render();
+        });
+
+        aspectSelect.addEventListener('change', () => setRegion(region));
+
+        for (const key of ['x', 'y', 'width', 'height'] as const) {
+            inputs[key].addEventListener('change', () => {
+                const value = Number(inputs[key].value);
+                if (!Number.isFinite(value)) {
+                    render();
+                    return;
+                }
+
+                // With an aspect ratio, the other side follows the side that was typed
+                const ratio = getRatio();
+                const next = { ...region, [key]: value };
+                if (ratio !== null && key === 'width') next.height = value / ratio;
+                if (ratio !== null && key === 'height') next.width = value * ratio;
+                setRegion(next);
+            });
+        }
+
+        const startDrag = (evt: PointerEvent, handle: CropHandle) => {
+            if (evt.button !== 0 || imageWidth <= 0) return;
+            evt.preventDefault();
+            evt.stopPropagation();
+
+            const target = evt.currentTarget as HTMLElement;
+            const start = region;
+            const scale = imageWidth / img.clientWidth;
+            const move = (moveEvt: PointerEvent) => {
+                const dx = (moveEvt.clientX - evt.clientX) * scale;
+                const dy = (moveEvt.clientY - evt.clientY) * scale;
+                region = dragCropRegion(start, handle, dx, dy, getRatio(), imageWidth, imageHeight);
+                render();
+            };
+            const end = () => {
+                target.removeEventListener('pointermove', move);
+                target.removeEventListener('pointerup', end);
+                target.removeEventListener('pointercancel', end);
+            };
+            target.setPointerCapture(evt.pointerId);
+            target.addEventListener('pointermove', move);
+            target.addEventListener('pointerup', end);
+            target.addEventListener('pointercancel', end);
+        };
+
+        regionEl.addEventListener('pointerdown', evt => startDrag(evt, 'move'));
+        for (const handle of CROP_HANDLES) {
+            const handleEl = regionEl.createDiv({ cls: `pixel-perfect-resize-handle is-${handle}` });
+            handleEl.addEventListener('pointerdown', evt => startDrag(evt, handle));
+        }
+
+        form.addEventListener('submit', e => {
+            e.preventDefault();
+            if (imageWidth <= 0) return;
+
+            this.isSubmitted = true;
+            this.onSubmit({ region, saveAsCopy: copyInput.checked });
+            this.close();
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        if (!this.isSubmitted) this.onSubmit(null);
+    }
+}
+
+/** How long the quality slider rests before the projected size is worked out again */
+const CONVERT_ESTIMATE_DELAY_MS = 300;
+
+/**
+ * Asks how to convert an image to another format: the quality for a lossy format, with the projected
+ * size of the converted file, and whether to move the original to the trash.
+ */
+export class ConvertModal extends Modal {
+    private readonly file: TFile;
+    private readonly format: ConvertFormat;
+    private readonly initialQuality: number;
+    private readonly estimate: (quality: number) => Promise<number>;
+    private readonly onSubmit: (result: { quality: number; trashOriginal: boolean } | null) => void;
+    private isSubmitted = false;
+    private estimateTimer: number | null = null;
+
+    /**
+     * @param initialQuality - Quality the slider starts at, from 1 to 100
+     * @param estimate - Encodes the image at a quality and resolves to the size of the result in bytes
+     */
+    constructor(
+        app: App,
+        file: TFile,
+        format: ConvertFormat,
+        initialQuality: number,
+        estimate: (quality: number) => Promise<number>,
+        onSubmit: (result: { quality: number; trashOriginal: boolean } | null) => void
+    ) {
+        super(app);
+        this.file = file;
+        this.format = format;
+        this.initialQuality = initialQuality;
+        this.estimate = estimate;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('pixel-perfect-modal', 'pixel-perfect-convert-modal');
+
+        contentEl.createEl('h2', {
+            text: strings.modals.convert.title.replace('{filename}', this.file.name).replace('{format}', this.format.label),
+            cls: 'modal-title'
+        });
+
+        const form = contentEl.createEl('form');
+        form.addClass('pixel-perfect-convert-form');
+
+        form.createDiv({
+            cls: 'pixel-perfect-resize-result',
+            text: strings.modals.convert.current.replace('{size}', formatFileSize(this.file.stat.size))
+        });
+
+        let quality = this.initialQuality;
+        if (this.format.lossy) {
+            const qualityField = form.createEl('label', { cls: 'pixel-perfect-convert-quality' });
+            qualityField.createSpan({ text: strings.modals.convert.quality });
+            const qualityInput = qualityField.createEl('input', {
+                type: 'range',
+                value: String(quality),
+                attr: { min: '1', max: '100', step: '1' }
+            });
+            const qualityValue = qualityField.createSpan({ text: String(quality) });
+            qualityInput.addEventListener('input', () => {
+                quality = Number(qualityInput.value);
+                qualityValue.setText(String(quality));
+                scheduleEstimate();
+            });
+        }
+
+        const projectedEl = form.createDiv({ cls: 'pixel-perfect-resize-result' });
+
+        // Only the result for the latest quality is shown; slower encodes for earlier ones are dropped
+        let estimateId = 0;
+        const updateEstimate = async () => {
+            const id = ++estimateId;
+            projectedEl.setText(strings.modals.convert.estimating);
+            try {
+                const bytes = await this.estimate(quality);
+                if (id !== estimateId) return;
+
+                const before = this.file.stat.size;
+                const text =
+                    bytes < before
+                        ? strings.modals.convert.projected
+                              .replace('{size}', formatFileSize(bytes))
+                              .replace('{saved}', formatFileSize(before - bytes))
+                              .replace('{percent}', String(Math.round(((before - bytes) / before) * 100)))
+                        : strings.modals.convert.projectedLarger
+                              .replace('{size}', formatFileSize(bytes))
+                              .replace('{increase}', formatFileSize(bytes - before));
+                projectedEl.setText(text);
+            } catch (error) {
+                if (id !== estimateId) return;
+                errorLog('Failed to estimate converted size:', error);
+                projectedEl.setText(strings.modals.convert.estimateFailed);
+            }
+        };
+        const scheduleEstimate = () => {
+            if (this.estimateTimer !== null) window.clearTimeout(this.estimateTimer);
+            this.estimateTimer = window.setTimeout(() => {
+                this.estimateTimer = null;
+                void updateEstimate();
+            }, CONVERT_ESTIMATE_DELAY_MS);
+        };
+
+        const trashField = form.createEl('label', { cls: 'pixel-perfect-size-lock' });
+        const trashInput = trashField.createEl('input', { type: 'checkbox' });
+        trashField.createSpan({ text: strings.modals.convert.trashOriginal });
+
+        const buttonContainer = form.createDiv();
+        buttonContainer.addClass('pixel-perfect-button-container');
+
+        const convertButton = buttonContainer.createEl('button', {
+            text: strings.modals.convert.convertButton,
+            type: 'submit',
+            cls: 'mod-cta'
+        });
+
+        const cancelButton = buttonContainer.createEl('button', {
+            text: strings.modals.convert.cancelButton,
+            type: 'button'
+        });
+        cancelButton.addEventListener('click', () => {
+            this.close();
+        });
+
+        form.addEventListener('submit', e => {
+            e.preventDefault();
+            this.isSubmitted = true;
+            this.onSubmit({ quality, trashOriginal: trashInput.checked });
+            this.close();
+        });
+
+        void updateEstimate();
+        convertButton.focus();
     }
 
     onClose() {
         const { contentEl } = this;
         contentEl.empty();
+        if (this.estimateTimer !== null) window.clearTimeout(this.estimateTimer);
+        if (!this.isSubmitted) this.onSubmit(null);
     }
 }
@@ -67,6 +67,8 @@ export interface PixelPerfectImageSettings {
 
     // Other main settings
     customResizeSizes: string[]; // Array of sizes like ['25%', '50%', '100%', '600px']
+    keepWidthAndHeight: boolean;
+    enableDragHandles: boolean;
     cmdCtrlClickBehavior: 'do-nothing' | 'open-in-new-tab' | 'open-in-default-app';
 
     // Mousewheel zoom settings
@@ -77,9 +79,13 @@ export interface PixelPerfectImageSettings {
 
     // Advanced settings
     confirmBeforeDelete: boolean;
+    indexImagesInBackground: boolean;
+    keepImageMetadata: boolean;
 
     // Internal state
     lastShownVersion: string;
+    /** Quality last chosen when converting an image to a lossy format, from 1 to 100 */
+    lastConvertQuality: number;
 }
 
 function createDefaultFileOperations(): FileOperationConfig[] {
@@ -93,6 +99,8 @@ export const DEFAULT_SETTINGS: PixelPerfectImageSettings = {
 
     // Other main settings
     customResizeSizes: ['25%', '50%', '100%'], // Default percentage sizes
+    keepWidthAndHeight: false,
+    enableDragHandles: false,
     cmdCtrlClickBehavior: 'do-nothing',
 
     // Mousewheel zoom defaults
@@ -103,9 +111,12 @@ export const DEFAULT_SETTINGS: PixelPerfectImageSettings = {
 
     // Advanced defaults
     confirmBeforeDelete: true,
+    indexImagesInBackground: false,
+    keepImageMetadata: true,
 
     // Internal state
-    lastShownVersion: ''
+    lastShownVersion: '',
+    lastConvertQuality: 85
 };
 
 const fileOperationIdSet = new Set<string>(FILE_OPERATION_IDS);
@@ -158,6 +169,18 @@ const FILE_INFO_SETTING = {
     desc: strings.settings.items.fileInfo.desc
 } as const satisfies ToggleSettingSpec;
 
+const KEEP_WIDTH_AND_HEIGHT_SETTING = {
+    key: 'keepWidthAndHeight',
+    name: strings.settings.items.keepWidthAndHeight.name,
+    desc: strings.settings.items.keepWidthAndHeight.desc
+} as const satisfies ToggleSettingSpec;
+
+const DRAG_HANDLES_SETTING = {
+    key: 'enableDragHandles',
+    name: strings.settings.items.dragHandles.name,
+    desc: strings.settings.items.dragHandles.desc
+} as const satisfies ToggleSettingSpec;
+
 const ENABLE_WHEEL_ZOOM_SETTING = {
     key: 'enableWheelZoom',
     name: strings.settings.items.enableWheelZoom.name,
@@ -176,6 +199,18 @@ const CONFIRM_DELETE_SETTING = {
     desc: strings.settings.items.confirmDelete.desc
 } as const satisfies ToggleSettingSpec;
 
+const BACKGROUND_INDEXING_SETTING = {
+    key: 'indexImagesInBackground',
+    name: strings.settings.items.backgroundIndexing.name,
+    desc: strings.settings.items.backgroundIndexing.desc
+} as const satisfies ToggleSettingSpec;
+
+const KEEP_IMAGE_METADATA_SETTING = {
+    key: 'keepImageMetadata',
+    name: strings.settings.items.keepImageMetadata.name,
+    desc: strings.settings.items.keepImageMetadata.desc
+} as const satisfies ToggleSettingSpec;
+
 const FILE_OPERATION_CONTROL_PREFIX = 'fileOp.';
 const CONTEXT_MENU_ITEM_COUNT = FILE_OPERATION_IDS.length + 1;
 
@@ -301,6 +336,8 @@ export class PixelPerfectImageSettingTab extends PluginSettingTab {
                     placeholder: strings.settings.items.resizeOptions.placeholder
                 }
             },
+            createToggleDefinition(KEEP_WIDTH_AND_HEIGHT_SETTING),
+            createToggleDefinition(DRAG_HANDLES_SETTING),
             {
                 name: strings.settings.items.cmdClickBehavior.name.replace('{cmd}', cmdKey),
                 desc: strings.settings.items.cmdClickBehavior.desc.replace('{cmd}', cmdKey),
@@ -345,7 +382,11 @@ export class PixelPerfectImageSettingTab extends PluginSettingTab {
             {
                 type: 'group',
                 heading: strings.settings.headings.advanced,
-                items: [createToggleDefinition(CONFIRM_DELETE_SETTING)]
+                items: [
+                    createToggleDefinition(CONFIRM_DELETE_SETTING),
+                    createToggleDefinition(BACKGROUND_INDEXING_SETTING),
+                    createToggleDefinition(KEEP_IMAGE_METADATA_SETTING)
+                ]
             },
             {
                 type: 'group',
@@ -418,6 +459,16 @@ export class PixelPerfectImageSettingTab extends PluginSettingTab {
             return;
         }
 
+        if (key === 'indexImagesInBackground') {
+            if (typeof value !== 'boolean') return;
+
+            this.plugin.settings.indexImagesInBackground = value;
+            if (value) void this.plugin.dimensionIndexService.startBackgroundIndexing();
+            else this.plugin.dimensionIndexService.stopBackgroundIndexing();
+            this.updateThenSave();
+            return;
+        }
+
         if (key === 'customResizeSizes') {
             if (typeof value !== 'string') return;
 
@@ -0,0 +1,55 @@
+import type { AllCanvasNodeData, CanvasData } from 'obsidian/canvas';
+
+/** Parses a canvas file, or returns null when it isn't valid canvas JSON. */
+function parseCanvas(json: string): CanvasData | null {
+    try {
+        const data = JSON.parse(json) as CanvasData;
+        return Array.isArray(data.nodes) ? data : null;
+    } catch {
+        return null;
+    }
+}
+
+/** Returns the node with an id from a canvas file, or null when there is none. */
+export function findCanvasNode(json: string, nodeId: string): AllCanvasNodeData | null {
+    return parseCanvas(json)?.nodes.find(node => node.id === nodeId) ?? null;
+}
+
+/**
+ * Rewrites one node of a canvas file, keeping the other nodes and edges as they are. Returns the
+ * JSON unchanged when it can't be parsed or has no node with the id, so a failed lookup never
+ * rewrites the file.
+ */
+export function updateCanvasNode(json: string, nodeId: string, update: (node: AllCanvasNodeData) => AllCanvasNodeData): string {
+    const data = parseCanvas(json);
+    if (!data) return json;
+
+    const index = data.nodes.findIndex(node => node.id === nodeId);
+    if (index < 0) return json;
+
+    const nodes = [...data.nodes];
+    nodes[index] = update(nodes[index]);
+    // Obsidian saves canvas files indented with tabs
+    return JSON.stringify({ ...data, nodes }, null, '\t');
+}
+
+/**
+ * Rewrites every node of a canvas file that `update` changes; nodes it returns as they were are
+ * left alone. Returns the JSON unchanged when it can't be parsed or no node changed.
+ */
+export function updateCanvasNodes(json: string, update: (node: AllCanvasNodeData) => AllCanvasNodeData): string {
+    const data = parseCanvas(json);
+    if (!data) return json;
+
+    const nodes = data.nodes.map(update);
+    if (nodes.every((node, index) => node === data.nodes[index])) return json;
+    return JSON.stringify({ ...data, nodes }, null, '\t');
+}
+
+/**
+ * Sizes a canvas node to a width, with the height that keeps the aspect ratio (height / width).
+ * The node's top-left corner stays in place.
+ */
+export function resizeCanvasNode<T extends AllCanvasNodeData>(node: T, width: number, aspectRatio: number): T {
+    return { ...node, width, height: Math.max(1, Math.round(width * aspectRatio)) };
+}
@@ -1,6 +1,15 @@
 /** Regular expression to match Obsidian image wikilinks: ![[image.png]] */
 export const WIKILINK_IMAGE_REGEX = /!\[\[([^\]]+)\]\]/g;
 
+/** Regular expression to match Obsidian wikilinks, embedded or not: [[note]] and the link part of ![[image.png]] */
+export const WIKILINK_REGEX = /\[\[([^\]]+)\]\]/g;
+
+/** Extensions of the files Obsidian embeds as images */
+export const IMAGE_EXTENSIONS: ReadonlySet<string> = new Set(['png', 'jpg', 'jpeg', 'gif', 'bmp', 'svg', 'webp', 'avif']);
+
+/** Extensions of the videos Obsidian embeds with a player */
+export const VIDEO_EXTENSIONS: ReadonlySet<string> = new Set(['mp4', 'webm', 'ogv', 'mov', 'mkv']);
+
 /**
  * Fallback width (in px) used when resizing external (http/https) images where the intrinsic width
  * isn't available yet (e.g. not loaded).
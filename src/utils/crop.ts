@@ -0,0 +1,116 @@
+import type { CropRegion } from './types';
+
+/** What a crop drag changes: a corner or edge of the region, or its position */
+export type CropHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'move';
+
+/** Aspect ratio presets of the crop dialog; `original` keeps the image's own proportions */
+export type CropAspect = 'free' | '1:1' | '4:3' | '16:9' | 'original';
+
+/**
+ * Returns the width / height ratio a crop aspect preset stands for, or null for a free crop.
+ */
+export function getCropAspectRatio(aspect: CropAspect, imageWidth: number, imageHeight: number): number | null {
+    switch (aspect) {
+        case 'free':
+            return null;
+        case '1:1':
+            return 1;
+        case '4:3':
+            return 4 / 3;
+        case '16:9':
+            return 16 / 9;
+        case 'original':
+            return imageWidth / imageHeight;
+    }
+}
+
+/**
+ * Rounds a region to whole pixels and moves and shrinks it to lie within the image, at least one
+ * pixel wide and high.
+ */
+export function clampCropRegion(region: CropRegion, imageWidth: number, imageHeight: number): CropRegion {
+    const width = Math.min(imageWidth, Math.max(1, Math.round(region.width)));
+    const height = Math.min(imageHeight, Math.max(1, Math.round(region.height)));
+    return {
+        x: Math.min(imageWidth - width, Math.max(0, Math.round(region.x))),
+        y: Math.min(imageHeight - height, Math.max(0, Math.round(region.y))),
+        width,
+        height
+    };
+}
+
+/**
+ * Returns the largest region with an aspect ratio (width / height) that fits in a region, around
+ * the same center.
+ */
+export function fitCropRegionToAspect(region: CropRegion, ratio: number, imageWidth: number, imageHeight: number): CropRegion {
+    const width = Math.min(region.width, region.height * ratio);
+    const height = width / ratio;
+    return clampCropRegion(
+        {
+            x: region.x + (region.width - width) / 2,
+            y: region.y + (region.height - height) / 2,
+            width,
+            height
+        },
+        imageWidth,
+        imageHeight
+    );
+}
+
+/**
+ * Moves or resizes a crop region by a drag of `dx`, `dy` image pixels from where it started.
+ * Resizing keeps the opposite corner or edge in place, and an aspect ratio (width / height) when
+ * one is given; a region that would leave the image is shrunk to fit, keeping the ratio.
+ */
+export function dragCropRegion(
+    start: CropRegion,
+    handle: CropHandle,
+    dx: number,
+    dy: number,
+    ratio: number | null,
+    imageWidth: number,
+    imageHeight: number
+): CropRegion {
+    if (handle === 'move') {
+        return clampCropRegion({ ...start, x: start.x + dx, y: start.y + dy }, imageWidth, imageHeight);
+    }
+
+    const movesWest = handle.includes('w');
+    const movesEast = handle.includes('e');
+    const movesNorth = handle.includes('n');
+    const movesSouth = handle.includes('s');
+
+    // The point that stays put: the opposite corner, or the middle of the opposite edge
+    const anchorX = movesWest ? start.x + start.width : movesEast ? start.x : start.x + start.width / 2;
+    const anchorY = movesNorth ? start.y + start.height : movesSouth ? start.y : start.y + start.height / 2;
+
+    let width = Math.max(1, start.width + (movesEast ? dx : movesWest ? -dx : 0));
+    let height = Math.max(1, start.height + (movesSouth ? dy : movesNorth ? -dy : 0));
+    if (ratio !== null) {
+        if (movesEast || movesWest) height = width / ratio;
+        else width = height * ratio;
+    }
+
+    const maxWidth = movesWest ? anchorX : movesEast ? imageWidth - anchorX : 2 * Math.min(anchorX, imageWidth - anchorX);
+    const maxHeight = movesNorth ? anchorY : movesSouth ? imageHeight - anchorY : 2 * Math.min(anchorY, imageHeight - anchorY);
+    if (ratio !== null) {
+        const scale = Math.min(1, maxWidth / width, maxHeight / height);
+        width *= scale;
+        height *= scale;
+    } else {
+        width = Math.min(width, maxWidth);
+        height = Math.min(height, maxHeight);
+    }
+
+    return clampCropRegion(
+        {
+            x: movesWest ? anchorX - width : movesEast ? anchorX : anchorX - width / 2,
+            y: movesNorth ? anchorY - height : movesSouth ? anchorY : anchorY - height / 2,
+            width,
+            height
+        },
+        imageWidth,
+        imageHeight
+    );
+}
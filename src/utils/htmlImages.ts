@@ -0,0 +1,172 @@
+import { TextRange, markdownCodeRanges, overlapsRange } from './markdownRanges';
+import type { TextEdit } from './types';
+import { applyTextEdits } from './utils';
+
+/** An HTML `<img>` tag in note text, such as `<img src="assets/photo.png" width="400">`. */
+export interface HtmlImageTag extends TextRange {
+    /** The whole tag as written */
+    tag: string;
+    /** The `src` attribute as written, possibly URL-encoded */
+    src: string;
+    /** A `<picture>` or `<figure>` element around this image and no other, removed along with it */
+    wrapper: TextRange | null;
+}
+
+interface HtmlAttribute extends TextRange {
+    name: string;
+    value: string;
+    quote: '"' | "'" | '';
+}
+
+const IMG_TAG = /<img\b(?:[^>"']|"[^"]*"|'[^']*')*>/gi;
+
+const WRAPPER_ELEMENT = /<(picture|figure)\b[^>]*>[\s\S]*?<\/\1\s*>/gi;
+
+const HTML_ATTRIBUTE = /([^\s"'=<>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+/** A size in an attribute or style declaration: a number of pixels, with or without the unit. */
+const PIXEL_SIZE = /^\s*(\d+(?:\.\d+)?)(?:px)?\s*$/i;
+
+/**
+ * Returns the HTML image tags in the text, outside Markdown code ranges, in document order.
+ * Tags without a `src` are left out.
+ */
+export function scanHtmlImageTags(text: string): HtmlImageTag[] {
+    const codeRanges = markdownCodeRanges(text);
+    const images = Array.from(text.matchAll(IMG_TAG), match => {
+        const start = match.index ?? 0;
+        return { start, end: start + match[0].length, tag: match[0] };
+    }).filter(image => !overlapsRange(codeRanges, image.start, image.end));
+
+    const wrappers = Array.from(text.matchAll(WRAPPER_ELEMENT), match => {
+        const start = match.index ?? 0;
+        return { start, end: start + match[0].length };
+    });
+    const contains = (outer: TextRange, inner: TextRange) => outer.start <= inner.start && inner.end <= outer.end;
+
+    const tags: HtmlImageTag[] = [];
+    for (const image of images) {
+        const src =
+            parseAttributes(image.tag)
+                .find(attribute => attribute.name === 'src')
+                ?.value.trim() ?? '';
+        if (!src) continue;
+
+        const wrapper = wrappers.find(candidate => contains(candidate, image)) ?? null;
+        const isOnlyImage = wrapper !== null && images.filter(other => contains(wrapper, other)).length === 1;
+        tags.push({ ...image, src, wrapper: isOnlyImage ? wrapper : null });
+    }
+    return tags;
+}
+
+/**
+ * Reads the size of an image tag as Obsidian size parameters: `["400"]` for a width, `["400x300"]`
+ * for a width and height, or none. A width in the `style` attribute wins over the `width` attribute.
+ */
+export function getHtmlImageSizeParams(tag: string): string[] {
+    const attributes = parseAttributes(tag);
+    const style = parseStyle(attributes.find(attribute => attribute.name === 'style')?.value ?? '');
+    const readPixels = (name: 'width' | 'height') => {
+        const value = style.get(name) ?? attributes.find(attribute => attribute.name === name)?.value ?? '';
+        const match = PIXEL_SIZE.exec(value);
+        return match ? Math.round(parseFloat(match[1])) : null;
+    };
+
+    const width = readPixels('width');
+    if (!width) return [];
+    const height = readPixels('height');
+    return [height ? `${width}x${height}` : String(width)];
+}
+
+/**
+ * Rewrites the size of an image tag, keeping its other attributes as written. A size written in the
+ * `style` attribute stays there; otherwise the `width` and `height` attributes are used. Without a
+ * height the height is removed, so the image keeps its aspect ratio, and a null size removes both.
+ */
+export function setHtmlImageSize(tag: string, size: { width: number; height?: number } | null): string {
+    const attributes = parseAttributes(tag);
+    const find = (name: string) => attributes.find(attribute => attribute.name === name) ?? null;
+    const styleAttribute = find('style');
+    const style = parseStyle(styleAttribute?.value ?? '');
+    const usesStyle = style.has('width') || style.has('height');
+    const edits: TextEdit[] = [];
+    const insertAt = attributes.length > 0 ? attributes[attributes.length - 1].end : '<img'.length;
+
+    const setAttribute = (name: string, value: string | null) => {
+        const attribute = find(name);
+        if (attribute && value === null) {
+            let start = attribute.start;
+            while (start > 0 && /\s/.test(tag[start - 1])) start--;
+            edits.push({ start, end: attribute.end, text: '' });
+        } else if (attribute && value !== null) {
+            const quote = attribute.quote || '"';
+            edits.push({
+                start: attribute.start,
+                end: attribute.end,
+                text: `${tag.slice(attribute.start, attribute.start + name.length)}=${quote}${value}${quote}`
+            });
+        } else if (value !== null) {
+            edits.push({ start: insertAt, end: insertAt, text: ` ${name}="${value}"` });
+        }
+    };
+
+    const widthValue = size ? String(size.width) : null;
+    const heightValue = size?.height !== undefined ? String(size.height) : null;
+    setAttribute('width', usesStyle && !find('width') ? null : widthValue);
+    setAttribute('height', usesStyle && !find('height') ? null : heightValue);
+
+    if (usesStyle) {
+        style.delete('width');
+        style.delete('height');
+        if (widthValue !== null) style.set('width', `${widthValue}px`);
+        if (heightValue !== null) style.set('height', `${heightValue}px`);
+        const declarations = Array.from(style, ([property, value]) => `${property}: ${value}`).join('; ');
+        setAttribute('style', declarations || null);
+    }
+
+    return applyTextEdits(tag, edits);
+}
+
+/**
+ * Sets the `src` of an image tag, keeping the attribute's quotes and the rest of the tag as written.
+ */
+export function setHtmlImageSrc(tag: string, src: string): string {
+    const attribute = parseAttributes(tag).find(candidate => candidate.name === 'src');
+    if (!attribute) return tag;
+
+    // An unquoted value can't hold spaces or quotes
+    const quote = attribute.quote || (/[\s"'=<>`]/.test(src) ? '"' : '');
+    const name = tag.slice(attribute.start, attribute.start + 'src'.length);
+    return applyTextEdits(tag, [{ start: attribute.start, end: attribute.end, text: `${name}=${quote}${src}${quote}` }]);
+}
+
+/** Parses the attributes of a tag, with their ranges in the tag. Names are lowercased. */
+function parseAttributes(tag: string): HtmlAttribute[] {
+    const bodyStart = '<img'.length;
+    const bodyEnd = tag.endsWith('/>') ? tag.length - 2 : tag.length - 1;
+    const body = tag.slice(bodyStart, bodyEnd);
+
+    return Array.from(body.matchAll(HTML_ATTRIBUTE), match => {
+        const start = bodyStart + (match.index ?? 0);
+        const quote: HtmlAttribute['quote'] = match[2] !== undefined ? '"' : match[3] !== undefined ? "'" : '';
+        return {
+            name: match[1].toLowerCase(),
+            value: match[2] ?? match[3] ?? match[4] ?? '',
+            quote,
+            start,
+            end: start + match[0].length
+        };
+    });
+}
+
+/** Parses a `style` attribute into its declarations, keyed by lowercased property, in order. */
+function parseStyle(style: string): Map<string, string> {
+    const declarations = new Map<string, string>();
+    for (const declaration of style.split(';')) {
+        const colon = declaration.indexOf(':');
+        if (colon < 0) continue;
+        const property = declaration.slice(0, colon).trim().toLowerCase();
+        if (property) declarations.set(property, declaration.slice(colon + 1).trim());
+    }
+    return declarations;
+}
@@ -0,0 +1,388 @@
+export type ImageFormat = 'png' | 'jpeg' | 'gif' | 'webp' | 'bmp' | 'ico' | 'avif' | 'heif' | 'tiff';
+
+export interface ImageHeaderInfo {
+    format: ImageFormat;
+    /** Width as displayed, after the orientation is applied */
+    width: number;
+    /** Height as displayed, after the orientation is applied */
+    height: number;
+    /** EXIF orientation (1-8) the image is displayed with; 1 when it isn't rotated or mirrored */
+    orientation: number;
+}
+
+interface StoredSize {
+    width: number;
+    height: number;
+    orientation?: number;
+}
+
+export const IMAGE_FORMAT_MIME_TYPES: Record<ImageFormat, string> = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    bmp: 'image/bmp',
+    ico: 'image/x-icon',
+    avif: 'image/avif',
+    heif: 'image/heif',
+    tiff: 'image/tiff'
+};
+
+/** ISO BMFF brands of HEIF images other than AVIF. */
+const HEIF_BRANDS = new Set(['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1']);
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+    if (offset + length > bytes.length) return '';
+    return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function matches(bytes: Uint8Array, offset: number, expected: readonly number[]): boolean {
+    if (offset + expected.length > bytes.length) return false;
+    return expected.every((value, index) => bytes[offset + index] === value);
+}
+
+function isoBrandFormat(bytes: Uint8Array): ImageFormat | null {
+    if (ascii(bytes, 4, 4) !== 'ftyp') return null;
+
+    const boxSize = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(0);
+    const end = Math.min(bytes.length, Math.max(boxSize, 16));
+    // The major brand, then the compatible brands after the minor version
+    const brands = [ascii(bytes, 8, 4)];
+    for (let offset = 16; offset + 4 <= end; offset += 4) brands.push(ascii(bytes, offset, 4));
+
+    if (brands.some(brand => brand === 'avif' || brand === 'avis')) return 'avif';
+    if (brands.some(brand => HEIF_BRANDS.has(brand))) return 'heif';
+    return null;
+}
+
+/**
+ * Identifies a raster image format from its magic bytes.
+ */
+export function detectImageFormat(bytes: Uint8Array): ImageFormat | null {
+    if (matches(bytes, 0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+    if (matches(bytes, 0, [0xff, 0xd8, 0xff])) return 'jpeg';
+    if (ascii(bytes, 0, 4) === 'GIF8' && (bytes[4] === 0x37 || bytes[4] === 0x39) && bytes[5] === 0x61) return 'gif';
+    if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+    if (matches(bytes, 0, [0x42, 0x4d])) return 'bmp';
+    if (matches(bytes, 0, [0x00, 0x00, 0x01, 0x00])) return 'ico';
+    if (matches(bytes, 0, [0x49, 0x49, 0x2a, 0x00]) || matches(bytes, 0, [0x4d, 0x4d, 0x00, 0x2a])) return 'tiff';
+    return isoBrandFormat(bytes);
+}
+
+function readPngSize(view: DataView): { width: number; height: number } | null {
+    if (view.byteLength < 24) return null;
+    // The IHDR chunk always comes first: length, "IHDR", width, height
+    if (view.getUint32(12) !== 0x49484452) return null;
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+function readGifSize(view: DataView): { width: number; height: number } | null {
+    if (view.byteLength < 10) return null;
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+}
+
+function readBmpSize(view: DataView): { width: number; height: number } | null {
+    if (view.byteLength < 26) return null;
+
+    // A 12-byte OS/2 core header stores 16-bit sizes; all later headers store signed 32-bit ones,
+    // where a negative height marks a top-down bitmap.
+    if (view.getUint32(14, true) === 12) {
+        return { width: view.getUint16(18, true), height: view.getUint16(20, true) };
+    }
+    return { width: Math.abs(view.getInt32(18, true)), height: Math.abs(view.getInt32(22, true)) };
+}
+
+function readIcoSize(view: DataView): { width: number; height: number } | null {
+    if (view.byteLength < 6) return null;
+
+    // Browsers show the largest image of the icon; a stored size of 0 means 256 pixels.
+    const count = view.getUint16(4, true);
+    let best: { width: number; height: number } | null = null;
+    for (let index = 0; index < count; index++) {
+        const entry = 6 + index * 16;
+        if (entry + 2 > view.byteLength) break;
+
+        const width = view.getUint8(entry) || 256;
+        const height = view.getUint8(entry + 1) || 256;
+        if (!best || width * height > best.width * best.height) best = { width, height };
+    }
+    return best;
+}
+
+function readWebpSize(view: DataView, bytes: Uint8Array): { width: number; height: number } | null {
+    if (view.byteLength < 30) return null;
+
+    switch (ascii(bytes, 12, 4)) {
+        case 'VP8 ':
+            // Lossy: a keyframe start code, then 14-bit sizes
+            if (!matches(bytes, 23, [0x9d, 0x01, 0x2a])) return null;
+            return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+        case 'VP8L': {
+            // Lossless: a signature byte, then 14-bit sizes minus one packed into four bytes
+            if (bytes[20] !== 0x2f) return null;
+            const [b0, b1, b2, b3] = bytes.subarray(21, 25);
+            return {
+                width: 1 + (((b1 & 0x3f) << 8) | b0),
+                height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6))
+            };
+        }
+        case 'VP8X':
+            // Extended: 24-bit canvas sizes minus one
+            return {
+                width: 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)),
+                height: 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16))
+            };
+        default:
+            return null;
+    }
+}
+
+function readJpegSize(view: DataView): StoredSize | null {
+    let offset = 2;
+    let orientation: number | undefined;
+
+    while (offset + 4 <= view.byteLength) {
+        if (view.getUint8(offset) !== 0xff) return null;
+
+        const marker = view.getUint8(offset + 1);
+        // Fill bytes may pad a marker
+        if (marker === 0xff) {
+            offset += 1;
+            continue;
+        }
+        // Standalone markers carry no length
+        if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+            offset += 2;
+            continue;
+        }
+        if (marker === 0xd9 || marker === 0xda) return null;
+
+        const length = view.getUint16(offset + 2);
+        // APP1 with an "Exif\0\0" identifier holds a TIFF structure
+        if (marker === 0xe1 && orientation === undefined && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+            orientation = readExifOrientation(view, offset + 10);
+        }
+        // Start of frame, excluding DHT (C4), JPG (C8), and DAC (CC) which share the range
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            if (offset + 9 > view.byteLength) return null;
+            return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5), orientation };
+        }
+
+        offset += 2 + length;
+    }
+
+    return null;
+}
+
+/**
+ * Reads SHORT and LONG values of the given tags from the first IFD of a TIFF structure.
+ * @param start - Offset of the TIFF header; IFD offsets are relative to it
+ */
+function readTiffTags(view: DataView, start: number, tags: readonly number[]): Map<number, number> {
+    const values = new Map<number, number>();
+    if (start + 8 > view.byteLength) return values;
+
+    const littleEndian = view.getUint8(start) === 0x49;
+    const ifdOffset = start + view.getUint32(start + 4, littleEndian);
+    if (ifdOffset + 2 > view.byteLength) return values;
+
+    const entryCount = view.getUint16(ifdOffset, littleEndian);
+    for (let index = 0; index < entryCount; index++) {
+        const entry = ifdOffset + 2 + index * 12;
+        if (entry + 12 > view.byteLength) break;
+
+        const tag = view.getUint16(entry, littleEndian);
+        if (!tags.includes(tag)) continue;
+
+        // SHORT (3) values sit in the first two bytes of the value field, LONG (4) values fill it
+        const type = view.getUint16(entry + 2, littleEndian);
+        if (type === 3) values.set(tag, view.getUint16(entry + 8, littleEndian));
+        else if (type === 4) values.set(tag, view.getUint32(entry + 8, littleEndian));
+    }
+
+    return values;
+}
+
+const TIFF_IMAGE_WIDTH = 256;
+const TIFF_IMAGE_LENGTH = 257;
+const TIFF_ORIENTATION = 274;
+
+function readTiffSize(view: DataView): StoredSize | null {
+    const values = readTiffTags(view, 0, [TIFF_IMAGE_WIDTH, TIFF_IMAGE_LENGTH]);
+    const width = values.get(TIFF_IMAGE_WIDTH);
+    const height = values.get(TIFF_IMAGE_LENGTH);
+    return width !== undefined && height !== undefined ? { width, height } : null;
+}
+
+/** The orientation tag of an EXIF block, or undefined when it is missing, invalid, or cut off. */
+function readExifOrientation(view: DataView, start: number): number | undefined {
+    try {
+        const orientation = readTiffTags(view, start, [TIFF_ORIENTATION]).get(TIFF_ORIENTATION);
+        return orientation !== undefined && orientation >= 1 && orientation <= 8 ? orientation : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+interface IsoBox {
+    type: string;
+    /** Offset of the box payload, past the size and type */
+    start: number;
+    end: number;
+}
+
+function readIsoBoxes(view: DataView, bytes: Uint8Array, start: number, end: number): IsoBox[] {
+    const boxes: IsoBox[] = [];
+    let offset = start;
+
+    while (offset + 8 <= end) {
+        let size = view.getUint32(offset);
+        let headerSize = 8;
+        if (size === 1) {
+            if (offset + 16 > end) break;
+            size = view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12);
+            headerSize = 16;
+        } else if (size === 0) {
+            size = end - offset;
+        }
+        if (size < headerSize) break;
+
+        boxes.push({ type: ascii(bytes, offset + 4, 4), start: offset + headerSize, end: Math.min(offset + size, end) });
+        offset += size;
+    }
+
+    return boxes;
+}
+
+/** The boxes inside the `meta` box, which is a full box with four bytes of version and flags. */
+function readIsoMetaBoxes(view: DataView, bytes: Uint8Array): IsoBox[] | null {
+    const meta = readIsoBoxes(view, bytes, 0, view.byteLength).find(box => box.type === 'meta');
+    return meta ? readIsoBoxes(view, bytes, meta.start + 4, meta.end) : null;
+}
+
+/**
+ * Property boxes associated with the primary item, in association order. Falls back to every
+ * property when the item associations can't be read.
+ */
+function readIsoPrimaryItemProperties(view: DataView, bytes: Uint8Array): IsoBox[] {
+    const metaBoxes = readIsoMetaBoxes(view, bytes);
+    if (!metaBoxes) return [];
+
+    const iprp = metaBoxes.find(box => box.type === 'iprp');
+    if (!iprp) return [];
+
+    const iprpBoxes = readIsoBoxes(view, bytes, iprp.start, iprp.end);
+    const ipco = iprpBoxes.find(box => box.type === 'ipco');
+    if (!ipco) return [];
+    const properties = readIsoBoxes(view, bytes, ipco.start, ipco.end);
+
+    const pitm = metaBoxes.find(box => box.type === 'pitm');
+    const ipma = iprpBoxes.find(box => box.type === 'ipma');
+    if (!pitm || !ipma || pitm.start + 6 > view.byteLength || ipma.start + 8 > view.byteLength) return properties;
+
+    const primaryItemId = view.getUint8(pitm.start) === 0 ? view.getUint16(pitm.start + 4) : view.getUint32(pitm.start + 4);
+
+    const ipmaVersion = view.getUint8(ipma.start);
+    const ipmaFlags = view.getUint8(ipma.start + 3);
+    let offset = ipma.start + 4;
+    const entryCount = view.getUint32(offset);
+    offset += 4;
+
+    for (let entry = 0; entry < entryCount && offset < ipma.end; entry++) {
+        const itemId = ipmaVersion < 1 ? view.getUint16(offset) : view.getUint32(offset);
+        offset += ipmaVersion < 1 ? 2 : 4;
+        const associationCount = view.getUint8(offset);
+        offset += 1;
+
+        const associated: IsoBox[] = [];
+        for (let association = 0; association < associationCount; association++) {
+            // Property indices are one-based, zero means no property
+            const index = ipmaFlags & 1 ? view.getUint16(offset) & 0x7fff : view.getUint8(offset) & 0x7f;
+            offset += ipmaFlags & 1 ? 2 : 1;
+            if (index > 0 && properties[index - 1]) associated.push(properties[index - 1]);
+        }
+
+        if (itemId === primaryItemId) return associated;
+    }
+
+    return properties;
+}
+
+/** EXIF orientations for `irot` angles, which count 90° anti-clockwise steps */
+const IROT_ORIENTATIONS = [1, 8, 3, 6];
+
+function readIsoSize(view: DataView, bytes: Uint8Array): StoredSize | null {
+    const properties = readIsoPrimaryItemProperties(view, bytes);
+
+    // `ispe` is a full box: four bytes of version and flags, then 32-bit sizes
+    const sizes = properties
+        .filter(box => box.type === 'ispe' && box.start + 12 <= view.byteLength)
+        .map(box => ({ width: view.getUint32(box.start + 4), height: view.getUint32(box.start + 8) }));
+
+    // Without item associations, the largest size is the image rather than a thumbnail or tile
+    const size = sizes.reduce<{ width: number; height: number } | null>(
+        (best, candidate) => (!best || candidate.width * candidate.height > best.width * best.height ? candidate : best),
+        null
+    );
+    if (!size) return null;
+
+    const irot = properties.find(box => box.type === 'irot' && box.start < view.byteLength);
+    return { ...size, orientation: irot ? IROT_ORIENTATIONS[view.getUint8(irot.start) & 0x03] : undefined };
+}
+
+/**
+ * Reads image dimensions from the file header, without decoding the image.
+ * A prefix of the file is enough for every format, except JPEGs whose metadata segments
+ * run past it. JPEG EXIF orientation and HEIF `irot` rotation are applied, since browsers
+ * display the image rotated.
+ * @returns The format and displayed dimensions, or null when the data is not a supported format
+ *   or the header is incomplete
+ */
+export function readImageHeader(data: ArrayBuffer): ImageHeaderInfo | null {
+    const bytes = new Uint8Array(data);
+    const format = detectImageFormat(bytes);
+    if (!format) return null;
+
+    const view = new DataView(data);
+    let size: StoredSize | null;
+    try {
+        switch (format) {
+            case 'png':
+                size = readPngSize(view);
+                break;
+            case 'jpeg':
+                size = readJpegSize(view);
+                break;
+            case 'gif':
+                size = readGifSize(view);
+                break;
+            case 'webp':
+                size = readWebpSize(view, bytes);
+                break;
+            case 'bmp':
+                size = readBmpSize(view);
+                break;
+            case 'ico':
+                size = readIcoSize(view);
+                break;
+            case 'tiff':
+                size = readTiffSize(view);
+                break;
+            case 'avif':
+            case 'heif':
+                size = readIsoSize(view, bytes);
+                break;
+        }
+    } catch {
+        // A truncated header reads past the end of the buffer
+        return null;
+    }
+
+    if (!size || size.width <= 0 || size.height <= 0) return null;
+
+    // Orientations 5-8 turn the image a quarter, swapping its sides
+    const orientation = size.orientation ?? 1;
+    return orientation >= 5
+        ? { format, width: size.height, height: size.width, orientation }
+        : { format, width: size.width, height: size.height, orientation };
+}
@@ -0,0 +1,73 @@
+import { setJpegOrientation } from './orientation';
+
+/** Segments that hold metadata rather than image data: EXIF and XMP (APP1), ICC profiles (APP2) and IPTC (APP13) */
+const METADATA_MARKERS: ReadonlySet<number> = new Set([0xe1, 0xe2, 0xed]);
+
+interface JpegSegment {
+    marker: number;
+    /** Offset of the segment's 0xFF marker byte */
+    start: number;
+    /** Offset just past the segment */
+    end: number;
+}
+
+/**
+ * Lists the segments in front of the image data of a JPEG.
+ * @returns null when the data isn't a JPEG or a segment runs past its end
+ */
+function readJpegSegments(bytes: Uint8Array): JpegSegment[] | null {
+    if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+    const segments: JpegSegment[] = [];
+    let offset = 2;
+    while (offset + 4 <= bytes.length) {
+        if (bytes[offset] !== 0xff) return null;
+
+        const marker = bytes[offset + 1];
+        if (marker === 0xff) {
+            offset += 1;
+            continue;
+        }
+        // Scan data or a frame header: the metadata segments are behind us
+        if (marker === 0xda || (marker >= 0xc0 && marker <= 0xcf)) return segments;
+
+        const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+        if (end > bytes.length) return null;
+        segments.push({ marker, start: offset, end });
+        offset = end;
+    }
+    return null;
+}
+
+/**
+ * Copies the metadata of one JPEG into another, such as a re-encoded copy of it, after its JFIF
+ * header. The copied EXIF orientation is reset, since an image drawn through a canvas is already
+ * upright.
+ * @returns The target with the metadata, or the target unchanged when either isn't a JPEG
+ */
+export function copyJpegMetadata(source: ArrayBuffer, target: ArrayBuffer): ArrayBuffer {
+    const sourceBytes = new Uint8Array(source);
+    const targetBytes = new Uint8Array(target);
+    const sourceSegments = readJpegSegments(sourceBytes);
+    const targetSegments = readJpegSegments(targetBytes);
+    if (!sourceSegments || !targetSegments) return target;
+
+    const metadata = sourceSegments.filter(segment => METADATA_MARKERS.has(segment.marker));
+    if (metadata.length === 0) return target;
+
+    // A JFIF header must stay the first segment
+    const insertAt = targetSegments[0]?.marker === 0xe0 ? targetSegments[0].end : 2;
+    const parts = [
+        targetBytes.subarray(0, insertAt),
+        ...metadata.map(segment => sourceBytes.subarray(segment.start, segment.end)),
+        targetBytes.subarray(insertAt)
+    ];
+    const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+
+    return setJpegOrientation(result.buffer, 1) ?? result.buffer;
+}
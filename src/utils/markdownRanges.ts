@@ -245,6 +245,43 @@ export function markdownCodeRanges(text: string): TextRange[] {
     return ranges;
 }
 
+/** A table delimiter row, such as `| --- | :-: |`, which turns the line above it into a table header. */
+const TABLE_DELIMITER_ROW = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+/**
+ * Returns the ranges of Markdown tables, from the header row to the last body row. Links inside them
+ * separate their parameters with an escaped pipe (`\|`), since a bare one would split the cell.
+ */
+export function markdownTableRanges(text: string): TextRange[] {
+    const ranges: TextRange[] = [];
+    const lines: { start: number; end: number; content: string }[] = [];
+    let lineStart = 0;
+    while (lineStart <= text.length) {
+        const newline = text.indexOf('\n', lineStart);
+        const lineEnd = newline < 0 ? text.length : newline;
+        const content = text.slice(lineStart, lineEnd).replace(/\r$/, '').replace(BLOCKQUOTE_PREFIX, '');
+        lines.push({ start: lineStart, end: lineEnd, content });
+        if (newline < 0) break;
+        lineStart = newline + 1;
+    }
+
+    for (let index = 0; index + 1 < lines.length; index++) {
+        const header = lines[index].content;
+        const delimiter = lines[index + 1].content;
+        // A delimiter row without a pipe is a setext underline or thematic break
+        if (!header.includes('|') || !delimiter.includes('|') || !TABLE_DELIMITER_ROW.test(delimiter)) continue;
+
+        // Body rows run until a blank line or a line without a pipe
+        let last = index + 1;
+        while (last + 1 < lines.length && lines[last + 1].content.trim() !== '' && lines[last + 1].content.includes('|')) last++;
+
+        ranges.push({ start: lines[index].start, end: lines[last].end });
+        index = last;
+    }
+
+    return ranges;
+}
+
 /** True when two half-open text ranges overlap. */
 export function overlapsRange(ranges: readonly TextRange[], start: number, end: number): boolean {
     return ranges.some(range => start < range.end && end > range.start);
@@ -0,0 +1,147 @@
+import type { ImageTransform } from './types';
+
+/**
+ * EXIF orientations as the quarter turns clockwise and the horizontal mirror that display the stored
+ * image, mirror first. Index 0 is orientation 1.
+ */
+const ORIENTATION_TURNS: readonly { turns: number; mirrored: boolean }[] = [
+    { turns: 0, mirrored: false },
+    { turns: 0, mirrored: true },
+    { turns: 2, mirrored: false },
+    { turns: 2, mirrored: true },
+    { turns: 3, mirrored: true },
+    { turns: 1, mirrored: false },
+    { turns: 1, mirrored: true },
+    { turns: 3, mirrored: false }
+];
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+/** True for the transforms that swap the width and height of an image */
+export function isQuarterTurn(transform: ImageTransform): boolean {
+    return transform === 'rotateLeft' || transform === 'rotateRight';
+}
+
+/** True for the EXIF orientations that turn the image a half or quarter turn; 2 and 4 only mirror it */
+export function isTurningOrientation(orientation: number): boolean {
+    return orientation === 3 || (orientation >= 5 && orientation <= 8);
+}
+
+/**
+ * Returns the EXIF orientation that shows an image transformed, given the orientation it has.
+ */
+export function composeOrientation(orientation: number, transform: ImageTransform): number {
+    const current = ORIENTATION_TURNS[orientation - 1] ?? ORIENTATION_TURNS[0];
+    let { turns, mirrored } = current;
+    switch (transform) {
+        case 'rotateRight':
+            turns += 1;
+            break;
+        case 'rotateLeft':
+            turns += 3;
+            break;
+        case 'rotate180':
+            turns += 2;
+            break;
+        // Mirroring after a turn equals the opposite turn after mirroring
+        case 'flipHorizontal':
+            turns = -turns;
+            mirrored = !mirrored;
+            break;
+        case 'flipVertical':
+            turns = 2 - turns;
+            mirrored = !mirrored;
+            break;
+    }
+
+    const normalizedTurns = ((turns % 4) + 4) % 4;
+    return ORIENTATION_TURNS.findIndex(entry => entry.turns === normalizedTurns && entry.mirrored === mirrored) + 1;
+}
+
+/**
+ * Finds the value of the orientation tag in the first IFD of a TIFF structure.
+ * @param start - Offset of the TIFF header; IFD offsets are relative to it
+ * @returns The offset and byte order of the value, or null when the tag is missing
+ */
+function findOrientationValue(view: DataView, start: number): { offset: number; littleEndian: boolean } | null {
+    const littleEndian = view.getUint8(start) === 0x49;
+    const ifdOffset = start + view.getUint32(start + 4, littleEndian);
+    const entryCount = view.getUint16(ifdOffset, littleEndian);
+    for (let index = 0; index < entryCount; index++) {
+        const entry = ifdOffset + 2 + index * 12;
+        // SHORT (3) is the only type the tag is written with
+        if (view.getUint16(entry, littleEndian) === EXIF_ORIENTATION_TAG && view.getUint16(entry + 2, littleEndian) === 3) {
+            return { offset: entry + 8, littleEndian };
+        }
+    }
+    return null;
+}
+
+/** An APP1 segment holding an EXIF block with only the orientation tag, big-endian */
+function createOrientationSegment(orientation: number): Uint8Array {
+    const segment = new Uint8Array(36);
+    const view = new DataView(segment.buffer);
+    view.setUint16(0, 0xffe1);
+    view.setUint16(2, segment.length - 2);
+    segment.set([0x45, 0x78, 0x69, 0x66, 0, 0], 4); // "Exif\0\0"
+    view.setUint16(10, 0x4d4d); // "MM"
+    view.setUint16(12, 42);
+    view.setUint32(14, 8);
+    view.setUint16(18, 1);
+    view.setUint16(20, EXIF_ORIENTATION_TAG);
+    view.setUint16(22, 3);
+    view.setUint32(24, 1);
+    view.setUint16(28, orientation);
+    view.setUint32(32, 0);
+    return segment;
+}
+
+/**
+ * Rewrites the EXIF orientation of a JPEG without touching its image data. A JPEG without EXIF
+ * gets an EXIF block with only the orientation.
+ * @returns The new file contents, or null when the file isn't a JPEG or has EXIF without an
+ *   orientation tag, which can't be added without rewriting the block
+ */
+export function setJpegOrientation(data: ArrayBuffer, orientation: number): ArrayBuffer | null {
+    const view = new DataView(data);
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+    let offset = 2;
+    // A new EXIF block goes after a JFIF header, which must come first
+    let insertAt = 2;
+    try {
+        while (offset + 4 <= view.byteLength) {
+            if (view.getUint8(offset) !== 0xff) return null;
+
+            const marker = view.getUint8(offset + 1);
+            if (marker === 0xff) {
+                offset += 1;
+                continue;
+            }
+            // Scan data or a frame header: the metadata segments are behind us
+            if (marker === 0xda || (marker >= 0xc0 && marker <= 0xcf)) break;
+
+            const length = view.getUint16(offset + 2);
+            if (marker === 0xe0 && offset === 2) insertAt = offset + 2 + length;
+            if (marker === 0xe1 && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+                const value = findOrientationValue(view, offset + 10);
+                if (!value) return null;
+
+                const copy = data.slice(0);
+                new DataView(copy).setUint16(value.offset, orientation, value.littleEndian);
+                return copy;
+            }
+            offset += 2 + length;
+        }
+    } catch {
+        // A truncated segment reads past the end of the buffer
+        return null;
+    }
+
+    const segment = createOrientationSegment(orientation);
+    const result = new Uint8Array(data.byteLength + segment.length);
+    result.set(new Uint8Array(data, 0, insertAt), 0);
+    result.set(segment, insertAt);
+    result.set(new Uint8Array(data, insertAt), insertAt + segment.length);
+    return result.buffer;
+}
@@ -0,0 +1,35 @@
+/** CSS pixels per PDF point: PDF viewers show a page at 100% with 96 pixels per 72-point inch */
+const CSS_PIXELS_PER_POINT = 96 / 72;
+
+/** The page box of a page object, as four numbers: lower-left x and y, upper-right x and y */
+const MEDIA_BOX = /\/MediaBox\s*\[\s*(-?[\d.]+)\s+(-?[\d.]+)\s+(-?[\d.]+)\s+(-?[\d.]+)\s*\]/;
+
+const ROTATE = /\/Rotate\s+(-?\d+)/;
+
+/**
+ * Reads the size of the first page of a PDF, in CSS pixels at 100% zoom. Only page boxes written
+ * in plain text are found; a PDF that keeps its pages in compressed object streams returns null.
+ * @param data - The PDF, or as much of its start as was read
+ */
+export function readPdfPageSize(data: ArrayBuffer): { width: number; height: number } | null {
+    // Latin-1 keeps one character per byte, so binary streams can't break the PDF syntax around them
+    const text = new TextDecoder('latin1').decode(data);
+    if (!text.startsWith('%PDF-')) return null;
+
+    const box = MEDIA_BOX.exec(text);
+    if (!box) return null;
+
+    const [left, bottom, right, top] = box.slice(1).map(Number);
+    let width = Math.abs(right - left) * CSS_PIXELS_PER_POINT;
+    let height = Math.abs(top - bottom) * CSS_PIXELS_PER_POINT;
+    if (!(width > 0 && height > 0)) return null;
+
+    // A page rotated a quarter turn is shown with its sides swapped
+    const objectStart = text.lastIndexOf(' obj', box.index);
+    const objectEnd = text.indexOf('endobj', box.index);
+    const pageObject = text.slice(Math.max(0, objectStart), objectEnd < 0 ? text.length : objectEnd);
+    const rotation = Number(ROTATE.exec(pageObject)?.[1] ?? 0);
+    if (Math.abs(rotation) % 180 === 90) [width, height] = [height, width];
+
+    return { width: Math.round(width), height: Math.round(height) };
+}
@@ -1,8 +1,20 @@
+import type { Menu, TFile } from 'obsidian';
+import type { TextRange } from './markdownRanges';
+
 declare module 'obsidian' {
     interface App {
         showInFolder(path: string): void;
         openWithDefaultApp(path: string): void;
     }
+
+    interface Editor {
+        cm?: { posAtDOM(node: Node, offset?: number): number };
+    }
+
+    interface MenuItem {
+        /** Turns the item into a submenu and returns it; not public API, and missing in older versions */
+        setSubmenu?(): Menu;
+    }
 }
 
 export interface ImageLink {
@@ -11,3 +23,67 @@ export interface ImageLink {
     params: string[];
     isWikiStyle: boolean;
 }
+
+/** A replacement of the text in `start`..`end` (offsets into the original text) with `text`. */
+export interface TextEdit extends TextRange {
+    text: string;
+}
+
+/** Image links removed from a note, kept so the removal can be undone */
+export interface RemovedImageLinks {
+    note: TFile;
+    /** The note body right after the removal; the links are only put back while the body still matches */
+    bodyAfter: string;
+    /** Edits to the body that reinsert the removed link text */
+    restoreEdits: TextEdit[];
+}
+
+/**
+ * What the amount in the custom resize dialog measures: a width in pixels, a percentage of the
+ * original width, a percentage of the readable line width, or a height in pixels.
+ */
+export type ResizeUnit = 'px' | 'percent' | 'lineWidth' | 'height';
+
+/**
+ * A rule applied to every image in a note: fit within a maximum width, scale to a percentage of
+ * the original width, or clear the custom sizes.
+ */
+export type NoteResizeRule = { kind: 'fit'; maxWidth: number } | { kind: 'percent'; percent: number } | { kind: 'clear' };
+
+/** The notes a bulk resize applies to: the whole vault, the notes under a folder, or the notes with a tag */
+export type BulkResizeScope = { kind: 'vault' } | { kind: 'folder'; path: string } | { kind: 'tag'; tag: string };
+
+/** Which notes deleting an image removes its embeds from: every note that uses it, or only the current note */
+export type DeleteLinkScope = 'everywhere' | 'thisNote';
+
+/**
+ * An image shown in a canvas: a file node that displays a vault image, or an image embedded in the
+ * markdown of a text node.
+ */
+export interface CanvasImage {
+    canvasFile: TFile;
+    nodeId: string;
+    nodeType: 'file' | 'text';
+    imageFile: TFile;
+}
+
+/** A rectangle of an image to keep when cropping, in pixels of the image as displayed */
+export interface CropRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** A quarter, half or mirror turn applied to an image file */
+export type ImageTransform = 'rotateLeft' | 'rotateRight' | 'rotate180' | 'flipHorizontal' | 'flipVertical';
+
+/** An image format files can be converted to */
+export interface ConvertFormat {
+    extension: string;
+    mimeType: string;
+    /** The format's name as shown in menus */
+    label: string;
+    /** Whether the encoder takes a quality; lossless formats ignore it */
+    lossy: boolean;
+}
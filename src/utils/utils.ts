@@ -1,4 +1,5 @@
 import { App, Editor, FileView, MarkdownView, TFile } from 'obsidian';
+import type { NoteResizeRule, ResizeUnit, TextEdit } from './types';
 
 function isDomNode(target: EventTarget): target is Node {
     return 'instanceOf' in target && typeof target.instanceOf === 'function';
@@ -36,6 +37,20 @@ export function findImageElement(target: EventTarget | null): HTMLImageElement |
     return null;
 }
 
+/**
+ * Finds the embed container under an event target, for embeds that aren't shown as an image:
+ * videos, PDFs and drawings rendered as SVG. The caller checks which file the embed shows.
+ * @param target - The event target or HTML element
+ * @returns The embed container, or null when the target isn't inside an embed
+ */
+export function findMediaEmbedElement(target: EventTarget | null): HTMLElement | null {
+    if (!target || !isDomNode(target)) return null;
+
+    // Drawings are often inline SVG, whose elements aren't HTML elements
+    const element = target.instanceOf(Element) ? target : target.parentElement;
+    return element?.closest<HTMLElement>('.internal-embed[src]') ?? null;
+}
+
 export function getImageSourceCandidates(img: HTMLImageElement): string[] {
     return [img.getAttribute('data-src') ?? '', img.getAttribute('src') ?? '', img.currentSrc ?? '', img.src ?? '']
         .map(value => value.trim())
@@ -114,6 +129,23 @@ export function safeDecodeURIComponent(value: string): string {
     }
 }
 
+/**
+ * Points a link destination as written at a renamed file in the same folder, keeping its folders,
+ * any query or heading, and whether its file name was URL-encoded.
+ * @returns The new destination, or null when it doesn't end with the old file name
+ */
+export function renameLinkTarget(destination: string, oldName: string, newName: string): string | null {
+    const suffixIndex = destination.search(/[?#]/);
+    const path = suffixIndex >= 0 ? destination.slice(0, suffixIndex) : destination;
+    const nameStart = path.lastIndexOf('/') + 1;
+    const rawName = path.slice(nameStart);
+    const name = safeDecodeURIComponent(rawName);
+    if (name.toLowerCase() !== oldName.toLowerCase()) return null;
+
+    const newRawName = rawName === name ? newName : encodeURIComponent(newName);
+    return `${path.slice(0, nameStart)}${newRawName}${destination.slice(path.length)}`;
+}
+
 export function createUserVisibleError(message: string): Error {
     const error = new Error(message);
     error.name = 'UserVisibleError';
@@ -124,6 +156,38 @@ export function isUserVisibleError(error: unknown): error is Error {
     return error instanceof Error && error.name === 'UserVisibleError';
 }
 
+/**
+ * Applies non-overlapping edits whose offsets refer to the original text.
+ */
+export function applyTextEdits(text: string, edits: readonly TextEdit[]): string {
+    let result = '';
+    let lastIndex = 0;
+
+    for (const edit of [...edits].sort((a, b) => a.start - b.start)) {
+        result += text.substring(lastIndex, edit.start) + edit.text;
+        lastIndex = edit.end;
+    }
+
+    return result + text.substring(lastIndex);
+}
+
+/**
+ * Returns the edits that undo `edits`: applied to the result of `applyTextEdits(text, edits)`,
+ * they give back `text`. Offsets of the returned edits refer to that result.
+ */
+export function invertTextEdits(text: string, edits: readonly TextEdit[]): TextEdit[] {
+    const inverse: TextEdit[] = [];
+    let shift = 0;
+
+    for (const edit of [...edits].sort((a, b) => a.start - b.start)) {
+        const start = edit.start + shift;
+        inverse.push({ start, end: start + edit.text.length, text: text.substring(edit.start, edit.end) });
+        shift += edit.text.length - (edit.end - edit.start);
+    }
+
+    return inverse;
+}
+
 export function parseObsidianImageSizeParam(value: string): { width: number; height?: number } | null {
     const trimmed = value.trim();
     if (!trimmed) return null;
@@ -155,6 +219,101 @@ export function findLastObsidianImageSizeParam(values: string[]): { index: numbe
     return null;
 }
 
+/**
+ * Sets the width in image link parameters, replacing the last size parameter or appending one.
+ * A WxH size keeps its form with the height recomputed from `aspectRatio` (height / width) when one is given,
+ * otherwise its height is dropped to avoid distortion.
+ */
+export function setImageWidthParam(params: string[], width: number, aspectRatio: number | null = null): string[] {
+    const sizeParam = findLastObsidianImageSizeParam(params);
+    if (!sizeParam) return [...params, String(width)];
+
+    const replacement =
+        sizeParam.height !== undefined && aspectRatio !== null ? `${width}x${Math.max(1, Math.round(width * aspectRatio))}` : String(width);
+    return [...params.slice(0, sizeParam.index), replacement, ...params.slice(sizeParam.index + 1)];
+}
+
+/**
+ * Swaps the width and height of the last WxH size in an image link's parameters, for an image
+ * turned a quarter. A width alone is left as it is.
+ */
+export function swapImageSizeParam(params: string[]): string[] {
+    const sizeParam = findLastObsidianImageSizeParam(params);
+    if (sizeParam?.height === undefined) return params;
+    return [...params.slice(0, sizeParam.index), `${sizeParam.height}x${sizeParam.width}`, ...params.slice(sizeParam.index + 1)];
+}
+
+/**
+ * Drops the last size parameter when its width is the image's own width, once the file itself has
+ * that width and the parameter no longer changes how it shows.
+ */
+export function removeRedundantSizeParam(params: string[], imageWidth: number): string[] {
+    const sizeParam = findLastObsidianImageSizeParam(params);
+    if (sizeParam?.width !== imageWidth) return params;
+    return [...params.slice(0, sizeParam.index), ...params.slice(sizeParam.index + 1)];
+}
+
+/**
+ * Applies a note-wide resize rule to the parameters of one image link.
+ * @param originalSize - Intrinsic image size, or null when it couldn't be read; links that need it are left unchanged
+ * @param keepWidthAndHeight - Whether WxH sizes keep their form (see `setImageWidthParam`)
+ */
+export function applyNoteResizeRule(
+    params: string[],
+    rule: NoteResizeRule,
+    originalSize: { width: number; height: number } | null,
+    keepWidthAndHeight: boolean
+): string[] {
+    const sizeParam = findLastObsidianImageSizeParam(params);
+    if (rule.kind === 'clear') {
+        return sizeParam ? [...params.slice(0, sizeParam.index), ...params.slice(sizeParam.index + 1)] : params;
+    }
+
+    const aspectRatio = keepWidthAndHeight && originalSize ? originalSize.height / originalSize.width : null;
+    if (rule.kind === 'percent') {
+        if (!originalSize) return params;
+        return setImageWidthParam(params, Math.max(1, Math.round((originalSize.width * rule.percent) / 100)), aspectRatio);
+    }
+
+    // Images narrower than the maximum keep their size
+    const currentWidth = sizeParam?.width ?? originalSize?.width ?? null;
+    if (currentWidth === null || currentWidth <= rule.maxWidth) return params;
+    return setImageWidthParam(params, rule.maxWidth, aspectRatio);
+}
+
+/**
+ * Converts an amount in the custom resize dialog to a width in pixels.
+ * @param originalSize - Intrinsic image size, needed for percentages of the original and for heights
+ * @param lineWidth - Readable line width in pixels, needed for percentages of the line width
+ * @returns The width, or null when the amount is invalid or the unit's reference size is unknown
+ */
+export function resolveResizeWidth(
+    amount: number,
+    unit: ResizeUnit,
+    originalSize: { width: number; height: number } | null,
+    lineWidth: number | null
+): number | null {
+    if (!Number.isFinite(amount) || amount <= 0) return null;
+
+    let width: number | null;
+    switch (unit) {
+        case 'px':
+            width = amount;
+            break;
+        case 'percent':
+            width = originalSize ? (originalSize.width * amount) / 100 : null;
+            break;
+        case 'lineWidth':
+            width = lineWidth ? (lineWidth * amount) / 100 : null;
+            break;
+        case 'height':
+            width = originalSize ? (amount * originalSize.width) / originalSize.height : null;
+            break;
+    }
+
+    return width === null ? null : Math.max(1, Math.round(width));
+}
+
 export function findMarkdownViewForElement(app: App, element: HTMLElement): MarkdownView | null {
     for (const leaf of app.workspace.getLeavesOfType('markdown')) {
         const view = leaf.view;
@@ -198,3 +357,20 @@ export function findMarkdownEditorForFile(app: App, file: TFile): Editor | null
     }
     return null;
 }
+
+/**
+ * Reads a note as it is now: from its open editor, which can be ahead of the saved file, or from the vault.
+ */
+export async function readNoteText(app: App, file: TFile): Promise<string> {
+    const editor = findMarkdownEditorForFile(app, file);
+    return editor ? editor.getValue() : app.vault.cachedRead(file);
+}
+
+/**
+ * Formats a file size in bytes for display, e.g. "512 B", "210 KB" or "4.2 MB".
+ */
+export function formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { TFile, makeTFile } from 'obsidian';
+import { BulkResizeService } from '../src/core/BulkResizeService';
+import { LinkService } from '../src/core/LinkService';
+
+type PluginArg = ConstructorParameters<typeof BulkResizeService>[0];
+
+const photo = makeTFile('images/photo.png');
+const wide = makeTFile('images/wide.png');
+const dimensions = new Map([
+    [photo.path, { width: 400, height: 300, rotated: false }],
+    [wide.path, { width: 2000, height: 1000, rotated: false }]
+]);
+
+/** Builds a bulk resize service over notes given by path and contents, with inline tags per note. */
+function makeService(notes: Record<string, string>, tags: Record<string, string[]> = {}): BulkResizeService {
+    const noteFiles = Object.keys(notes).map(path => makeTFile(path));
+    const vaultFiles = [...noteFiles, photo, wide];
+    const plugin = {
+        settings: { keepWidthAndHeight: false },
+        app: {
+            vault: {
+                getMarkdownFiles: () => noteFiles,
+                cachedRead: async (file: TFile) => notes[file.path]
+            },
+            metadataCache: {
+                getFirstLinkpathDest: (linkpath: string) =>
+                    vaultFiles.find(file => file.name === linkpath || file.path === linkpath) ?? null,
+                getFileCache: (file: TFile) => ({ tags: (tags[file.path] ?? []).map(tag => ({ tag })) })
+            },
+            workspace: { getLeavesOfType: () => [] }
+        },
+        imageService: {
+            readImageDimensions: async (file: TFile) => {
+                const found = dimensions.get(file.path);
+                if (!found) throw new Error('unreadable');
+                return found;
+            }
+        }
+    } as Record<string, unknown>;
+    plugin.linkService = new LinkService(plugin as unknown as ConstructorParameters<typeof LinkService>[0]);
+    return new BulkResizeService(plugin as unknown as PluginArg);
+}
+
+const noProgress = { onProgress: () => {}, isCancelled: () => false };
+
+describe('BulkResizeService', () => {
+    it('selects notes by folder and by tag, including nested tags', () => {
+        const service = makeService(
+            { 'archive/a.md': '', 'archive/old/b.md': '', 'archived.md': '', 'c.md': '' },
+            { 'c.md': ['#Project/site'], 'archived.md': ['#projects'] }
+        );
+
+        expect(service.getNotesInScope({ kind: 'folder', path: 'archive/' }).map(file => file.path)).toEqual([
+            'archive/a.md',
+            'archive/old/b.md'
+        ]);
+        expect(service.getNotesInScope({ kind: 'tag', tag: 'project' }).map(file => file.path)).toEqual(['c.md']);
+    });
+
+    it('lists the size changes of each note without writing', async () => {
+        const service = makeService({
+            'a.md': '![[photo.png]] ![[wide.png|1500]]',
+            'b.md': '![[photo.png|300]]'
+        });
+
+        const plan = await service.planBulkResize(service.getNotesInScope({ kind: 'vault' }), { kind: 'fit', maxWidth: 800 }, noProgress);
+
+        expect(plan.map(note => note.file.path)).toEqual(['a.md']);
+        expect(plan[0].changes).toEqual([{ imageFile: wide, before: '1500', after: '800' }]);
+    });
+
+    it('stops planning when cancelled', async () => {
+        const service = makeService({ 'a.md': '![[photo.png|300]]', 'b.md': '![[photo.png|300]]' });
+        let seen = 0;
+
+        const plan = await service.planBulkResize(
+            service.getNotesInScope({ kind: 'vault' }),
+            { kind: 'clear' },
+            { onProgress: () => seen++, isCancelled: () => seen > 0 }
+        );
+
+        expect(plan.map(note => note.file.path)).toEqual(['a.md']);
+    });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { findCanvasNode, resizeCanvasNode, updateCanvasNode, updateCanvasNodes } from '../src/utils/canvas';
+
+const canvas = JSON.stringify({
+    nodes: [
+        { id: 'a', type: 'file', file: 'images/photo.png', x: 10, y: 20, width: 400, height: 300 },
+        { id: 'b', type: 'text', text: 'Hello', x: 500, y: 20, width: 250, height: 60 }
+    ],
+    edges: [{ id: 'e', fromNode: 'a', toNode: 'b' }]
+});
+
+describe('findCanvasNode', () => {
+    it('finds a node by id', () => {
+        expect(findCanvasNode(canvas, 'b')).toMatchObject({ type: 'text', text: 'Hello' });
+        expect(findCanvasNode(canvas, 'missing')).toBeNull();
+    });
+
+    it('returns null for text that is not a canvas', () => {
+        expect(findCanvasNode('not json', 'a')).toBeNull();
+        expect(findCanvasNode('{}', 'a')).toBeNull();
+    });
+});
+
+describe('updateCanvasNode', () => {
+    it('rewrites one node and keeps the rest of the canvas', () => {
+        const updated = updateCanvasNode(canvas, 'a', node => resizeCanvasNode(node, 200, 0.75));
+        const data = JSON.parse(updated) as { nodes: unknown[]; edges: unknown[] };
+
+        expect(data.nodes[0]).toEqual({ id: 'a', type: 'file', file: 'images/photo.png', x: 10, y: 20, width: 200, height: 150 });
+        expect(data.nodes[1]).toMatchObject({ id: 'b', width: 250, height: 60 });
+        expect(data.edges).toHaveLength(1);
+        expect(updated).toContain('\n\t"nodes"');
+    });
+
+    it('leaves the text unchanged when the node is missing', () => {
+        expect(updateCanvasNode(canvas, 'missing', node => resizeCanvasNode(node, 200, 1))).toBe(canvas);
+        expect(updateCanvasNode('not json', 'a', node => node)).toBe('not json');
+    });
+});
+
+describe('updateCanvasNodes', () => {
+    it('rewrites the nodes the update changes', () => {
+        const updated = updateCanvasNodes(canvas, node => (node.type === 'text' ? { ...node, text: 'Hi' } : node));
+        const data = JSON.parse(updated) as { nodes: { text?: string }[] };
+
+        expect(data.nodes.map(node => node.text)).toEqual([undefined, 'Hi']);
+    });
+
+    it('leaves the text unchanged when no node changes', () => {
+        expect(updateCanvasNodes(canvas, node => node)).toBe(canvas);
+    });
+});
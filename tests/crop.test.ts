@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { clampCropRegion, dragCropRegion, fitCropRegionToAspect, getCropAspectRatio } from '../src/utils/crop';
+
+const start = { x: 100, y: 100, width: 400, height: 300 };
+
+describe('getCropAspectRatio', () => {
+    it('returns the ratio of a preset', () => {
+        expect(getCropAspectRatio('free', 800, 600)).toBeNull();
+        expect(getCropAspectRatio('16:9', 800, 600)).toBeCloseTo(16 / 9);
+        expect(getCropAspectRatio('original', 800, 600)).toBeCloseTo(4 / 3);
+    });
+});
+
+describe('clampCropRegion', () => {
+    it('rounds the region and keeps it within the image', () => {
+        expect(clampCropRegion({ x: -10.4, y: 550.6, width: 900, height: 100.2 }, 800, 600)).toEqual({
+            x: 0,
+            y: 500,
+            width: 800,
+            height: 100
+        });
+    });
+});
+
+describe('fitCropRegionToAspect', () => {
+    it('fits the largest region with the ratio around the same center', () => {
+        expect(fitCropRegionToAspect(start, 1, 800, 600)).toEqual({ x: 150, y: 100, width: 300, height: 300 });
+    });
+});
+
+describe('dragCropRegion', () => {
+    it('moves the region without leaving the image', () => {
+        expect(dragCropRegion(start, 'move', 500, -50, null, 800, 600)).toEqual({ x: 400, y: 50, width: 400, height: 300 });
+    });
+
+    it('resizes from a corner and keeps the opposite corner in place', () => {
+        expect(dragCropRegion(start, 'nw', 50, 20, null, 800, 600)).toEqual({ x: 150, y: 120, width: 350, height: 280 });
+    });
+
+    it('keeps the aspect ratio while resizing', () => {
+        expect(dragCropRegion(start, 'se', -100, 0, 4 / 3, 800, 600)).toEqual({ x: 100, y: 100, width: 300, height: 225 });
+        expect(dragCropRegion(start, 's', 0, 60, 4 / 3, 800, 600)).toEqual({ x: 60, y: 100, width: 480, height: 360 });
+    });
+
+    it('shrinks a ratio-locked region that would leave the image', () => {
+        expect(dragCropRegion(start, 'se', 400, 0, 4 / 3, 800, 600)).toEqual({ x: 100, y: 100, width: 667, height: 500 });
+    });
+});
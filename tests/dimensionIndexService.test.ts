@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+import { makeTFile } from 'obsidian';
+import { DimensionIndexService } from '../src/core/DimensionIndexService';
+
+type PluginArg = ConstructorParameters<typeof DimensionIndexService>[0];
+
+// Saves are scheduled on window timers
+vi.stubGlobal('window', { setTimeout, clearTimeout });
+
+const INDEX_PATH = 'config/plugins/pixel-perfect-image/dimension-index.json';
+
+/** Builds an index service whose plugin folder is a map of file contents by path. */
+function makeService(files = new Map<string, string>()): { service: DimensionIndexService; files: Map<string, string> } {
+    const plugin = {
+        manifest: { dir: 'config/plugins/pixel-perfect-image' },
+        app: {
+            vault: {
+                adapter: {
+                    exists: async (path: string) => files.has(path),
+                    read: async (path: string) => files.get(path) ?? '',
+                    write: async (path: string, data: string) => {
+                        files.set(path, data);
+                    }
+                }
+            }
+        }
+    };
+    return { service: new DimensionIndexService(plugin as unknown as PluginArg), files };
+}
+
+function makeImage(path: string, mtime: number, size: number) {
+    const file = makeTFile(path);
+    file.stat = { ctime: 0, mtime, size };
+    return file;
+}
+
+describe('DimensionIndexService', () => {
+    it('persists entries and reads them back after a reload', async () => {
+        const { service, files } = makeService();
+        const image = makeImage('photos/a.jpg', 100, 2048);
+
+        service.set(image, { width: 3000, height: 4000, rotated: true }, 'jpeg');
+        service.cleanup();
+        await vi.waitFor(() => expect(files.has(INDEX_PATH)).toBe(true));
+
+        const reloaded = makeService(files).service;
+        expect(await reloaded.get(image)).toEqual({ mtime: 100, size: 2048, width: 3000, height: 4000, format: 'jpeg', rotated: true });
+    });
+
+    it('ignores entries recorded for another version of the file', async () => {
+        const { service } = makeService();
+        service.set(makeImage('a.png', 100, 10), { width: 1, height: 1, rotated: false }, 'png');
+
+        expect(await service.get(makeImage('a.png', 200, 10))).toBeNull();
+        expect(await service.get(makeImage('a.png', 100, 20))).toBeNull();
+    });
+
+    it('moves entries on rename', async () => {
+        const { service } = makeService();
+        service.set(makeImage('a.png', 100, 10), { width: 20, height: 10, rotated: false }, 'png');
+        service.rename('a.png', 'b.png');
+
+        expect(await service.get(makeImage('a.png', 100, 10))).toBeNull();
+        expect((await service.get(makeImage('b.png', 100, 10)))?.width).toBe(20);
+    });
+
+    it('starts empty when the stored index is unreadable', async () => {
+        const { service } = makeService(new Map([[INDEX_PATH, '{ not json']]));
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        expect(await service.get(makeImage('a.png', 100, 10))).toBeNull();
+    });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { getHtmlImageSizeParams, scanHtmlImageTags, setHtmlImageSize, setHtmlImageSrc } from '../src/utils/htmlImages';
+
+describe('scanHtmlImageTags', () => {
+    it('finds img tags outside code with their src', () => {
+        const text = 'a <img src="assets/x.png" width="400"> b `<img src="code.png">`\n<IMG SRC=y.png />';
+        expect(scanHtmlImageTags(text).map(tag => [tag.src, text.slice(tag.start, tag.end)])).toEqual([
+            ['assets/x.png', '<img src="assets/x.png" width="400">'],
+            ['y.png', '<IMG SRC=y.png />']
+        ]);
+    });
+
+    it('reports a picture or figure wrapping a single image', () => {
+        const text =
+            '<figure>\n<picture><source srcset="x.webp"><img src="x.png"></picture>\n<figcaption>X</figcaption>\n</figure>\n<figure><img src="a.png"><img src="b.png"></figure>';
+        const [single, first] = scanHtmlImageTags(text);
+
+        expect(single.wrapper && text.slice(single.wrapper.start, single.wrapper.end)).toBe(text.slice(0, text.indexOf('</figure>') + 9));
+        expect(first.wrapper).toBeNull();
+    });
+});
+
+describe('getHtmlImageSizeParams', () => {
+    it('reads width and height attributes', () => {
+        expect(getHtmlImageSizeParams('<img src="x.png" width="400">')).toEqual(['400']);
+        expect(getHtmlImageSizeParams("<img src='x.png' width='400px' height=300>")).toEqual(['400x300']);
+    });
+
+    it('prefers a width in the style attribute', () => {
+        expect(getHtmlImageSizeParams('<img src="x.png" width="100" style="border: 0; width: 250px">')).toEqual(['250']);
+    });
+
+    it('ignores relative sizes', () => {
+        expect(getHtmlImageSizeParams('<img src="x.png" width="50%">')).toEqual([]);
+    });
+});
+
+describe('setHtmlImageSize', () => {
+    it('updates the width and drops a stale height', () => {
+        expect(setHtmlImageSize('<img src="x.png" width="400" height="300" alt="X">', { width: 200 })).toBe(
+            '<img src="x.png" width="200" alt="X">'
+        );
+    });
+
+    it('adds width and height attributes to a tag without a size', () => {
+        expect(setHtmlImageSize('<img src="x.png" />', { width: 200, height: 100 })).toBe('<img src="x.png" width="200" height="100" />');
+    });
+
+    it('keeps a size written as style in the style attribute', () => {
+        expect(setHtmlImageSize('<img src="x.png" style="width: 400px; border: 0">', { width: 200 })).toBe(
+            '<img src="x.png" style="border: 0; width: 200px">'
+        );
+    });
+
+    it('removes the size', () => {
+        expect(setHtmlImageSize('<img width=400 src="x.png" style="width:400px">', null)).toBe('<img src="x.png">');
+    });
+});
+
+describe('setHtmlImageSrc', () => {
+    it('replaces the src and keeps the rest of the tag', () => {
+        expect(setHtmlImageSrc('<img SRC=\'x.png\' width="200">', 'x.webp')).toBe('<img SRC=\'x.webp\' width="200">');
+        expect(setHtmlImageSrc('<img src=x.png>', 'my x.webp')).toBe('<img src="my x.webp">');
+    });
+});
@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import { detectImageFormat, readImageHeader } from '../src/utils/imageHeaders';
+
+function bytes(...parts: (number[] | string)[]): ArrayBuffer {
+    const values = parts.flatMap(part => (typeof part === 'string' ? [...part].map(char => char.charCodeAt(0)) : part));
+    return new Uint8Array(values).buffer;
+}
+
+const u16be = (value: number) => [value >> 8, value & 0xff];
+const u16le = (value: number) => [value & 0xff, value >> 8];
+const u32be = (value: number) => [...u16be(value >>> 16), ...u16be(value & 0xffff)];
+const u32le = (value: number) => [...u16le(value & 0xffff), ...u16le(value >>> 16)];
+
+function isoBox(type: string, ...payload: (number[] | string)[]): number[] {
+    const body = [...new Uint8Array(bytes(...payload))];
+    return [...u32be(body.length + 8), ...[...type].map(char => char.charCodeAt(0)), ...body];
+}
+
+describe('detectImageFormat', () => {
+    it('identifies formats from their magic bytes', () => {
+        expect(detectImageFormat(new Uint8Array(bytes([0x89], 'PNG', [0x0d, 0x0a, 0x1a, 0x0a])))).toBe('png');
+        expect(detectImageFormat(new Uint8Array(bytes([0xff, 0xd8, 0xff, 0xe0])))).toBe('jpeg');
+        expect(detectImageFormat(new Uint8Array(bytes('GIF89a')))).toBe('gif');
+        expect(detectImageFormat(new Uint8Array(bytes('RIFF', [0, 0, 0, 0], 'WEBP')))).toBe('webp');
+        expect(detectImageFormat(new Uint8Array(bytes('MM', [0x00, 0x2a])))).toBe('tiff');
+    });
+
+    it('tells AVIF from other HEIF brands, including compatible brands', () => {
+        expect(detectImageFormat(new Uint8Array(bytes(isoBox('ftyp', 'avif', [0, 0, 0, 0]))))).toBe('avif');
+        expect(detectImageFormat(new Uint8Array(bytes(isoBox('ftyp', 'mif1', [0, 0, 0, 0], 'avif'))))).toBe('avif');
+        expect(detectImageFormat(new Uint8Array(bytes(isoBox('ftyp', 'heic', [0, 0, 0, 0], 'mif1'))))).toBe('heif');
+        expect(detectImageFormat(new Uint8Array(bytes(isoBox('ftyp', 'isom', [0, 0, 0, 0], 'mp41'))))).toBeNull();
+    });
+
+    it('returns null for unknown data', () => {
+        expect(detectImageFormat(new Uint8Array(bytes('<svg')))).toBeNull();
+        expect(detectImageFormat(new Uint8Array())).toBeNull();
+    });
+});
+
+describe('readImageHeader', () => {
+    it('reads PNG dimensions from IHDR', () => {
+        const png = bytes([0x89], 'PNG', [0x0d, 0x0a, 0x1a, 0x0a], u32be(13), 'IHDR', u32be(640), u32be(480), [8, 6, 0, 0, 0]);
+        expect(readImageHeader(png)).toEqual({ format: 'png', width: 640, height: 480, orientation: 1 });
+    });
+
+    it('reads JPEG dimensions from the frame header after other segments', () => {
+        const jpeg = bytes(
+            [0xff, 0xd8],
+            [0xff, 0xe1],
+            u16be(8),
+            'Exif',
+            [0, 0],
+            [0xff, 0xc4],
+            u16be(4),
+            [0, 0],
+            [0xff, 0xc2],
+            u16be(17),
+            [8],
+            u16be(1080),
+            u16be(1920),
+            [3]
+        );
+        expect(readImageHeader(jpeg)).toEqual({ format: 'jpeg', width: 1920, height: 1080, orientation: 1 });
+    });
+
+    it('swaps JPEG dimensions for EXIF orientations that turn the image', () => {
+        const jpeg = (orientation: number) =>
+            bytes(
+                [0xff, 0xd8],
+                [0xff, 0xe1],
+                u16be(2 + 6 + 8 + 2 + 12 + 4),
+                'Exif',
+                [0, 0],
+                'MM',
+                [0, 0x2a],
+                u32be(8),
+                u16be(1),
+                [...u16be(274), ...u16be(3), ...u32be(1), ...u16be(orientation), 0, 0],
+                u32be(0),
+                [0xff, 0xc0],
+                u16be(17),
+                [8],
+                u16be(3000),
+                u16be(4000),
+                [3]
+            );
+
+        expect(readImageHeader(jpeg(6))).toEqual({ format: 'jpeg', width: 3000, height: 4000, orientation: 6 });
+        expect(readImageHeader(jpeg(3))).toEqual({ format: 'jpeg', width: 4000, height: 3000, orientation: 3 });
+        expect(readImageHeader(jpeg(0))).toEqual({ format: 'jpeg', width: 4000, height: 3000, orientation: 1 });
+    });
+
+    it('returns null when the JPEG frame header is past the data', () => {
+        const truncated = bytes([0xff, 0xd8], [0xff, 0xe1], u16be(60000), 'Exif');
+        expect(readImageHeader(truncated)).toBeNull();
+    });
+
+    it('reads GIF and BMP dimensions', () => {
+        expect(readImageHeader(bytes('GIF89a', u16le(32), u16le(16)))).toEqual({ format: 'gif', width: 32, height: 16, orientation: 1 });
+
+        const bmp = bytes('BM', u32le(0), u32le(0), u32le(54), u32le(40), u32le(200), u32le(-100 >>> 0));
+        expect(readImageHeader(bmp)).toEqual({ format: 'bmp', width: 200, height: 100, orientation: 1 });
+    });
+
+    it('reads the largest ICO entry, treating 0 as 256', () => {
+        const entry = (size: number) => [size, size, 0, 0, ...u16le(1), ...u16le(32), ...u32le(0), ...u32le(0)];
+        const ico = bytes([0, 0, 1, 0], u16le(2), entry(16), entry(0));
+        expect(readImageHeader(ico)).toEqual({ format: 'ico', width: 256, height: 256, orientation: 1 });
+    });
+
+    it('reads lossy, lossless, and extended WebP dimensions', () => {
+        const riff = (chunk: string, payload: number[]) => bytes('RIFF', u32le(0), 'WEBP', chunk, u32le(payload.length), payload);
+
+        const lossy = riff('VP8 ', [0, 0, 0, 0x9d, 0x01, 0x2a, ...u16le(300), ...u16le(200)]);
+        expect(readImageHeader(lossy)).toEqual({ format: 'webp', width: 300, height: 200, orientation: 1 });
+
+        // 14-bit width - 1 = 299 and height - 1 = 199, packed little-endian after the 0x2f signature
+        const packed = 299 | (199 << 14);
+        const lossless = riff('VP8L', [0x2f, ...u32le(packed), 0, 0, 0, 0, 0]);
+        expect(readImageHeader(lossless)).toEqual({ format: 'webp', width: 300, height: 200, orientation: 1 });
+
+        const extended = riff('VP8X', [0, 0, 0, 0, 0x2b, 0x01, 0x00, 0xc7, 0x00, 0x00]);
+        expect(readImageHeader(extended)).toEqual({ format: 'webp', width: 300, height: 200, orientation: 1 });
+    });
+
+    it('reads TIFF dimensions from the first IFD in either byte order', () => {
+        const littleEndian = bytes(
+            'II',
+            [0x2a, 0],
+            u32le(8),
+            u16le(2),
+            [...u16le(256), ...u16le(3), ...u32le(1), ...u16le(800), 0, 0],
+            [...u16le(257), ...u16le(4), ...u32le(1), ...u32le(600)]
+        );
+        expect(readImageHeader(littleEndian)).toEqual({ format: 'tiff', width: 800, height: 600, orientation: 1 });
+
+        const bigEndian = bytes(
+            'MM',
+            [0, 0x2a],
+            u32be(8),
+            u16be(2),
+            [...u16be(256), ...u16be(4), ...u32be(1), ...u32be(1024)],
+            [...u16be(257), ...u16be(3), ...u32be(1), ...u16be(768), 0, 0]
+        );
+        expect(readImageHeader(bigEndian)).toEqual({ format: 'tiff', width: 1024, height: 768, orientation: 1 });
+    });
+
+    it('reads the AVIF size associated with the primary item rather than other items', () => {
+        const ispe = (width: number, height: number) => isoBox('ispe', [0, 0, 0, 0], u32be(width), u32be(height));
+        const avif = bytes(
+            isoBox('ftyp', 'avif', [0, 0, 0, 0], 'mif1'),
+            isoBox(
+                'meta',
+                [0, 0, 0, 0],
+                isoBox('pitm', [0, 0, 0, 0], u16be(1)),
+                isoBox(
+                    'iprp',
+                    isoBox('ipco', ispe(4000, 3000), ispe(1200, 800)),
+                    // Item 2 has property 1, item 1 has property 2
+                    isoBox('ipma', [0, 0, 0, 0], u32be(2), u16be(2), [1, 0x81], u16be(1), [1, 0x02])
+                )
+            )
+        );
+        expect(readImageHeader(avif)).toEqual({ format: 'avif', width: 1200, height: 800, orientation: 1 });
+    });
+
+    it('applies HEIF irot rotation to the primary item size', () => {
+        const heif = bytes(
+            isoBox('ftyp', 'heic', [0, 0, 0, 0], 'mif1'),
+            isoBox(
+                'meta',
+                [0, 0, 0, 0],
+                isoBox('pitm', [0, 0, 0, 0], u16be(1)),
+                isoBox(
+                    'iprp',
+                    isoBox('ipco', isoBox('ispe', [0, 0, 0, 0], u32be(4032), u32be(3024)), isoBox('irot', [3])),
+                    isoBox('ipma', [0, 0, 0, 0], u32be(1), u16be(1), [2, 0x01, 0x82])
+                )
+            )
+        );
+        expect(readImageHeader(heif)).toEqual({ format: 'heif', width: 3024, height: 4032, orientation: 6 });
+    });
+
+    it('returns null for unsupported data', () => {
+        expect(readImageHeader(bytes('<svg width="10" height="10">'))).toBeNull();
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { readImageHeader } from '../src/utils/imageHeaders';
+import { copyJpegMetadata } from '../src/utils/jpegMetadata';
+
+const ascii = (text: string) => [...text].map(char => char.charCodeAt(0));
+const u16le = (value: number) => [value & 0xff, value >> 8];
+
+const SOI = [0xff, 0xd8];
+const JFIF = [0xff, 0xe0, 0x00, 0x10, ...ascii('JFIF\0'), 1, 1, 0, 0, 1, 0, 1, 0, 0];
+// A 200 × 100 baseline frame header
+const FRAME = [0xff, 0xc0, 0x00, 0x11, 8, 0x00, 0x64, 0x00, 0xc8, 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1];
+const EOI = [0xff, 0xd9];
+const ICC = [0xff, 0xe2, 0x00, 0x06, ...ascii('ICC!')];
+
+/** A little-endian EXIF block holding only an orientation */
+function exif(orientation: number): number[] {
+    const tiff = [
+        ...ascii('II'),
+        ...u16le(42),
+        8,
+        0,
+        0,
+        0,
+        ...u16le(1),
+        ...u16le(0x0112),
+        ...u16le(3),
+        1,
+        0,
+        0,
+        0,
+        ...u16le(orientation),
+        0,
+        0
+    ];
+    const payload = [...ascii('Exif'), 0, 0, ...tiff, 0, 0, 0, 0];
+    return [0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff, ...payload];
+}
+
+const jpeg = (...parts: number[][]) => new Uint8Array(parts.flat()).buffer;
+
+describe('copyJpegMetadata', () => {
+    it('copies the metadata after the JFIF header and resets the orientation', () => {
+        const copied = copyJpegMetadata(jpeg(SOI, exif(6), ICC, FRAME, EOI), jpeg(SOI, JFIF, FRAME, EOI));
+
+        expect([...new Uint8Array(copied)]).toEqual([...SOI, ...JFIF, ...exif(1), ...ICC, ...FRAME, ...EOI]);
+        expect(readImageHeader(copied)).toEqual({ format: 'jpeg', width: 200, height: 100, orientation: 1 });
+    });
+
+    it('leaves the target unchanged without metadata to copy', () => {
+        const target = jpeg(SOI, JFIF, FRAME, EOI);
+        expect(copyJpegMetadata(jpeg(SOI, JFIF, FRAME, EOI), target)).toBe(target);
+        expect(copyJpegMetadata(new Uint8Array(ascii('GIF89a')).buffer, target)).toBe(target);
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { TFile, makeTFile } from 'obsidian';
+import { MarkdownView, TFile, makeTFile } from 'obsidian';
 import { LinkService } from '../src/core/LinkService';
 import { findLastObsidianImageSizeParam } from '../src/utils/utils';
 
@@ -9,14 +9,41 @@ interface FakeContext {
     service: LinkService;
     /** Note contents by path, updated in place by vault.process. */
     contents: Map<string, string>;
+    /** The metadata cache's resolved links, by source path then target path. */
+    resolvedLinks: Record<string, Record<string, number>>;
+}
+
+interface FakeEditor {
+    value: string;
+    /** Every transaction applied, one entry per undo step. */
+    transactions: { changes: { from: number; to: number; text: string }[] }[];
+}
+
+/** An editor over a single string, using offsets as positions so applied changes are easy to inspect. */
+function makeEditor(value: string): FakeEditor & Record<string, unknown> {
+    const editor = {
+        value,
+        transactions: [] as FakeEditor['transactions'],
+        getValue: () => editor.value,
+        offsetToPos: (offset: number) => offset,
+        transaction: (tx: FakeEditor['transactions'][number]) => {
+            editor.transactions.push(tx);
+            for (const change of [...tx.changes].reverse()) {
+                editor.value = editor.value.slice(0, change.from) + change.text + editor.value.slice(change.to);
+            }
+        }
+    };
+    return editor;
 }
 
 /**
  * Builds a LinkService wired to a fake plugin. Link resolution mirrors Obsidian's
  * behavior closely enough for tests: exact path first, then unique filename match.
+ * Notes listed in `openEditors` are open in a markdown view with that editor.
  */
-function makeContext(vaultFiles: TFile[], activeFile?: TFile): FakeContext {
+function makeContext(vaultFiles: TFile[], activeFile?: TFile, openEditors = new Map<TFile, FakeEditor>()): FakeContext {
     const contents = new Map<string, string>();
+    const resolvedLinks: Record<string, Record<string, number>> = {};
 
     const getFirstLinkpathDest = (linkpath: string, _sourcePath: string): TFile | null => {
         const byPath = vaultFiles.find(file => file.path === linkpath);
@@ -26,9 +53,20 @@ function makeContext(vaultFiles: TFile[], activeFile?: TFile): FakeContext {
 
     const plugin = {
         app: {
-            metadataCache: { getFirstLinkpathDest },
-            workspace: { getActiveFile: () => activeFile ?? null },
+            metadataCache: { getFirstLinkpathDest, resolvedLinks },
+            workspace: {
+                getActiveFile: () => activeFile ?? null,
+                getLeavesOfType: () =>
+                    Array.from(openEditors, ([file, editor]) => {
+                        const view = Object.assign(new MarkdownView(), { editor });
+                        view.file = file;
+                        return { view };
+                    })
+            },
             vault: {
+                getFileByPath: (path: string) =>
+                    [...vaultFiles, ...(activeFile ? [activeFile] : [])].find(file => file.path === path) ?? null,
+                cachedRead: async (file: TFile) => contents.get(file.path) ?? '',
                 process: async (file: TFile, transform: (data: string) => string): Promise<string> => {
                     const before = contents.get(file.path) ?? '';
                     const after = transform(before);
@@ -39,7 +77,7 @@ function makeContext(vaultFiles: TFile[], activeFile?: TFile): FakeContext {
         }
     };
 
-    return { service: new LinkService(plugin as unknown as PluginArg), contents };
+    return { service: new LinkService(plugin as unknown as PluginArg), contents, resolvedLinks };
 }
 
 /** The same width transform ImageService applies: replace the last size param or append. */
@@ -124,6 +162,57 @@ describe('updateLinks', () => {
     });
 });
 
+describe('single occurrence updates', () => {
+    it('updates only the link starting at the occurrence', () => {
+        const { service } = makeContext([photo]);
+        const text = '![[photo.png|100]] and ![alt|200](photo.png)';
+        const [, second] = service.findImageLinkRanges(text, note, photo);
+        expect(service.updateLinks(text, note, photo, setWidth(400), second)).toBe('![[photo.png|100]] and ![alt|400](photo.png)');
+    });
+
+    it('updates no link when the occurrence no longer points at one', () => {
+        const { service } = makeContext([photo]);
+        const text = '![[photo.png|100]] and ![[photo.png|200]]';
+        expect(service.updateLinks(text, note, photo, setWidth(400), { start: 3, end: 10 })).toBe(text);
+        expect(service.findCurrentImageWidthInText(note, photo, text, { start: 3, end: 10 })).toBeNull();
+    });
+
+    it('reports a note edited since the occurrence was located', async () => {
+        const { service, contents } = makeContext([photo]);
+        const text = '![[photo.png|100]]\n![[photo.png|100]]\n';
+        contents.set(note.path, text);
+        const [, second] = service.findImageLinkRanges(text, note, photo);
+        contents.set(note.path, `Intro\n${text}`);
+
+        await expect(service.updateImageLinks(note, photo, setWidth(400), second)).rejects.toThrow('The image link changed');
+        expect(contents.get(note.path)).toBe(`Intro\n${text}`);
+    });
+
+    it('reports link ranges in document offsets past the frontmatter', () => {
+        const { service } = makeContext([photo, other]);
+        const text = '---\ncover: "![[photo.png]]"\n---\n![[other.png]] ![[photo.png]] `![[photo.png]]`';
+        expect(service.findImageLinkRanges(text, note, photo)).toEqual([{ start: 47, end: 61 }]);
+    });
+
+    it('rewrites the located occurrence through vault.process', async () => {
+        const { service, contents } = makeContext([photo]);
+        const text = '---\ntitle: x\n---\n![[photo.png|100]]\n![[photo.png|100]]\n';
+        contents.set(note.path, text);
+        const [, second] = service.findImageLinkRanges(text, note, photo);
+
+        await service.updateImageLinks(note, photo, setWidth(400), second);
+
+        expect(contents.get(note.path)).toBe('---\ntitle: x\n---\n![[photo.png|100]]\n![[photo.png|400]]\n');
+    });
+
+    it('reads the width of the located occurrence', () => {
+        const { service } = makeContext([photo]);
+        const text = '![[photo.png|100]] ![[photo.png|250]]';
+        const [, second] = service.findImageLinkRanges(text, note, photo);
+        expect(service.findCurrentImageWidthInText(note, photo, text, second)).toBe(250);
+    });
+});
+
 describe('updateImageLinks', () => {
     it('updates the note body and reports the change', async () => {
         const { service, contents } = makeContext([photo]);
@@ -145,21 +234,218 @@ describe('updateImageLinks', () => {
         expect(contents.get(note.path)).toBe('Only ![[other.png|100]] here\n');
     });
 
+    it('edits an open note as one editor transaction instead of writing the file', async () => {
+        const editor = makeEditor('![[photo.png|100]] text ![alt|100](photo.png)\n');
+        const { service, contents } = makeContext([photo], note, new Map([[note, editor]]));
+
+        const didChange = await service.updateImageLinks(note, photo, setWidth(400));
+
+        expect(didChange).toBe(true);
+        expect(contents.has(note.path)).toBe(false);
+        expect(editor.transactions).toHaveLength(1);
+        expect(editor.transactions[0].changes).toEqual([
+            { from: 0, to: 18, text: '![[photo.png|400]]' },
+            { from: 24, to: 45, text: '![alt|400](photo.png)' }
+        ]);
+        expect(editor.value).toBe('![[photo.png|400]] text ![alt|400](photo.png)\n');
+    });
+
+    it('leaves the editor history alone when nothing changes', async () => {
+        const editor = makeEditor('---\ntitle: x\n---\n![[other.png|100]]\n');
+        const { service } = makeContext([photo, other], note, new Map([[note, editor]]));
+
+        expect(await service.updateImageLinks(note, photo, setWidth(400))).toBe(false);
+        expect(editor.transactions).toHaveLength(0);
+    });
+
     it('refuses to edit the image file itself', async () => {
         const { service } = makeContext([photo]);
         expect(await service.updateImageLinks(photo, photo, setWidth(400))).toBe(false);
     });
 });
 
+describe('links in tables', () => {
+    const table = (cell: string) => `| image | note |\n| --- | --- |\n| ${cell} | x |`;
+
+    it('reads an escaped pipe as the parameter separator', () => {
+        const { service } = makeContext([photo]);
+        expect(service.parseLinkComponents('photo.png\\|300')).toEqual({ path: 'photo.png', hash: '', params: ['300'], isWikiStyle: true });
+        expect(service.findCurrentImageWidthInText(note, photo, table('![[photo.png\\|300]]'))).toBe(300);
+    });
+
+    it('keeps the pipe escaped when changing the width', () => {
+        const { service } = makeContext([photo]);
+        expect(service.updateLinks(table('![[photo.png\\|300]]'), note, photo, setWidth(400))).toBe(table('![[photo.png\\|400]]'));
+        expect(service.updateLinks(table('![alt\\|300](photo.png)'), note, photo, setWidth(400))).toBe(table('![alt\\|400](photo.png)'));
+    });
+
+    it('escapes the pipe of a width added inside a table only', () => {
+        const { service } = makeContext([photo]);
+        expect(service.updateLinks(table('![[photo.png]]'), note, photo, setWidth(400))).toBe(table('![[photo.png\\|400]]'));
+        expect(service.updateLinks('a ![[photo.png]] | b', note, photo, setWidth(400))).toBe('a ![[photo.png|400]] | b');
+    });
+});
+
+describe('HTML image tags', () => {
+    it('resizes an img tag through its width attribute', () => {
+        const { service } = makeContext([photo]);
+        const text = 'x <img src="images/photo.png" width="300" height="200"> y';
+        expect(service.updateLinks(text, note, photo, setWidth(400))).toBe('x <img src="images/photo.png" width="400"> y');
+        expect(service.findCurrentImageSizeInText(note, photo, text)).toEqual({ width: 300, height: 200 });
+    });
+
+    it('finds an img tag under the cursor', () => {
+        const { service } = makeContext([photo]);
+        const text = 'x <img src="images/photo.png">';
+        expect(service.findImageLinkAtOffset(text, note, 8)).toEqual({ imageFile: photo, range: { start: 2, end: text.length } });
+    });
+
+    it('removes an img tag with its figure', async () => {
+        const { service, contents } = makeContext([photo], note);
+        contents.set(note.path, 'Intro\n\n<figure><img src="photo.png"><figcaption>A photo</figcaption></figure>\n\nOutro');
+
+        await service.removeImageLinks(note, photo);
+
+        expect(contents.get(note.path)).toBe('Intro\n\nOutro');
+    });
+});
+
+describe('reference-style images', () => {
+    const definition = '\n\n[Logo]: images/photo.png "The logo"';
+
+    it('resizes through the alt text and keeps the label', () => {
+        const { service } = makeContext([photo]);
+        expect(service.updateLinks(`![alt|100][logo]${definition}`, note, photo, setWidth(400))).toBe(`![alt|400][logo]${definition}`);
+        expect(service.findCurrentImageWidthInText(note, photo, `![alt|100][ LOGO ]${definition}`)).toBe(100);
+    });
+
+    it('turns collapsed and shortcut references into full ones when adding a size', () => {
+        const { service } = makeContext([photo]);
+        expect(service.updateLinks(`![Logo][] ![logo]${definition}`, note, photo, setWidth(400))).toBe(
+            `![Logo|400][Logo] ![logo|400][logo]${definition}`
+        );
+    });
+
+    it('ignores labels without a definition and inline links', () => {
+        const { service } = makeContext([photo]);
+        expect(service.findImageLinkRanges('![alt][missing] ![logo](other.png)\n\n[logo]: images/photo.png', note, photo)).toEqual([]);
+    });
+
+    it('removes the definition once nothing else uses it', async () => {
+        const { service, contents } = makeContext([photo], note);
+        contents.set(note.path, `Intro ![alt][logo]${definition}`);
+
+        await service.removeImageLinks(note, photo);
+        expect(contents.get(note.path)).toBe('Intro\n');
+
+        contents.set(note.path, `![alt][logo] and [the logo][logo]${definition}`);
+        await service.removeImageLinks(note, photo);
+        expect(contents.get(note.path)).toBe(`and [the logo][logo]${definition}`);
+    });
+});
+
 describe('removeImageLinks', () => {
     it('removes wiki and markdown links but keeps code examples', async () => {
         const { service, contents } = makeContext([photo], note);
         contents.set(note.path, 'A ![[photo.png|100]] B ![alt](photo.png) C\n\n```\n![[photo.png]]\n```\n');
 
-        const didChange = await service.removeImageLinks(photo);
+        const removed = await service.removeImageLinks(note, photo);
 
-        expect(didChange).toBe(true);
-        expect(contents.get(note.path)).toBe('A  B  C\n\n```\n![[photo.png]]\n```\n');
+        expect(removed).not.toBeNull();
+        expect(contents.get(note.path)).toBe('A B C\n\n```\n![[photo.png]]\n```\n');
+    });
+
+    it('removes a line left empty without leaving two blank lines', async () => {
+        const { service, contents } = makeContext([photo], note);
+        contents.set(note.path, 'Intro\n\n![[photo.png]]\n\nOutro\n\n![alt](photo.png)');
+
+        await service.removeImageLinks(note, photo);
+
+        expect(contents.get(note.path)).toBe('Intro\n\nOutro\n');
+    });
+
+    it('removes list items and quote lines that only held the image', async () => {
+        const { service, contents } = makeContext([photo], note);
+        contents.set(
+            note.path,
+            '- one\n- ![[photo.png]]\n- [ ] ![[photo.png|100]]\n1. ![[photo.png]]\n> ![[photo.png]]\n- two ![[photo.png]]'
+        );
+
+        await service.removeImageLinks(note, photo);
+
+        expect(contents.get(note.path)).toBe('- one\n- two');
+    });
+
+    it('empties a table cell but keeps the row', async () => {
+        const { service, contents } = makeContext([photo], note);
+        contents.set(note.path, '| a | b |\n| - | - |\n| ![[photo.png]] | x |\n');
+
+        await service.removeImageLinks(note, photo);
+
+        expect(contents.get(note.path)).toBe('| a | b |\n| - | - |\n|  | x |\n');
+    });
+
+    it('tidies lines with a pipe outside tables', async () => {
+        const { service, contents } = makeContext([photo], note);
+        contents.set(note.path, 'Use `a | b` here ![[photo.png]]\nSee [[page|the page]] ![[photo.png]] now\n');
+
+        await service.removeImageLinks(note, photo);
+
+        expect(contents.get(note.path)).toBe('Use `a | b` here\nSee [[page|the page]] now\n');
+    });
+
+    it('leaves no double spaces around inline images', async () => {
+        const { service, contents } = makeContext([photo], note);
+        contents.set(note.path, '![[photo.png]] starts, ends ![[photo.png]]\r\nmiddle ![[photo.png]] ![alt](photo.png) text\r\n');
+
+        await service.removeImageLinks(note, photo);
+
+        expect(contents.get(note.path)).toBe('starts, ends\r\nmiddle text\r\n');
+    });
+
+    it('counts only the notes that show the image, with the current note first', async () => {
+        const linking = makeTFile('notes/linking.md');
+        const showing = makeTFile('notes/showing.md');
+        const { service, contents, resolvedLinks } = makeContext([photo, linking, showing], note);
+        contents.set(linking.path, 'See [[photo.png]]');
+        contents.set(showing.path, '<img src="photo.png">');
+        contents.set(note.path, 'Just added ![[photo.png]]');
+        resolvedLinks[linking.path] = { [photo.path]: 1 };
+        resolvedLinks[showing.path] = { [photo.path]: 1 };
+
+        expect(await service.findNotesWithImageLinks(photo, note)).toEqual([note, showing]);
+    });
+
+    it('finds the canvases that use the image', () => {
+        const board = makeTFile('boards/board.canvas');
+        const { service, resolvedLinks } = makeContext([photo, board]);
+        resolvedLinks[board.path] = { [photo.path]: 1 };
+        resolvedLinks[note.path] = { [photo.path]: 1 };
+
+        expect(service.findCanvasesReferencingFile(photo)).toEqual([board]);
+    });
+
+    it('puts the removed links back while the note is unchanged', async () => {
+        const { service, contents } = makeContext([photo], note);
+        const original = '---\ntags: [a]\n---\nA ![[photo.png|100]] B ![alt](photo.png) C';
+        contents.set(note.path, original);
+
+        const removed = await service.removeImageLinks(note, photo);
+        if (!removed) throw new Error('Expected links to be removed');
+        expect(await service.restoreImageLinks(removed)).toBe(true);
+        expect(contents.get(note.path)).toBe(original);
+    });
+
+    it('leaves a note edited since the removal alone', async () => {
+        const { service, contents } = makeContext([photo], note);
+        contents.set(note.path, 'A ![[photo.png]] B');
+
+        const removed = await service.removeImageLinks(note, photo);
+        if (!removed) throw new Error('Expected links to be removed');
+        contents.set(note.path, 'A  B edited');
+
+        expect(await service.restoreImageLinks(removed)).toBe(false);
+        expect(contents.get(note.path)).toBe('A  B edited');
     });
 });
 
@@ -185,6 +471,125 @@ describe('findCurrentImageWidthInText', () => {
     });
 });
 
+describe('findCurrentImageSizeInText', () => {
+    it('reports the height of a WxH size', () => {
+        const { service } = makeContext([photo]);
+        expect(service.findCurrentImageSizeInText(note, photo, '![[photo.png|640x360]]')).toEqual({ width: 640, height: 360 });
+        expect(service.findCurrentImageSizeInText(note, photo, '![alt|640x360](photo.png)')).toEqual({ width: 640, height: 360 });
+    });
+
+    it('leaves the height out of a width-only size', () => {
+        const { service } = makeContext([photo]);
+        expect(service.findCurrentImageSizeInText(note, photo, '![[photo.png|640]]')).toEqual({ width: 640, height: undefined });
+    });
+});
+
+describe('relinkImage', () => {
+    const converted = makeTFile('images/photo.webp');
+
+    it('points every link style at the new file and keeps its parameters', async () => {
+        const { service, contents } = makeContext([photo, other], note);
+        contents.set(
+            note.path,
+            [
+                '![[photo.png|100]] ![[images/photo.png#page]]',
+                '![alt|200](images/photo.png "Title") ![other](other.png)',
+                '<img src="photo.png?v=2" width="300"> ![logo][logo]',
+                '',
+                '[logo]: <images/photo.png> "The logo"'
+            ].join('\n')
+        );
+
+        expect(await service.relinkImage(note, photo, converted)).toBe(true);
+        expect(contents.get(note.path)).toBe(
+            [
+                '![[photo.webp|100]] ![[images/photo.webp#page]]',
+                '![alt|200](images/photo.webp "Title") ![other](other.png)',
+                '<img src="photo.webp?v=2" width="300"> ![logo][logo]',
+                '',
+                '[logo]: <images/photo.webp> "The logo"'
+            ].join('\n')
+        );
+    });
+
+    it('points plain links and frontmatter links at the new file', async () => {
+        const { service, contents } = makeContext([photo, other], note);
+        contents.set(
+            note.path,
+            [
+                '---',
+                'cover: "[[photo.png]]"',
+                '---',
+                'See [[photo.png|the photo]] and [the file](images/photo.png).',
+                '[![alt](photo.png)](images/photo.png) [source][src] [[other.png]]',
+                '',
+                '[src]: images/photo.png'
+            ].join('\n')
+        );
+
+        expect(await service.relinkImage(note, photo, converted)).toBe(true);
+        expect(contents.get(note.path)).toBe(
+            [
+                '---',
+                'cover: "[[photo.webp]]"',
+                '---',
+                'See [[photo.webp|the photo]] and [the file](images/photo.webp).',
+                '[![alt](photo.webp)](images/photo.webp) [source][src] [[other.png]]',
+                '',
+                '[src]: images/photo.webp'
+            ].join('\n')
+        );
+    });
+
+    it('keeps an encoded file name encoded', () => {
+        const spaced = makeTFile('images/my photo.png');
+        const { service } = makeContext([spaced]);
+        const result = service.relinkImageInText('![a](my%20photo.png) ![[my photo.png]]', note, spaced, makeTFile('images/my photo.jpg'));
+        expect(result).toBe('![a](my%20photo.jpg) ![[my photo.jpg]]');
+    });
+});
+
+describe('updateAllImageLinks', () => {
+    it('rewrites every image link in one pass and counts the changes', async () => {
+        const notePage = makeTFile('notes/page.md');
+        const { service, contents } = makeContext([photo, other, notePage]);
+        contents.set(note.path, '![[photo.png|100]] ![alt](other.png) ![[page]] `![[photo.png]]`\n');
+
+        const result = await service.updateAllImageLinks(note, (imageFile, params) =>
+            imageFile === photo ? params : setWidth(300)(params)
+        );
+
+        expect(result).toEqual({ total: 2, changed: 1 });
+        expect(contents.get(note.path)).toBe('![[photo.png|100]] ![alt|300](other.png) ![[page]] `![[photo.png]]`\n');
+    });
+
+    it('lists each linked image once', () => {
+        const { service } = makeContext([photo, other]);
+        expect(service.findLinkedImageFiles('![[photo.png]] ![a](photo.png) ![[other.png|20]]', note)).toEqual([photo, other]);
+    });
+});
+
+describe('findImageLinkAtOffset', () => {
+    it('finds the wiki or markdown link around the offset', () => {
+        const { service } = makeContext([photo, other]);
+        const text = 'A ![[photo.png|100]] B ![alt](other.png) C';
+
+        expect(service.findImageLinkAtOffset(text, note, 5)).toEqual({ imageFile: photo, range: { start: 2, end: 20 } });
+        expect(service.findImageLinkAtOffset(text, note, 40)).toEqual({ imageFile: other, range: { start: 23, end: 40 } });
+        expect(service.findImageLinkAtOffset(text, note, 21)).toBeNull();
+    });
+
+    it('skips links in frontmatter and code and links to notes', () => {
+        const notePage = makeTFile('notes/page.md');
+        const { service } = makeContext([photo, notePage]);
+        const text = '---\ncover: "![[photo.png]]"\n---\n`![[photo.png]]` ![[page]]';
+
+        expect(service.findImageLinkAtOffset(text, note, 15)).toBeNull();
+        expect(service.findImageLinkAtOffset(text, note, 36)).toBeNull();
+        expect(service.findImageLinkAtOffset(text, note, 52)).toBeNull();
+    });
+});
+
 describe('external image links', () => {
     const url = 'https://example.com/pic.png';
 
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { markdownCodeRanges, overlapsRange } from '../src/utils/markdownRanges';
+import { markdownCodeRanges, markdownTableRanges, overlapsRange } from '../src/utils/markdownRanges';
 
 /** Returns the substrings of `text` that the scanner classified as code. */
 function codeSlices(text: string): string[] {
@@ -78,6 +78,24 @@ describe('markdownCodeRanges', () => {
     });
 });
 
+describe('markdownTableRanges', () => {
+    it('covers a table from the header to its last row', () => {
+        const text = 'intro\n| a | b |\n| --- | :-: |\n| ![[x.png\\|100]] | y |\nc | d\n\nafter | pipe';
+        expect(markdownTableRanges(text).map(range => text.slice(range.start, range.end))).toEqual([
+            '| a | b |\n| --- | :-: |\n| ![[x.png\\|100]] | y |\nc | d'
+        ]);
+    });
+
+    it('finds tables inside blockquotes', () => {
+        const text = '> | a |\n> | - |\n> | ![[x.png]] |';
+        expect(markdownTableRanges(text)).toEqual([{ start: 0, end: text.length }]);
+    });
+
+    it('ignores pipes in prose and setext underlines', () => {
+        expect(markdownTableRanges('a | b\nplain\n\nHeading | x\n---\n')).toEqual([]);
+    });
+});
+
 describe('overlapsRange', () => {
     it('detects overlap with half-open ranges', () => {
         const ranges = [{ start: 5, end: 10 }];
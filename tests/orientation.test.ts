@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { readImageHeader } from '../src/utils/imageHeaders';
+import { composeOrientation, isTurningOrientation, setJpegOrientation } from '../src/utils/orientation';
+
+const ascii = (text: string) => [...text].map(char => char.charCodeAt(0));
+
+function bytes(...parts: (number[] | string)[]): ArrayBuffer {
+    return new Uint8Array(parts.flatMap(part => (typeof part === 'string' ? ascii(part) : part))).buffer;
+}
+
+const u16le = (value: number) => [value & 0xff, value >> 8];
+
+const JFIF = [0xff, 0xe0, 0x00, 0x10, ...ascii('JFIF\0'), 1, 1, 0, 0, 1, 0, 1, 0, 0];
+// A 200 × 100 baseline frame header
+const FRAME = [0xff, 0xc0, 0x00, 0x11, 8, 0x00, 0x64, 0x00, 0xc8, 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1];
+const EOI = [0xff, 0xd9];
+
+/** A little-endian EXIF block whose first IFD holds one SHORT entry */
+function exif(tag: number, value: number): number[] {
+    const tiff = [
+        ...ascii('II'),
+        ...u16le(42),
+        8,
+        0,
+        0,
+        0,
+        ...u16le(1),
+        ...u16le(tag),
+        ...u16le(3),
+        1,
+        0,
+        0,
+        0,
+        ...u16le(value),
+        0,
+        0,
+        0,
+        0,
+        0,
+        0
+    ];
+    const payload = [...ascii('Exif'), 0, 0, ...tiff];
+    return [0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff, ...payload];
+}
+
+describe('composeOrientation', () => {
+    it('turns the orientation a quarter at a time', () => {
+        expect([1, 6, 3, 8].map(orientation => composeOrientation(orientation, 'rotateRight'))).toEqual([6, 3, 8, 1]);
+        expect(composeOrientation(1, 'rotateLeft')).toBe(8);
+        expect(composeOrientation(2, 'rotate180')).toBe(4);
+    });
+
+    it('mirrors the image as displayed', () => {
+        expect(composeOrientation(1, 'flipHorizontal')).toBe(2);
+        expect(composeOrientation(1, 'flipVertical')).toBe(4);
+        expect(composeOrientation(6, 'flipHorizontal')).toBe(5);
+        expect(composeOrientation(6, 'flipVertical')).toBe(7);
+    });
+});
+
+describe('isTurningOrientation', () => {
+    it('counts half and quarter turns but not mirrors alone', () => {
+        expect([1, 2, 3, 4, 5, 6, 7, 8].filter(isTurningOrientation)).toEqual([3, 5, 6, 7, 8]);
+    });
+});
+
+describe('setJpegOrientation', () => {
+    it('adds an EXIF block after the JFIF header', () => {
+        const updated = setJpegOrientation(bytes([0xff, 0xd8], JFIF, FRAME, EOI), 6);
+        if (!updated) throw new Error('Expected the orientation to be written');
+
+        expect(new Uint8Array(updated).slice(2 + JFIF.length, 2 + JFIF.length + 2)).toEqual(new Uint8Array([0xff, 0xe1]));
+        expect(readImageHeader(updated)).toEqual({ format: 'jpeg', width: 100, height: 200, orientation: 6 });
+    });
+
+    it('rewrites an existing orientation in place', () => {
+        const original = bytes([0xff, 0xd8], exif(0x0112, 6), FRAME, EOI);
+        const updated = setJpegOrientation(original, 3);
+        if (!updated) throw new Error('Expected the orientation to be written');
+
+        expect(updated.byteLength).toBe(original.byteLength);
+        expect(readImageHeader(updated)).toEqual({ format: 'jpeg', width: 200, height: 100, orientation: 3 });
+    });
+
+    it('returns null for EXIF without an orientation tag and for other data', () => {
+        expect(setJpegOrientation(bytes([0xff, 0xd8], exif(0x010f, 0), FRAME, EOI), 6)).toBeNull();
+        expect(setJpegOrientation(bytes('GIF89a'), 6)).toBeNull();
+    });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { readPdfPageSize } from '../src/utils/pdf';
+
+function pdf(text: string): ArrayBuffer {
+    return new TextEncoder().encode(text).buffer;
+}
+
+describe('readPdfPageSize', () => {
+    it('reads the first page box in CSS pixels', () => {
+        const data = pdf('%PDF-1.4\n3 0 obj\n<< /Type /Page /MediaBox [0 0 612 792] >>\nendobj\n4 0 obj\n<< /MediaBox [0 0 100 100] >>');
+        expect(readPdfPageSize(data)).toEqual({ width: 816, height: 1056 });
+    });
+
+    it('swaps the sides of a page rotated a quarter turn', () => {
+        const data = pdf('%PDF-1.7\n3 0 obj\n<< /Type /Page /Rotate 90 /MediaBox [ 0 0 612 792 ] >>\nendobj');
+        expect(readPdfPageSize(data)).toEqual({ width: 1056, height: 816 });
+    });
+
+    it('returns null without a readable page box', () => {
+        expect(readPdfPageSize(pdf('%PDF-1.5\n<< /Type /ObjStm >>'))).toBeNull();
+        expect(readPdfPageSize(pdf('<< /MediaBox [0 0 612 792] >>'))).toBeNull();
+    });
+});
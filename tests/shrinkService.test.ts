@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { TFile, makeTFile } from 'obsidian';
+import { LinkService } from '../src/core/LinkService';
+import { ShrinkService } from '../src/core/ShrinkService';
+
+type PluginArg = ConstructorParameters<typeof ShrinkService>[0];
+
+const photo = makeTFile('images/photo.png');
+const wide = makeTFile('images/wide.jpg');
+const icon = makeTFile('images/icon.gif');
+const board = makeTFile('images/board.png');
+const widths = new Map([
+    [photo.path, 400],
+    [wide.path, 2000],
+    [icon.path, 800],
+    [board.path, 1600]
+]);
+wide.stat.size = 500_000;
+
+/**
+ * Builds a shrink service over notes given by path and contents. Resampling returns `shrunkBytes`
+ * bytes, or fails for a width of 0.
+ */
+function makeService(notes: Record<string, string>, shrunkBytes = 100_000) {
+    const noteFiles = Object.keys(notes).map(path => makeTFile(path));
+    const vaultFiles = [...noteFiles, photo, wide, icon, board];
+    const written: string[] = [];
+    const plugin = {
+        app: {
+            vault: {
+                getMarkdownFiles: () => noteFiles,
+                cachedRead: async (file: TFile) => notes[file.path],
+                getFileByPath: (path: string) => vaultFiles.find(file => file.path === path) ?? null,
+                process: async (file: TFile, transform: (data: string) => string) => (notes[file.path] = transform(notes[file.path]))
+            },
+            metadataCache: {
+                getFirstLinkpathDest: (linkpath: string) =>
+                    vaultFiles.find(file => file.name === linkpath || file.path === linkpath) ?? null,
+                resolvedLinks: {
+                    'a.md': { [wide.path]: 1, [photo.path]: 1, [icon.path]: 1, [board.path]: 1 },
+                    'b.md': { [wide.path]: 1 },
+                    'board.canvas': { [board.path]: 1 }
+                }
+            },
+            workspace: { getLeavesOfType: () => [] }
+        },
+        imageService: {
+            canEditImage: (file: TFile) => file.extension !== 'gif',
+            readImageDimensions: async (file: TFile) => ({ width: widths.get(file.path) ?? 0, height: 100, rotated: false }),
+            shrinkImage: async (file: TFile, width: number) => {
+                if (width === 0) throw new Error('unreadable');
+                return { data: new ArrayBuffer(shrunkBytes), width, height: 50, originalWidth: 2000, originalHeight: 100 };
+            },
+            replaceImageData: async (file: TFile) => {
+                written.push(file.path);
+            }
+        }
+    } as Record<string, unknown>;
+    plugin.linkService = new LinkService(plugin as unknown as ConstructorParameters<typeof LinkService>[0]);
+    return { service: new ShrinkService(plugin as unknown as PluginArg), notes, written };
+}
+
+const noProgress = { onProgress: () => {}, isCancelled: () => false };
+
+describe('ShrinkService', () => {
+    it('plans images shown smaller than their width at their widest link', async () => {
+        const { service } = makeService({
+            'a.md': '![[wide.jpg|600]] ![[photo.png|400]] ![[icon.gif|100]] ![[board.png|300]]',
+            'b.md': '![wide|800x40](images/wide.jpg)'
+        });
+
+        expect(await service.planShrink(noProgress)).toEqual([{ file: wide, originalWidth: 2000, width: 800 }]);
+    });
+
+    it('leaves out images linked without a size anywhere', async () => {
+        const { service } = makeService({ 'a.md': '![[wide.jpg|600]]', 'b.md': '![[wide.jpg]]' });
+
+        expect(await service.planShrink(noProgress)).toEqual([]);
+    });
+
+    it('shrinks the images of a plan and drops the size parameters matching the new width', async () => {
+        const { service, notes, written } = makeService({ 'a.md': '![[wide.jpg|800]] ![[wide.jpg|600]]', 'b.md': '![[wide.jpg|800x40]]' });
+
+        const report = await service.applyShrink([{ file: wide, originalWidth: 2000, width: 800 }], noProgress);
+
+        expect(report).toEqual({
+            imagesShrunk: 1,
+            bytesBefore: 500_000,
+            bytesAfter: 100_000,
+            notSmaller: 0,
+            failedImages: [],
+            cancelled: false
+        });
+        expect(written).toEqual([wide.path]);
+        expect(notes).toEqual({ 'a.md': '![[wide.jpg]] ![[wide.jpg|600]]', 'b.md': '![[wide.jpg]]' });
+    });
+
+    it('keeps images that would not get smaller and reports failures', async () => {
+        const { service, written } = makeService({}, 600_000);
+
+        const report = await service.applyShrink(
+            [
+                { file: wide, originalWidth: 2000, width: 800 },
+                { file: photo, originalWidth: 400, width: 0 }
+            ],
+            noProgress
+        );
+
+        expect(report).toMatchObject({ imagesShrunk: 0, notSmaller: 1, failedImages: [photo] });
+        expect(written).toEqual([]);
+    });
+});
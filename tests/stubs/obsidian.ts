@@ -10,6 +10,15 @@ export function getLanguage(): string {
     return 'en';
 }
 
+export function normalizePath(path: string): string {
+    return path.replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+}
+
+/** Tags of a note's metadata cache; the stub only knows inline tags. */
+export function getAllTags(cache: { tags?: { tag: string }[] }): string[] | null {
+    return cache.tags?.map(entry => entry.tag) ?? null;
+}
+
 export function addIcon(_iconId: string, _svgContent: string): void {}
 
 export function setIcon(_parent: unknown, _iconId: string): void {}
@@ -43,6 +52,7 @@ export class TFile extends TAbstractFile {
     basename = '';
     extension = '';
     parent: TFolder | null = null;
+    stat = { ctime: 0, mtime: 0, size: 0 };
 }
 
 /** Creates a TFile whose derived fields (name, basename, extension) match `path`. */
@@ -1,10 +1,19 @@
 import { describe, expect, it } from 'vitest';
 import {
+    applyNoteResizeRule,
+    applyTextEdits,
     findLastObsidianImageSizeParam,
+    formatFileSize,
+    invertTextEdits,
     isHttpUrlString,
     isLocalNetworkUrl,
     parseObsidianImageSizeParam,
-    safeDecodeURIComponent
+    removeRedundantSizeParam,
+    renameLinkTarget,
+    resolveResizeWidth,
+    safeDecodeURIComponent,
+    setImageWidthParam,
+    swapImageSizeParam
 } from '../src/utils/utils';
 import { parseResizeSize, sanitizeResizeSizes } from '../src/ui/settings';
 
@@ -89,6 +98,116 @@ describe('safeDecodeURIComponent', () => {
     });
 });
 
+describe('renameLinkTarget', () => {
+    it('replaces the file name and keeps the folders and suffix', () => {
+        expect(renameLinkTarget('../images/photo.png', 'photo.png', 'photo.webp')).toBe('../images/photo.webp');
+        expect(renameLinkTarget('images/Photo.PNG?v=2#top', 'photo.png', 'photo.webp')).toBe('images/photo.webp?v=2#top');
+    });
+
+    it('encodes the new name when the old one was encoded', () => {
+        expect(renameLinkTarget('my%20photo.png', 'my photo.png', 'my photo.webp')).toBe('my%20photo.webp');
+        expect(renameLinkTarget('my photo.png', 'my photo.png', 'my photo.webp')).toBe('my photo.webp');
+    });
+
+    it('returns null for another file', () => {
+        expect(renameLinkTarget('images/other.png', 'photo.png', 'photo.webp')).toBeNull();
+    });
+});
+
+describe('applyTextEdits', () => {
+    it('applies edits by their offsets in the original text, in any order', () => {
+        const edits = [
+            { start: 8, end: 9, text: 'THREE' },
+            { start: 0, end: 3, text: '1' }
+        ];
+        expect(applyTextEdits('one two 3', edits)).toBe('1 two THREE');
+    });
+
+    it('returns the text unchanged without edits', () => {
+        expect(applyTextEdits('unchanged', [])).toBe('unchanged');
+    });
+});
+
+describe('invertTextEdits', () => {
+    it('gives back the original text when applied to the edited text', () => {
+        const original = 'A ![[a.png]] B ![[b.png|100]] C';
+        const edits = [
+            { start: 15, end: 29, text: '' },
+            { start: 2, end: 12, text: 'x' }
+        ];
+        const edited = applyTextEdits(original, edits);
+
+        expect(edited).toBe('A x B  C');
+        expect(applyTextEdits(edited, invertTextEdits(original, edits))).toBe(original);
+    });
+});
+
+describe('resolveResizeWidth', () => {
+    const original = { width: 1200, height: 800 };
+
+    it('converts each unit to a width', () => {
+        expect(resolveResizeWidth(640, 'px', original, 700)).toBe(640);
+        expect(resolveResizeWidth(25, 'percent', original, 700)).toBe(300);
+        expect(resolveResizeWidth(50, 'lineWidth', original, 700)).toBe(350);
+        expect(resolveResizeWidth(400, 'height', original, 700)).toBe(600);
+    });
+
+    it('returns null for invalid amounts or unknown reference sizes', () => {
+        expect(resolveResizeWidth(0, 'px', original, 700)).toBeNull();
+        expect(resolveResizeWidth(Number.NaN, 'px', original, 700)).toBeNull();
+        expect(resolveResizeWidth(50, 'percent', null, 700)).toBeNull();
+        expect(resolveResizeWidth(50, 'lineWidth', original, null)).toBeNull();
+    });
+});
+
+describe('setImageWidthParam', () => {
+    it('replaces the last size or appends one', () => {
+        expect(setImageWidthParam(['left', '100'], 300)).toEqual(['left', '300']);
+        expect(setImageWidthParam(['left'], 300)).toEqual(['left', '300']);
+    });
+
+    it('keeps a WxH size only when an aspect ratio is given', () => {
+        expect(setImageWidthParam(['640x360'], 320)).toEqual(['320']);
+        expect(setImageWidthParam(['640x360'], 320, 0.5625)).toEqual(['320x180']);
+    });
+});
+
+describe('swapImageSizeParam', () => {
+    it('swaps a WxH size and leaves a width alone', () => {
+        expect(swapImageSizeParam(['left', '640x360'])).toEqual(['left', '360x640']);
+        expect(swapImageSizeParam(['left', '640'])).toEqual(['left', '640']);
+    });
+});
+
+describe('removeRedundantSizeParam', () => {
+    it('drops a size matching the image width', () => {
+        expect(removeRedundantSizeParam(['left', '600'], 600)).toEqual(['left']);
+        expect(removeRedundantSizeParam(['600x338'], 600)).toEqual([]);
+        expect(removeRedundantSizeParam(['400'], 600)).toEqual(['400']);
+    });
+});
+
+describe('applyNoteResizeRule', () => {
+    const original = { width: 1200, height: 800 };
+
+    it('fits wider images to the maximum and leaves narrower ones', () => {
+        const rule = { kind: 'fit', maxWidth: 600 } as const;
+        expect(applyNoteResizeRule([], rule, original, false)).toEqual(['600']);
+        expect(applyNoteResizeRule(['400'], rule, original, false)).toEqual(['400']);
+        expect(applyNoteResizeRule([], rule, { width: 500, height: 500 }, false)).toEqual([]);
+        expect(applyNoteResizeRule([], rule, null, false)).toEqual([]);
+    });
+
+    it('scales to a percentage of the original width', () => {
+        expect(applyNoteResizeRule(['900x600'], { kind: 'percent', percent: 25 }, original, true)).toEqual(['300x200']);
+        expect(applyNoteResizeRule(['900'], { kind: 'percent', percent: 25 }, null, false)).toEqual(['900']);
+    });
+
+    it('clears the size and keeps other parameters', () => {
+        expect(applyNoteResizeRule(['left', '300'], { kind: 'clear' }, null, false)).toEqual(['left']);
+    });
+});
+
 describe('parseResizeSize', () => {
     it('parses pixel and percentage sizes', () => {
         expect(parseResizeSize('600px')).toEqual({ amount: 600, unit: 'px' });
@@ -109,3 +228,11 @@ describe('sanitizeResizeSizes', () => {
         expect(sanitizeResizeSizes([' 25%', '50%', '25%', 'oops', '600PX', ''])).toEqual(['25%', '50%', '600px']);
     });
 });
+
+describe('formatFileSize', () => {
+    it('picks a unit for the size', () => {
+        expect(formatFileSize(512)).toBe('512 B');
+        expect(formatFileSize(215_000)).toBe('210 KB');
+        expect(formatFileSize(4.2 * 1024 * 1024)).toBe('4.2 MB');
+    });
+});